@@ -62,37 +62,40 @@ Object.defineProperty(global.URL, 'revokeObjectURL', {
   value: jest.fn(),
 });
 
-// Mock HTMLCanvasElement for PDF rendering
-global.HTMLCanvasElement.prototype.getContext = jest.fn(() => ({
-  fillRect: jest.fn(),
-  clearRect: jest.fn(),
-  getImageData: jest.fn(() => ({ data: new Array(4) })),
-  putImageData: jest.fn(),
-  createImageData: jest.fn(() => ({ data: new Array(4) })),
-  setTransform: jest.fn(),
-  drawImage: jest.fn(),
-  save: jest.fn(),
-  fillText: jest.fn(),
-  restore: jest.fn(),
-  beginPath: jest.fn(),
-  moveTo: jest.fn(),
-  lineTo: jest.fn(),
-  closePath: jest.fn(),
-  stroke: jest.fn(),
-  translate: jest.fn(),
-  scale: jest.fn(),
-  rotate: jest.fn(),
-  arc: jest.fn(),
-  fill: jest.fn(),
-  measureText: jest.fn(() => ({ width: 10 })),
-  transform: jest.fn(),
-  rect: jest.fn(),
-  clip: jest.fn(),
-}));
+// Mock HTMLCanvasElement for PDF rendering (jsdom only - server code tests
+// run with @jest-environment node)
+if (typeof HTMLCanvasElement !== 'undefined') {
+  global.HTMLCanvasElement.prototype.getContext = jest.fn(() => ({
+    fillRect: jest.fn(),
+    clearRect: jest.fn(),
+    getImageData: jest.fn(() => ({ data: new Array(4) })),
+    putImageData: jest.fn(),
+    createImageData: jest.fn(() => ({ data: new Array(4) })),
+    setTransform: jest.fn(),
+    drawImage: jest.fn(),
+    save: jest.fn(),
+    fillText: jest.fn(),
+    restore: jest.fn(),
+    beginPath: jest.fn(),
+    moveTo: jest.fn(),
+    lineTo: jest.fn(),
+    closePath: jest.fn(),
+    stroke: jest.fn(),
+    translate: jest.fn(),
+    scale: jest.fn(),
+    rotate: jest.fn(),
+    arc: jest.fn(),
+    fill: jest.fn(),
+    measureText: jest.fn(() => ({ width: 10 })),
+    transform: jest.fn(),
+    rect: jest.fn(),
+    clip: jest.fn(),
+  }));
 
-global.HTMLCanvasElement.prototype.toDataURL = jest.fn(
-  () => 'data:image/png;base64,test'
-);
+  global.HTMLCanvasElement.prototype.toDataURL = jest.fn(
+    () => 'data:image/png;base64,test'
+  );
+}
 
 // Setup test environment variables
 process.env.NODE_ENV = 'test';
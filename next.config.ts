@@ -1,7 +1,10 @@
 import type { NextConfig } from 'next';
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // tesseract.js starts worker_threads from files in its own package, and
+  // pdf.js loads its worker script the same way, so both have to stay in
+  // node_modules instead of being bundled
+  serverExternalPackages: ['tesseract.js', 'pdfjs-dist'],
 };
 
 export default nextConfig;
@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+
+/**
+ * Local Mistral OCR mock server
+ * Replays recorded responses from scripts/fixtures/mistral so the Mistral
+ * adapter can be developed and tested without network access or an API key.
+ *
+ * Usage: node scripts/mistral-mock-server.mjs [--port 4010] [--fixture invoice]
+ * Then:  MISTRAL_API_URL=http://localhost:4010/v1 MISTRAL_API_KEY=mock npm run dev
+ *
+ * A fixture is a JSON file with a list of responses. Each POST /v1/ocr gets
+ * the next one; the last keeps repeating. That lets a fixture describe
+ * "429 with Retry-After, then success" as easily as a single success.
+ */
+
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Next to this script, wherever it is started from
+const FIXTURES_DIR = fileURLToPath(
+  new URL('./fixtures/mistral', import.meta.url)
+);
+
+/**
+ * Read a fixture by name (file name without .json)
+ */
+export function loadMistralFixture(name, fixturesDir = FIXTURES_DIR) {
+  const file = path.join(fixturesDir, `${name}.json`);
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Start the mock server.
+ * Options: port (0 = any free port), fixture (name), fixturesDir
+ * Resolves to { url, requests, close() } - url already ends in /v1.
+ */
+export function startMistralMockServer(options = {}) {
+  const fixture = loadMistralFixture(
+    options.fixture ?? 'invoice',
+    options.fixturesDir
+  );
+  const requests = [];
+  const pending = new Set(); // Delayed replies not sent yet
+  let served = 0;
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? safeParse(raw) : undefined;
+      requests.push({
+        method: req.method,
+        url: req.url,
+        authorization: req.headers.authorization,
+        body,
+      });
+
+      if (req.method !== 'POST' || req.url !== '/v1/ocr') {
+        return send(res, { status: 404, body: { detail: 'Not Found' } });
+      }
+      if (!req.headers.authorization?.startsWith('Bearer ')) {
+        return send(res, { status: 401, body: { detail: 'Unauthorized' } });
+      }
+
+      const responses = fixture.responses;
+      const response = responses[Math.min(served, responses.length - 1)];
+      served++;
+      const timer = setTimeout(() => {
+        pending.delete(timer);
+        send(res, response);
+      }, response.delayMs ?? 0);
+      pending.add(timer);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address();
+      resolve({
+        url: `http://127.0.0.1:${port}/v1`,
+        requests,
+        close: () =>
+          new Promise(done => {
+            pending.forEach(timer => clearTimeout(timer));
+            server.closeAllConnections();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+function send(res, response) {
+  if (res.destroyed) return; // Client gave up (timeout test)
+  res.writeHead(response.status, {
+    'content-type': 'application/json',
+    ...response.headers,
+  });
+  res.end(response.body === undefined ? '' : JSON.stringify(response.body));
+}
+
+function safeParse(raw) {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+// Run from the command line
+if (process.argv[1]?.endsWith('mistral-mock-server.mjs')) {
+  const args = process.argv.slice(2);
+  const option = name => {
+    const index = args.indexOf(`--${name}`);
+    return index === -1 ? undefined : args[index + 1];
+  };
+
+  startMistralMockServer({
+    port: Number(option('port') ?? 4010),
+    fixture: option('fixture'),
+  }).then(mock => {
+    console.log(`🧪 Mistral OCR mock listening at ${mock.url}`);
+    console.log(`   Fixture: ${option('fixture') ?? 'invoice'}`);
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * Requeue Dead Letter API (admin only)
+ *
+ * POST /api/admin/dead-letters/:id/requeue - Run a dead letter again as a
+ * new job with the same file and options. The dead letter is kept and
+ * points at the new job.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/adminAuth';
+import { DeadLetterError } from '@/lib/jobDeadLetters';
+import { JobIntakeClosedError } from '@/lib/jobErrors';
+import { getJobManager } from '@/lib/jobs';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { id: jobId } = await params;
+    const jobManager = await getJobManager();
+    const newJobId = await jobManager.requeueDeadLetter(jobId);
+
+    return NextResponse.json(
+      { success: true, jobId, newJobId, statusUrl: `/api/jobs/${newJobId}` },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof DeadLetterError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.code === 'NOT_FOUND' ? 404 : 409 }
+      );
+    }
+    if (error instanceof JobIntakeClosedError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 503 }
+      );
+    }
+
+    console.error('❌ Error requeueing dead letter:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
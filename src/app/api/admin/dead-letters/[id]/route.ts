@@ -0,0 +1,45 @@
+/**
+ * Dead Letter Details API (admin only)
+ *
+ * GET /api/admin/dead-letters/:id - Everything kept about a job that failed
+ * for good: input file, options, every attempt and the status history
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/adminAuth';
+import { getJobManager } from '@/lib/jobs';
+import { buildJobTimeline } from '@/lib/jobStateMachine';
+import { serializeJob } from '@/lib/jobStore';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { id: jobId } = await params;
+    const jobManager = await getJobManager();
+    const deadLetter = await jobManager.getDeadLetter(jobId);
+
+    if (!deadLetter) {
+      return NextResponse.json(
+        { success: false, error: `Dead letter '${jobId}' not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      deadLetter: serializeJob(deadLetter),
+      timeline: buildJobTimeline(deadLetter.transitions ?? []),
+    });
+  } catch (error) {
+    console.error('❌ Error fetching dead letter:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Bulk Requeue Dead Letters API (admin only)
+ *
+ * POST /api/admin/dead-letters/requeue - Requeue several dead letters
+ *
+ * Body: { "jobIds": ["job_...", ...] } for specific ones, or
+ *       { "all": true } for every dead letter that hasn't been requeued yet
+ *
+ * Dead letters that can't be requeued are reported under `skipped` and
+ * don't stop the rest.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import { getJobManager } from '@/lib/jobs';
+
+const requeueBodySchema = z.union([
+  z.object({ jobIds: z.array(z.string().min(1)).min(1).max(500) }),
+  z.object({ all: z.literal(true) }),
+]);
+
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    // Step 1: Check the body
+    const body = await request.json().catch(() => undefined);
+    const parsed = requeueBodySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Send either { "jobIds": [...] } or { "all": true }',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Step 2: Requeue them
+    const jobManager = await getJobManager();
+    const summary = await jobManager.requeueDeadLetters(
+      'jobIds' in parsed.data ? parsed.data.jobIds : undefined
+    );
+    console.log(
+      `🔁 Bulk requeue: ${summary.requeued.length} requeued, ${summary.skipped.length} skipped`
+    );
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('❌ Error requeueing dead letters:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
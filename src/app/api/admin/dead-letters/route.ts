@@ -0,0 +1,94 @@
+/**
+ * Dead Letters API (admin only)
+ *
+ * GET /api/admin/dead-letters - Jobs that failed for good, most recent first
+ *
+ * Query parameters (all optional):
+ * - errorCode: only jobs whose last attempt failed with this code
+ * - includeRequeued: "true" to also list dead letters already requeued
+ * - limit: page size, 1-100 (default 20)
+ * - cursor: nextCursor from the previous page
+ *
+ * Requires the x-api-key header (see src/lib/adminAuth.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/adminAuth';
+import { DeadLetterError, lastErrorCode } from '@/lib/jobDeadLetters';
+import type { Job } from '@/lib/jobManager';
+import { getJobManager } from '@/lib/jobs';
+
+const listQuerySchema = z.object({
+  errorCode: z.string().min(1).optional(),
+  includeRequeued: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: z.string().min(1).optional(),
+});
+
+// What the list shows for each dead letter - details are at /:id
+function toSummary(job: Job) {
+  return {
+    id: job.id,
+    fileName: job.fileName ?? null,
+    filePath: job.filePath,
+    owner: job.owner ?? null,
+    error: job.error ?? null,
+    errorCode: lastErrorCode(job) ?? null,
+    attempts: job.attempts,
+    createdAt: job.createdAt.toISOString(),
+    deadLetteredAt: job.deadLetteredAt?.toISOString() ?? null,
+    requeuedAs: job.requeuedAs ?? null,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    // Step 1: Check the filters
+    const parsed = listQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          details: parsed.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Step 2: Fetch one page
+    const jobManager = await getJobManager();
+    const page = await jobManager.listDeadLetters(parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      deadLetters: page.deadLetters.map(toSummary),
+      nextCursor: page.nextCursor,
+    });
+  } catch (error) {
+    if (error instanceof DeadLetterError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('❌ Error listing dead letters:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,13 @@
  */
 
 import { GET } from '../route';
+import { JobManager } from '@/lib/jobManager';
+import { ShutdownCoordinator } from '@/lib/jobShutdown';
+
+// The coordinator keeps its state on globalThis - forget it after a test
+const resetShutdownState = () => {
+  delete (globalThis as { shutdownState?: string }).shutdownState;
+};
 
 // Mock the global Response object for Jest testing environment
 const mockResponse = (data: unknown, status = 200) => ({
@@ -58,4 +65,14 @@ describe('/api/health', () => {
     // Check if it's a valid ISO timestamp
     expect(new Date(data.timestamp).toISOString()).toBe(data.timestamp);
   });
+
+  it('should report draining while the server shuts down', async () => {
+    await new ShutdownCoordinator({ jobManager: new JobManager() }).shutdown();
+
+    const response = await GET();
+    const data = await response.json();
+    resetShutdownState();
+
+    expect(data.status).toBe('draining');
+  });
 });
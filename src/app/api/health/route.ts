@@ -1,12 +1,21 @@
 // Health Check API Route
 // This is like a "ping" endpoint that confirms our app is working
+// While the server is shutting down it answers "draining" with a 503,
+// so load balancers stop sending it new work
+
+import { getShutdownState } from '@/lib/jobShutdown';
 
 export async function GET() {
   try {
+    const shutdownState = getShutdownState();
+    const draining = shutdownState !== 'running';
+
     // Basic health check with safe environment information
     const healthStatus = {
-      status: 'ok',
-      message: 'AnyChange AI is healthy',
+      status: draining ? 'draining' : 'ok',
+      message: draining
+        ? 'AnyChange AI is shutting down'
+        : 'AnyChange AI is healthy',
       timestamp: new Date().toISOString(),
       environment: process.env.NODE_ENV || 'unknown',
       version: '0.1.0',
@@ -28,10 +37,13 @@ export async function GET() {
       },
     };
 
-    return Response.json({
-      ...healthStatus,
-      system: systemInfo,
-    });
+    return Response.json(
+      {
+        ...healthStatus,
+        system: systemInfo,
+      },
+      { status: draining ? 503 : 200 }
+    );
   } catch (error) {
     // If something goes wrong, return an error with details
     const errorMessage =
@@ -11,6 +11,10 @@ export async function GET() {
       health: '/api/health',
       info: '/api/info',
       version: '/api/version',
+      jobs: '/api/jobs',
+      job: '/api/jobs/:id',
+      jobEvents: '/api/jobs/:id/events',
+      jobResult: '/api/jobs/:id/result',
     },
     documentation: {
       swagger: '/api/docs',
@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+
+// Tests for the job events stream, with an in-memory job manager
+
+import type { NextRequest } from 'next/server';
+import { JobManager } from '@/lib/jobManager';
+import { GET } from '../route';
+
+const jobManager = new JobManager();
+
+jest.mock('../../../../../../lib/jobs', () => ({
+  getJobManager: async () => jobManager,
+}));
+jest.mock('../../../../../../lib/requestOwner', () => ({
+  isJobOwner: async () => true,
+}));
+
+const openStream = async (jobId: string, signal: AbortSignal) => {
+  const response = await GET({ signal } as unknown as NextRequest, {
+    params: Promise.resolve({ id: jobId }),
+  });
+  return response.body!.getReader();
+};
+
+describe('/api/jobs/:id/events', () => {
+  afterAll(async () => {
+    await jobManager.shutdown();
+  });
+
+  it('should start with a snapshot of the job', async () => {
+    const jobId = jobManager.createJob('uploads/1-a.png');
+    const reader = await openStream(jobId, new AbortController().signal);
+
+    const { value } = await reader.read();
+
+    expect(new TextDecoder().decode(value)).toMatch(/^event: snapshot\n/);
+    await reader.cancel();
+  });
+
+  it('should stop cleanly when the browser cancels the stream and then aborts', async () => {
+    const jobId = jobManager.createJob('uploads/2-b.png');
+    const controller = new AbortController();
+    const uncaught = jest.fn();
+    process.on('uncaughtException', uncaught);
+    const reader = await openStream(jobId, controller.signal);
+    await reader.read();
+
+    // The order a disconnect arrives in: the stream first, then the request
+    await reader.cancel();
+    controller.abort();
+    jobManager.updateJobStatus(jobId, 'processing', 10);
+    await new Promise(resolve => setImmediate(resolve));
+
+    process.off('uncaughtException', uncaught);
+    expect(uncaught).not.toHaveBeenCalled();
+  });
+});
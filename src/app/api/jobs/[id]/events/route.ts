@@ -0,0 +1,167 @@
+/**
+ * Job Events API (Server-Sent Events)
+ *
+ * Streams lifecycle events for one job to the browser as they happen
+ * GET /api/jobs/:id/events - Open an SSE stream for a job
+ *
+ * The first message is always a `snapshot` with the job's current state, so a
+ * client that connects late still knows where things stand. The stream closes
+ * itself once the job finishes or is cleaned up.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobManager } from '@/lib/jobs';
+import type { JobEvent } from '@/lib/jobEvents';
+import type { Job, JobManager } from '@/lib/jobManager';
+import { isTerminalStatus } from '@/lib/jobManager';
+import { jobIdSchema } from '@/lib/jobQuery';
+import { serializePublicJob } from '@/lib/jobStore';
+import { isJobOwner } from '@/lib/requestOwner';
+
+// SSE needs a long-lived Node.js response, never a cached one
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL_MS = 15 * 1000; // Keeps proxies from closing idle streams
+
+// Format one SSE message: an event name plus a JSON payload
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Convert a job event into a JSON-safe payload for the browser
+function toPayload(event: JobEvent): Record<string, unknown> {
+  const payload: Record<string, unknown> = {
+    ...event,
+    timestamp: event.timestamp.toISOString(),
+  };
+  if ('job' in event) {
+    payload.job = serializePublicJob(event.job);
+  }
+  return payload;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: jobId } = await params;
+  if (!jobIdSchema.safeParse(jobId).success) {
+    return NextResponse.json(
+      { success: false, error: `'${jobId}' is not a valid job ID` },
+      { status: 400 }
+    );
+  }
+
+  let jobManager: JobManager;
+  let job: Job | undefined;
+  try {
+    jobManager = await getJobManager();
+    job = await jobManager.findJob(jobId);
+    // Somebody else's job looks exactly like a missing one
+    if (job && !(await isJobOwner(request, job))) {
+      job = undefined;
+    }
+  } catch (error) {
+    console.error('❌ Error opening job event stream:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: `Job '${jobId}' not found` },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  // Set once the stream is closed by us or cancelled by the browser
+  let closed = false;
+  let cleanup: () => void = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // The browser can go away at any moment, so writing to a stream it
+      // already cancelled is expected and not an error
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          closed = true;
+          cleanup();
+        }
+      };
+
+      const send = (event: string, data: unknown) => {
+        write(formatEvent(event, data));
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancel
+        }
+      };
+
+      // Step 1: Send the current state right away
+      send('snapshot', { jobId, job: serializePublicJob(job) });
+
+      // Step 2: Forward every future event for this job
+      const unsubscribe = jobManager.subscribe(
+        event => {
+          send(event.type, toPayload(event));
+
+          const finished =
+            event.type === 'cleaned_up' ||
+            (event.type === 'status_changed' &&
+              isTerminalStatus(event.job.status));
+          if (finished) {
+            close();
+          }
+        },
+        { jobId }
+      );
+
+      // Step 3: Send a comment line now and then so the connection stays open
+      const heartbeat = setInterval(
+        () => write(': heartbeat\n\n'),
+        HEARTBEAT_INTERVAL_MS
+      );
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+        request.signal.removeEventListener('abort', close);
+      };
+
+      // Step 4: Stop listening when the browser goes away
+      request.signal.addEventListener('abort', close);
+
+      // A job that already finished has nothing more to say
+      if (isTerminalStatus(job.status)) {
+        close();
+      }
+    },
+    cancel() {
+      closed = true;
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx, Render)
+    },
+  });
+}
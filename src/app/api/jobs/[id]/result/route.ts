@@ -0,0 +1,80 @@
+/**
+ * Job Result API
+ *
+ * GET /api/jobs/:id/result - The OCR result of a job as JSON
+ *
+ * Small results come straight from the job. Large results were offloaded to
+ * the storage bucket, so they are streamed through from there without ever
+ * being loaded into memory. For a document split into pages, this returns
+ * every page finished so far.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobManager } from '@/lib/jobs';
+import { jobIdSchema } from '@/lib/jobQuery';
+import { isJobOwner } from '@/lib/requestOwner';
+import { streamStorageFile } from '@/lib/supabase';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+    if (!jobIdSchema.safeParse(jobId).success) {
+      return NextResponse.json(
+        { success: false, error: `'${jobId}' is not a valid job ID` },
+        { status: 400 }
+      );
+    }
+    const jobManager = await getJobManager();
+    const job = await jobManager.findJob(jobId);
+
+    // Somebody else's job looks exactly like a missing one
+    if (!job || !(await isJobOwner(request, job))) {
+      return NextResponse.json(
+        { success: false, error: `Job '${jobId}' not found` },
+        { status: 404 }
+      );
+    }
+
+    // Offloaded result: pass the stored JSON file through as-is
+    if (job.resultRef) {
+      const stream = await streamStorageFile(job.resultRef.path, {
+        signal: request.signal,
+      });
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Length': String(job.resultRef.sizeBytes),
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    const result = await jobManager.getResult(jobId);
+    if (!result) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Job '${jobId}' has no result yet`,
+          status: job.status,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('❌ Error fetching job result:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
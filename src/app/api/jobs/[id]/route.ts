@@ -0,0 +1,122 @@
+/**
+ * Job API
+ *
+ * GET /api/jobs/:id - Job details, a progress message and a timeline of every status change
+ *                     (plus its page jobs, for a document split into pages)
+ *                     and its OCR result, or a link to it when the result is large
+ * DELETE /api/jobs/:id - Cancel a queued or running job
+ *
+ * Cancelling aborts any OCR or download work in progress for the job.
+ * The job stays visible with status 'cancelled' until normal cleanup removes it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobManager } from '@/lib/jobs';
+import { isTerminalStatus } from '@/lib/jobManager';
+import { jobIdSchema } from '@/lib/jobQuery';
+import { describeJobProgress } from '@/lib/jobStages';
+import { buildJobTimeline } from '@/lib/jobStateMachine';
+import { serializePublicJob } from '@/lib/jobStore';
+import { isJobOwner } from '@/lib/requestOwner';
+
+function invalidJobId(jobId: string) {
+  return NextResponse.json(
+    { success: false, error: `'${jobId}' is not a valid job ID` },
+    { status: 400 }
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+    if (!jobIdSchema.safeParse(jobId).success) {
+      return invalidJobId(jobId);
+    }
+    const jobManager = await getJobManager();
+    const job = await jobManager.findJob(jobId);
+
+    // Somebody else's job looks exactly like a missing one
+    if (!job || !(await isJobOwner(request, job))) {
+      return NextResponse.json(
+        { success: false, error: `Job '${jobId}' not found` },
+        { status: 404 }
+      );
+    }
+
+    // Large results live in storage - send a link instead of loading them
+    const payload = serializePublicJob(job);
+    delete payload.result;
+    const result = job.resultRef
+      ? undefined
+      : await jobManager.getResult(jobId);
+
+    return NextResponse.json({
+      success: true,
+      job: payload,
+      // Human-friendly status line, e.g. "Recognizing page 4 of 12"
+      message: describeJobProgress(job),
+      // How long the job spent in each status - useful for slow jobs
+      timeline: buildJobTimeline(job.transitions ?? []),
+      // Pages that already finished are usable before the whole document is
+      pages: jobManager.getPageJobs(jobId).map(serializePublicJob),
+      result: result ?? null,
+      resultUrl: job.resultRef ? `/api/jobs/${jobId}/result` : null,
+    });
+  } catch (error) {
+    console.error('❌ Error fetching job:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+    if (!jobIdSchema.safeParse(jobId).success) {
+      return invalidJobId(jobId);
+    }
+    const jobManager = await getJobManager();
+    const job = await jobManager.findJob(jobId);
+
+    if (!job || !(await isJobOwner(request, job))) {
+      return NextResponse.json(
+        { success: false, error: `Job '${jobId}' not found` },
+        { status: 404 }
+      );
+    }
+
+    // A finished job has nothing left to cancel
+    if (isTerminalStatus(job.status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Job '${jobId}' is already ${job.status}`,
+          status: job.status,
+        },
+        { status: 409 }
+      );
+    }
+
+    jobManager.cancelJob(jobId);
+    console.log(`🛑 Cancelled job: ${jobId}`);
+
+    return NextResponse.json({
+      success: true,
+      job: serializePublicJob(jobManager.getJob(jobId)!),
+    });
+  } catch (error) {
+    console.error('❌ Error cancelling job:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
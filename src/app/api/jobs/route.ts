@@ -0,0 +1,116 @@
+/**
+ * Jobs List API
+ *
+ * GET /api/jobs - The caller's own jobs, newest first, a page at a time
+ *
+ * Query parameters (all optional):
+ * - status: comma-separated statuses, e.g. "queued,processing"
+ * - createdAfter / createdBefore: ISO dates
+ * - tag: only jobs with this tag
+ * - sortBy: createdAt | completedAt | progress (default createdAt)
+ * - order: asc | desc (default desc)
+ * - limit: page size, 1-100 (default 20)
+ * - cursor: nextCursor from the previous page
+ *
+ * The owner is never a parameter - it always comes from the caller's
+ * session, so nobody can list anybody else's jobs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getJobManager } from '@/lib/jobs';
+import type { Job } from '@/lib/jobManager';
+import { JobQueryError, MAX_JOB_PAGE_SIZE } from '@/lib/jobQuery';
+import { describeJobProgress } from '@/lib/jobStages';
+import { getRequestOwner } from '@/lib/requestOwner';
+
+const JOB_STATUSES = [
+  'queued',
+  'processing',
+  'done',
+  'failed',
+  'cancelled',
+] as const;
+
+const listQuerySchema = z.object({
+  status: z
+    .string()
+    .transform(value => value.split(',').filter(Boolean))
+    .pipe(z.array(z.enum(JOB_STATUSES)))
+    .optional(),
+  createdAfter: z.coerce.date().optional(),
+  createdBefore: z.coerce.date().optional(),
+  tag: z.string().min(1).optional(),
+  sortBy: z.enum(['createdAt', 'completedAt', 'progress']).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_JOB_PAGE_SIZE).optional(),
+  cursor: z.string().min(1).optional(),
+});
+
+// What the list shows for each job - the full job is at /api/jobs/:id
+function toSummary(job: Job) {
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    message: describeJobProgress(job),
+    fileName: job.fileName ?? null,
+    mimeType: job.mimeType ?? null,
+    pageCount: job.pageCount ?? null,
+    tags: job.tags ?? [],
+    error: job.error ?? null,
+    createdAt: job.createdAt.toISOString(),
+    completedAt: job.completedAt?.toISOString() ?? null,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Step 1: Check the filters
+    const parsed = listQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid query parameters',
+          details: parsed.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Step 2: Work out who is asking - a caller without a session has no jobs
+    const owner = await getRequestOwner(request);
+    if (!owner) {
+      return NextResponse.json({ success: true, jobs: [], nextCursor: null });
+    }
+
+    // Step 3: Fetch one page of their jobs
+    const jobManager = await getJobManager();
+    const page = jobManager.listJobs({ ...parsed.data, owner });
+
+    return NextResponse.json({
+      success: true,
+      jobs: page.jobs.map(toSummary),
+      nextCursor: page.nextCursor,
+    });
+  } catch (error) {
+    if (error instanceof JobQueryError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('❌ Error listing jobs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
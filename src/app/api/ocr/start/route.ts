@@ -0,0 +1,228 @@
+/**
+ * OCR Start API
+ *
+ * POST /api/ocr/start - Start reading a file that was uploaded through
+ * /api/storage/presign. Responds 202 with the job ID; follow it at
+ * /api/jobs/:id (or /api/jobs/:id/events for live updates).
+ *
+ * Body:
+ * - path: the `path` returned by /api/storage/presign (required)
+ * - fileName: original file name, for the job list
+ * - provider: 'tesseract' | 'mistral' - OCR provider to try first
+ *   (OCR_PROVIDER by default; OCR_FALLBACK_PROVIDERS are tried after it)
+ * - languages: ISO 639-3 codes, e.g. ["eng", "spa"] - detected per page
+ *   when left out
+ * - boundingBoxes / tables: ask for word boxes or table structure
+ * - priority: 'high' | 'normal' | 'low' (default normal)
+ * - idempotencyKey: repeat requests with the same key get the same job
+ *   (the Idempotency-Key header works too)
+ * - tags: free-form labels for filtering the job list
+ *
+ * The uploaded file is hashed, so starting the same file again with the
+ * same options hands back the earlier job (or its result) instead of
+ * reading it twice.
+ *
+ * The job belongs to the caller (signed-in user or guest session). Guests
+ * normally get their session from /api/storage/presign; one calling here
+ * without a session gets one, but repeat requests sent before that cookie
+ * arrives can't be matched to each other.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { serverEnv } from '@/lib/env';
+import { computeStreamContentHash } from '@/lib/jobDedup';
+import { JobIntakeClosedError } from '@/lib/jobErrors';
+import { getJobManager, startJobRunner } from '@/lib/jobs';
+import { ocrJobHandler } from '@/lib/ocr/jobHandler';
+import { getOcrRegistry } from '@/lib/ocr/providers';
+import {
+  createGuestOwner,
+  getRequestOwner,
+  setGuestSessionCookie,
+} from '@/lib/requestOwner';
+import { getStorageFileInfo, streamStorageFile } from '@/lib/supabase';
+
+const startBodySchema = z.object({
+  // Only paths presign hands out: uploads/<timestamp>-<random>.<ext>
+  path: z
+    .string()
+    .regex(
+      /^uploads\/[\w-]+\.[A-Za-z0-9]+$/,
+      'Must be a path returned by /api/storage/presign'
+    ),
+  fileName: z.string().min(1).max(255).optional(),
+  provider: z.enum(['tesseract', 'mistral']).optional(),
+  languages: z
+    .array(z.string().regex(/^[a-z]{3}$/, 'Must be an ISO 639-3 code'))
+    .min(1)
+    .max(10)
+    .optional(),
+  boundingBoxes: z.boolean().optional(),
+  tables: z.boolean().optional(),
+  priority: z.enum(['high', 'normal', 'low']).optional(),
+  idempotencyKey: z.string().min(1).max(200).optional(),
+  tags: z.array(z.string().min(1).max(50)).max(20).optional(),
+});
+
+// What providers are told the file is, by extension
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    // Step 1: Check the request body
+    const json = await request.json().catch(() => undefined);
+    const parsed = startBodySchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request body',
+          details: parsed.error.issues.map(issue => ({
+            field: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+    const body = parsed.data;
+
+    const extension = body.path.split('.').pop()!.toLowerCase();
+    const mimeType = MIME_TYPES[extension];
+    if (!mimeType || !serverEnv.files.allowedTypes.includes(extension)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `File type '${extension}' not allowed`,
+          allowedTypes: serverEnv.files.allowedTypes,
+        },
+        { status: 400 }
+      );
+    }
+    if (body.provider && !getOcrRegistry().get(body.provider)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `OCR provider '${body.provider}' is not available`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const providers = getOcrRegistry().list();
+    const unsupportedLanguages = (body.languages ?? []).filter(
+      language =>
+        !providers.some(provider =>
+          provider.capabilities.languages.includes(language)
+        )
+    );
+    if (unsupportedLanguages.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `No OCR provider reads ${unsupportedLanguages.join(', ')}`,
+          supportedLanguages: Array.from(
+            new Set(
+              providers.flatMap(provider => provider.capabilities.languages)
+            )
+          ).sort(),
+        },
+        { status: 400 }
+      );
+    }
+
+    // Step 2: Make sure the upload actually finished
+    const file = await getStorageFileInfo(body.path);
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: `No uploaded file at '${body.path}'` },
+        { status: 404 }
+      );
+    }
+    if (file.size !== undefined && file.size > serverEnv.files.maxSize) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `File size ${(file.size / 1024 / 1024).toFixed(1)}MB exceeds limit of ${(serverEnv.files.maxSize / 1024 / 1024).toFixed(1)}MB`,
+        },
+        { status: 413 }
+      );
+    }
+
+    // Step 3: Hash the upload, so the same file read twice is only OCR'd
+    // once. Without a hash the job still runs, it just can't be matched.
+    let contentHash: string | undefined;
+    try {
+      contentHash = await computeStreamContentHash(
+        await streamStorageFile(body.path, { signal: request.signal })
+      );
+    } catch (error) {
+      if (request.signal.aborted) throw error;
+      console.warn(`⚠️ Could not hash '${body.path}':`, error);
+    }
+
+    // Step 4: Work out who owns the job - first-time guests get a session
+    const existingOwner = await getRequestOwner(request);
+    const owner = existingOwner ?? createGuestOwner();
+
+    // Step 5: Queue the job and make sure something is working the queue
+    await startJobRunner(ocrJobHandler);
+    const jobManager = await getJobManager();
+    const jobId = jobManager.createJob(body.path, {
+      priority: body.priority,
+      idempotencyKey:
+        body.idempotencyKey ??
+        request.headers.get('idempotency-key') ??
+        undefined,
+      contentHash,
+      owner,
+      fileName: body.fileName,
+      mimeType,
+      tags: body.tags,
+      ocr: {
+        provider: body.provider,
+        languages: body.languages,
+        boundingBoxes: body.boundingBoxes,
+        tables: body.tables,
+      },
+    });
+    const job = jobManager.getJob(jobId)!;
+    console.log(`📄 Started OCR job ${jobId} for ${body.path}`);
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        jobId,
+        status: job.status,
+        statusUrl: `/api/jobs/${jobId}`,
+        eventsUrl: `/api/jobs/${jobId}/events`,
+      },
+      { status: 202 }
+    );
+    if (!existingOwner) {
+      setGuestSessionCookie(response, owner);
+    }
+    return response;
+  } catch (error) {
+    if (error instanceof JobIntakeClosedError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 503 }
+      );
+    }
+
+    console.error('❌ Error starting OCR job:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,12 +2,43 @@
 // Provides detailed API status and configuration
 
 import { serverEnv } from '@/lib/env';
+import { getJobManager } from '@/lib/jobs';
+import { getOcrRegistry } from '@/lib/ocr/providers';
 
 export async function GET() {
   try {
     // Safely access environment configuration
     const env = serverEnv;
 
+    // A job store that can't be reached (e.g. Postgres is down) is reported
+    // like any other broken service instead of failing the whole status
+    let jobs: Record<string, unknown>;
+    try {
+      const jobManager = await getJobManager();
+      jobs = {
+        available: true,
+        store: env.jobs.store,
+        counts: jobManager.getJobCounts(),
+        // Rolling queue wait, processing time, pages/second and success
+        // rates (p50/p95), overall and per provider and file type
+        metrics: jobManager.getMetrics(),
+        // Counts and metrics are kept in memory by each server instance
+        scope: 'instance',
+      };
+    } catch (error) {
+      jobs = {
+        available: false,
+        store: env.jobs.store,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
+    // Live health of every registered OCR provider
+    const ocrProviders = await getOcrRegistry().status();
+    const configuredOcr = ocrProviders.find(
+      provider => provider.name === env.ocr.provider
+    );
+
     const statusInfo = {
       api: {
         status: 'operational',
@@ -18,7 +49,15 @@ export async function GET() {
       services: {
         ocr: {
           provider: env.ocr.provider,
-          status: env.ocr.provider === 'tesseract' ? 'ready' : 'configured',
+          status: configuredOcr
+            ? configuredOcr.healthy
+              ? 'ready'
+              : 'unhealthy'
+            : 'not-registered',
+          available: ocrProviders
+            .filter(provider => provider.healthy)
+            .map(provider => provider.name),
+          providers: ocrProviders,
         },
         database: {
           status: env.database.url ? 'configured' : 'not-configured',
@@ -31,6 +70,7 @@ export async function GET() {
           },
         },
       },
+      jobs,
       limits: {
         maxFileSize: `${(env.files.maxSize / 1024 / 1024).toFixed(1)}MB`,
         maxPages: env.files.maxPages,
@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+
+// Tests for the presign endpoint, with a fake Supabase storage bucket
+
+import { NextRequest } from 'next/server';
+import { GUEST_SESSION_COOKIE } from '@/lib/requestOwner';
+import { POST } from '../route';
+
+jest.mock('../../../../../lib/supabase', () => ({
+  getStorageBucket: () => 'documents',
+  generateFilePath: (fileName: string) => `uploads/1-${fileName}`,
+  getSupabaseAdmin: () => ({
+    storage: {
+      from: () => ({
+        createSignedUploadUrl: async (path: string) => ({
+          data: { signedUrl: `https://storage.test/${path}`, token: 't', path },
+          error: null,
+        }),
+      }),
+    },
+  }),
+}));
+
+const presign = (cookie?: string) =>
+  POST(
+    new NextRequest('http://localhost/api/storage/presign', {
+      method: 'POST',
+      headers: cookie ? { cookie } : {},
+      body: JSON.stringify({
+        fileName: 'scan.png',
+        fileType: 'image/png',
+        fileSize: 1024,
+      }),
+    })
+  );
+
+describe('/api/storage/presign', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should start a guest session before the upload', async () => {
+    const response = await presign();
+
+    expect(response.status).toBe(200);
+    expect(response.cookies.get(GUEST_SESSION_COOKIE)?.value).toMatch(
+      /^[0-9a-f-]{36}$/
+    );
+  });
+
+  it('should keep an existing guest session', async () => {
+    const response = await presign(
+      `${GUEST_SESSION_COOKIE}=0b7c6f1e-2d4a-4c1b-9f3e-5a6b7c8d9e0f`
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.cookies.get(GUEST_SESSION_COOKIE)).toBeUndefined();
+  });
+});
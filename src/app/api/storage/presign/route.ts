@@ -3,6 +3,10 @@
  *
  * This endpoint generates presigned URLs for direct file uploads to Supabase Storage
  * POST /api/storage/presign - Generate a secure upload URL
+ *
+ * A first-time guest gets their session cookie here, before the upload, so
+ * every /api/ocr/start call that follows (a double-click included) runs as
+ * the same owner and idempotency keys can match.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -12,6 +16,11 @@ import {
   generateFilePath,
 } from '@/lib/supabase';
 import { serverEnv } from '@/lib/env';
+import {
+  createGuestOwner,
+  getRequestOwner,
+  setGuestSessionCookie,
+} from '@/lib/requestOwner';
 
 export async function POST(request: NextRequest) {
   try {
@@ -97,7 +106,7 @@ export async function POST(request: NextRequest) {
       console.log('✅ Presigned URL generated successfully');
 
       // Return the presigned URL along with necessary information
-      return NextResponse.json({
+      const response = NextResponse.json({
         success: true,
         data: {
           url: data.signedUrl,
@@ -110,6 +119,12 @@ export async function POST(request: NextRequest) {
           },
         },
       });
+
+      // First-time guests get their session now, ahead of /api/ocr/start
+      if (!(await getRequestOwner(request))) {
+        setGuestSessionCookie(response, createGuestOwner());
+      }
+      return response;
     } catch (storageError) {
       console.error('Unexpected error generating presigned URL:', storageError);
       return NextResponse.json(
@@ -1,8 +1,10 @@
 'use client';
 
+import { useState } from 'react';
 import { EnvironmentStatus } from '@/components/EnvironmentStatus';
 import { HealthStatus } from '@/components/HealthStatus';
 import { FileUpload } from '@/components/FileUpload';
+import { JobStatus } from '@/components/JobStatus';
 import { useFileUpload } from '@/hooks/useFileUpload';
 
 export default function Home() {
@@ -14,11 +16,12 @@ export default function Home() {
     uploadedFiles,
     clearError,
   } = useFileUpload();
+  const [language, setLanguage] = useState(''); // '' = detect per page
 
   const handleFileSelect = (files: File[]) => {
     console.log('Files selected:', files);
     // Start the upload process
-    uploadFiles(files);
+    uploadFiles(files, { languages: language ? [language] : undefined });
   };
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50 dark:from-gray-900 dark:to-gray-800">
@@ -122,6 +125,20 @@ export default function Home() {
         </div>
 
         {/* Upload Area */}
+        <div className="max-w-2xl mx-auto mb-4 flex items-center justify-end gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <label htmlFor="ocr-language">Document language</label>
+          <select
+            id="ocr-language"
+            value={language}
+            onChange={event => setLanguage(event.target.value)}
+            className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1"
+          >
+            <option value="">Detect automatically</option>
+            <option value="eng">English</option>
+            <option value="spa">Spanish</option>
+            <option value="fra">French</option>
+          </select>
+        </div>
         <FileUpload onFileSelect={handleFileSelect} />
 
         {/* Upload Progress & Status */}
@@ -174,25 +191,29 @@ export default function Home() {
               {uploadedFiles.map((file, index) => (
                 <div
                   key={index}
-                  className="flex items-center justify-between p-3 bg-green-100 dark:bg-green-800/30 rounded-lg"
+                  className="p-3 bg-green-100 dark:bg-green-800/30 rounded-lg"
                 >
-                  <div className="flex items-center space-x-3">
-                    <span className="text-green-600 dark:text-green-400">
-                      📄
-                    </span>
-                    <div>
-                      <p className="text-green-800 dark:text-green-200 font-medium">
-                        {file.originalName}
-                      </p>
-                      <p className="text-green-600 dark:text-green-400 text-sm">
-                        {(file.size / (1024 * 1024)).toFixed(2)} MB • Uploaded{' '}
-                        {new Date(file.uploadedAt).toLocaleTimeString()}
-                      </p>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <span className="text-green-600 dark:text-green-400">
+                        📄
+                      </span>
+                      <div>
+                        <p className="text-green-800 dark:text-green-200 font-medium">
+                          {file.originalName}
+                        </p>
+                        <p className="text-green-600 dark:text-green-400 text-sm">
+                          {(file.size / (1024 * 1024)).toFixed(2)} MB • Uploaded{' '}
+                          {new Date(file.uploadedAt).toLocaleTimeString()}
+                        </p>
+                      </div>
                     </div>
+                    <span className="text-green-600 dark:text-green-400 text-sm font-medium">
+                      {file.jobId ? 'OCR started' : 'Ready for OCR'}
+                    </span>
                   </div>
-                  <span className="text-green-600 dark:text-green-400 text-sm font-medium">
-                    Ready for OCR
-                  </span>
+                  {/* Live OCR status for this file */}
+                  {file.jobId && <JobStatus jobId={file.jobId} />}
                 </div>
               ))}
             </div>
@@ -0,0 +1,91 @@
+/**
+ * Job Status Component
+ *
+ * Follows one OCR job live (see useJobEvents) and shows where it is: a
+ * status line like "Recognizing page 4 of 12", overall progress, each
+ * pipeline stage, and what went wrong if it failed.
+ */
+
+'use client';
+
+import { useJobEvents, type JobStageSnapshot } from '@/hooks/useJobEvents';
+import { STAGE_LABELS } from '@/lib/jobStages';
+
+interface JobStatusProps {
+  jobId: string;
+}
+
+const STAGE_ICONS: Record<JobStageSnapshot['status'], string> = {
+  pending: '⏳',
+  running: '🔄',
+  done: '✅',
+  skipped: '⏭️',
+  failed: '❌',
+};
+
+export function JobStatus({ jobId }: JobStatusProps) {
+  const { job, error, message } = useJobEvents(jobId);
+
+  if (!job) {
+    return (
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        {error ?? 'Connecting...'}
+      </p>
+    );
+  }
+
+  const failed = job.status === 'failed' || job.status === 'cancelled';
+  return (
+    <div className="mt-3 space-y-2" aria-live="polite">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-800 dark:text-gray-200">
+          {message}
+        </span>
+        <span className="text-gray-600 dark:text-gray-400">
+          {job.progress}%
+        </span>
+      </div>
+      <div
+        role="progressbar"
+        aria-valuenow={job.progress}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2"
+      >
+        <div
+          className={`h-2 rounded-full transition-all duration-300 ease-out ${failed ? 'bg-red-500' : 'bg-blue-600 dark:bg-blue-400'}`}
+          style={{ width: `${job.progress}%` }}
+        ></div>
+      </div>
+
+      {/* Pipeline stages */}
+      {job.stages && job.stages.length > 0 && (
+        <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+          {job.stages.map(stage => (
+            <li key={stage.name}>
+              {STAGE_ICONS[stage.status]} {STAGE_LABELS[stage.name]}
+              {stage.total ? ` ${stage.current ?? 0}/${stage.total}` : ''}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* What went wrong */}
+      {failed && (
+        <p className="text-sm text-red-700 dark:text-red-300">
+          {job.error ?? job.cancelReason ?? 'The job did not finish'}
+        </p>
+      )}
+      {job.status === 'done' &&
+        job.failedPages &&
+        job.failedPages.length > 0 && (
+          <p className="text-sm text-orange-700 dark:text-orange-300">
+            Could not read page(s) {job.failedPages.join(', ')}
+          </p>
+        )}
+      {error && (
+        <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { act, render, screen } from '@testing-library/react';
+import { JobStatus } from '../JobStatus';
+import type { JobSnapshot } from '../../hooks/useJobEvents';
+
+// jsdom has no EventSource - this one lets tests send server events
+class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+  listeners = new Map<string, ((event: MessageEvent) => void)[]>();
+  close = jest.fn();
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  send(type: string, data?: unknown) {
+    const event = new MessageEvent(type, { data: JSON.stringify(data) });
+    act(() => this.listeners.get(type)?.forEach(listener => listener(event)));
+  }
+}
+
+const snapshot = (overrides: Partial<JobSnapshot> = {}): JobSnapshot => ({
+  id: 'job_1',
+  status: 'processing',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  progress: 40,
+  stages: [
+    { name: 'download', status: 'done', weight: 10, progress: 100 },
+    {
+      name: 'recognize',
+      status: 'running',
+      weight: 55,
+      progress: 33,
+      current: 4,
+      total: 12,
+    },
+  ],
+  ...overrides,
+});
+
+describe('JobStatus Component', () => {
+  beforeEach(() => {
+    FakeEventSource.instances = [];
+    global.EventSource = FakeEventSource as unknown as typeof EventSource;
+  });
+
+  test('follows the job and shows its stage progress', () => {
+    render(<JobStatus jobId="job_1" />);
+    const source = FakeEventSource.instances[0];
+    expect(source.url).toBe('/api/jobs/job_1/events');
+    expect(screen.getByText('Connecting...')).toBeInTheDocument();
+
+    source.send('snapshot', { job: snapshot() });
+
+    expect(screen.getByText('Recognizing page 4 of 12')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar')).toHaveAttribute(
+      'aria-valuenow',
+      '40'
+    );
+    expect(screen.getByText(/Recognizing 4\/12/)).toBeInTheDocument();
+  });
+
+  test('shows why a job failed', () => {
+    render(<JobStatus jobId="job_1" />);
+    const source = FakeEventSource.instances[0];
+
+    source.send('failed', {
+      job: snapshot({ status: 'failed', error: 'Could not decode image' }),
+    });
+
+    expect(screen.getByText('Failed')).toBeInTheDocument();
+    expect(screen.getByText('Could not decode image')).toBeInTheDocument();
+  });
+
+  test('says when the connection to job updates is lost', () => {
+    render(<JobStatus jobId="job_1" />);
+
+    FakeEventSource.instances[0].send('error');
+
+    expect(
+      screen.getByText('Lost connection to job updates')
+    ).toBeInTheDocument();
+  });
+});
@@ -5,7 +5,7 @@
  * error handling, and success callbacks.
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 
 interface UploadState {
   isUploading: boolean;
@@ -21,10 +21,16 @@ interface UploadedFile {
   storagePath: string;
   bucket: string;
   uploadedAt: string;
+  jobId?: string; // OCR job started for this file (/api/jobs/:id)
+}
+
+// How the uploaded files should be read
+interface UploadOcrOptions {
+  languages?: string[]; // ISO 639-3 codes; detected per page when left out
 }
 
 interface UseFileUploadResult extends UploadState {
-  uploadFiles: (files: File[]) => Promise<void>;
+  uploadFiles: (files: File[], options?: UploadOcrOptions) => Promise<void>;
   clearUploads: () => void;
   clearError: () => void;
 }
@@ -37,6 +43,18 @@ export function useFileUpload(): UseFileUploadResult {
     uploadedFiles: [],
   });
 
+  // One idempotency key per selected file, so retrying an upload (or a
+  // double click) gets back the job already started for it
+  const idempotencyKeys = useRef(new WeakMap<File, string>());
+  const idempotencyKeyFor = (file: File): string => {
+    let key = idempotencyKeys.current.get(file);
+    if (!key) {
+      key = crypto.randomUUID();
+      idempotencyKeys.current.set(file, key);
+    }
+    return key;
+  };
+
   // Helper function to upload a single file with progress tracking
   const uploadFileWithProgress = async (
     file: File,
@@ -89,101 +107,130 @@ export function useFileUpload(): UseFileUploadResult {
     });
   };
 
-  const uploadFiles = useCallback(async (files: File[]) => {
-    if (files.length === 0) return;
+  const uploadFiles = useCallback(
+    async (files: File[], options: UploadOcrOptions = {}) => {
+      if (files.length === 0) return;
 
-    setState(prev => ({
-      ...prev,
-      isUploading: true,
-      progress: 0,
-      error: null,
-    }));
+      setState(prev => ({
+        ...prev,
+        isUploading: true,
+        progress: 0,
+        error: null,
+      }));
 
-    try {
-      const uploadedFiles: UploadedFile[] = [];
-      let totalProgress = 0;
-
-      // Upload files sequentially to track progress better
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        console.log(
-          `📤 Starting upload for file ${i + 1}/${files.length}: ${file.name}`
-        );
-
-        // Step 1: Get presigned URL
-        const presignResponse = await fetch('/api/storage/presign', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            fileName: file.name,
-            fileType: file.type,
-            fileSize: file.size,
-          }),
-        });
-
-        const presignResult = await presignResponse.json();
-
-        if (!presignResult.success) {
-          throw new Error(presignResult.error || 'Failed to get upload URL');
-        }
+      try {
+        const uploadedFiles: UploadedFile[] = [];
+        let totalProgress = 0;
+
+        // Upload files sequentially to track progress better
+        for (let i = 0; i < files.length; i++) {
+          const file = files[i];
+          console.log(
+            `📤 Starting upload for file ${i + 1}/${files.length}: ${file.name}`
+          );
+
+          // Step 1: Get presigned URL
+          const presignResponse = await fetch('/api/storage/presign', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              fileName: file.name,
+              fileType: file.type,
+              fileSize: file.size,
+            }),
+          });
+
+          const presignResult = await presignResponse.json();
 
-        console.log(`🔗 Got presigned URL for ${file.name}`);
-
-        // Extract data from the response structure
-        const { url: uploadUrl, path: filePath } = presignResult.data;
-
-        // Step 2: Upload directly to storage with progress tracking
-        const uploadedFile = await uploadFileWithProgress(
-          file,
-          uploadUrl,
-          filePath,
-          (fileProgress: number) => {
-            // Calculate overall progress
-            const fileWeight = 100 / files.length;
-            const currentFileProgress =
-              i * fileWeight + (fileProgress * fileWeight) / 100;
-
-            setState(prev => ({
-              ...prev,
-              progress: Math.round(currentFileProgress),
-            }));
+          if (!presignResult.success) {
+            throw new Error(presignResult.error || 'Failed to get upload URL');
           }
-        );
 
-        uploadedFiles.push(uploadedFile);
-        totalProgress = Math.round(((i + 1) / files.length) * 100);
+          console.log(`🔗 Got presigned URL for ${file.name}`);
+
+          // Extract data from the response structure
+          const { url: uploadUrl, path: filePath } = presignResult.data;
+
+          // Step 2: Upload directly to storage with progress tracking
+          const uploadedFile = await uploadFileWithProgress(
+            file,
+            uploadUrl,
+            filePath,
+            (fileProgress: number) => {
+              // Calculate overall progress
+              const fileWeight = 100 / files.length;
+              const currentFileProgress =
+                i * fileWeight + (fileProgress * fileWeight) / 100;
+
+              setState(prev => ({
+                ...prev,
+                progress: Math.round(currentFileProgress),
+              }));
+            }
+          );
+
+          // Step 3: Start OCR on the uploaded file
+          const startResponse = await fetch('/api/ocr/start', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Idempotency-Key': idempotencyKeyFor(file),
+            },
+            body: JSON.stringify({
+              path: filePath,
+              fileName: file.name,
+              languages: options.languages,
+            }),
+          });
+
+          const startResult = await startResponse.json();
+
+          if (!startResult.success) {
+            throw new Error(
+              `${file.name} was uploaded but OCR could not start: ${startResult.error || 'unknown error'}`
+            );
+          }
+
+          console.log(
+            `📄 Started OCR job ${startResult.jobId} for ${file.name}`
+          );
+          uploadedFile.jobId = startResult.jobId;
+          uploadedFiles.push(uploadedFile);
+          totalProgress = Math.round(((i + 1) / files.length) * 100);
+
+          setState(prev => ({
+            ...prev,
+            progress: totalProgress,
+          }));
+
+          console.log(
+            `✅ File ${i + 1}/${files.length} uploaded successfully: ${file.name}`
+          );
+        }
 
         setState(prev => ({
           ...prev,
-          progress: totalProgress,
+          isUploading: false,
+          progress: 100,
+          uploadedFiles: [...prev.uploadedFiles, ...uploadedFiles],
         }));
 
-        console.log(
-          `✅ File ${i + 1}/${files.length} uploaded successfully: ${file.name}`
-        );
-      }
-
-      setState(prev => ({
-        ...prev,
-        isUploading: false,
-        progress: 100,
-        uploadedFiles: [...prev.uploadedFiles, ...uploadedFiles],
-      }));
-
-      console.log('✅ All files uploaded successfully:', uploadedFiles);
-    } catch (error) {
-      console.error('❌ Upload failed:', error);
+        console.log('✅ All files uploaded successfully:', uploadedFiles);
+      } catch (error) {
+        console.error('❌ Upload failed:', error);
 
-      setState(prev => ({
-        ...prev,
-        isUploading: false,
-        progress: 0,
-        error: error instanceof Error ? error.message : 'Upload failed',
-      }));
-    }
-  }, []);
+        setState(prev => ({
+          ...prev,
+          isUploading: false,
+          progress: 0,
+          error: error instanceof Error ? error.message : 'Upload failed',
+        }));
+      }
+    },
+    []
+  );
 
   const clearUploads = useCallback(() => {
     setState(prev => ({
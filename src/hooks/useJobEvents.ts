@@ -0,0 +1,121 @@
+/**
+ * Custom hook for following an OCR job in real time
+ *
+ * Opens a Server-Sent Events stream to /api/jobs/:id/events and keeps the
+ * latest job state in React state, so the status UI updates the moment the
+ * job changes instead of polling the server.
+ */
+
+import { useEffect, useState } from 'react';
+import { describeJobProgress, type JobStageName } from '@/lib/jobStages';
+
+// One pipeline stage as it arrives over the wire
+export interface JobStageSnapshot {
+  name: JobStageName;
+  status: 'pending' | 'running' | 'done' | 'skipped' | 'failed';
+  weight: number;
+  progress: number;
+  current?: number;
+  total?: number;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+// The job as it arrives over the wire (dates are ISO strings)
+export interface JobSnapshot {
+  id: string;
+  status: 'queued' | 'processing' | 'done' | 'failed' | 'cancelled';
+  createdAt: string;
+  progress: number;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+  cancelReason?: string;
+  stages?: JobStageSnapshot[];
+  parentId?: string;
+  pageNumber?: number;
+  childIds?: string[];
+  failedPages?: number[];
+}
+
+interface JobEventsState {
+  job: JobSnapshot | null;
+  isConnected: boolean;
+  error: string | null;
+}
+
+interface UseJobEventsReturn extends JobEventsState {
+  message: string | null; // e.g. "Recognizing page 4 of 12"
+}
+
+// Server events that carry an updated copy of the job
+const JOB_EVENT_TYPES = [
+  'snapshot',
+  'created',
+  'status_changed',
+  'progress',
+  'stage_changed',
+  'page_finished',
+  'failed',
+];
+
+export function useJobEvents(jobId: string | null): UseJobEventsReturn {
+  const [state, setState] = useState<JobEventsState>({
+    job: null,
+    isConnected: false,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    let lastStatus: JobSnapshot['status'] | null = null;
+
+    const handleJobEvent = (message: MessageEvent<string>) => {
+      const payload = JSON.parse(message.data) as { job?: JobSnapshot };
+      if (payload.job) {
+        lastStatus = payload.job.status;
+        setState(prev => ({ ...prev, job: payload.job!, error: null }));
+      }
+    };
+
+    source.addEventListener('open', () => {
+      setState(prev => ({ ...prev, isConnected: true }));
+    });
+
+    JOB_EVENT_TYPES.forEach(type => {
+      source.addEventListener(type, handleJobEvent as EventListener);
+    });
+
+    source.addEventListener('cleaned_up', () => {
+      source.close();
+      setState(prev => ({ ...prev, isConnected: false }));
+    });
+
+    source.addEventListener('error', () => {
+      // The server closes the stream once the job finishes - that's expected
+      const finished =
+        lastStatus === 'done' ||
+        lastStatus === 'failed' ||
+        lastStatus === 'cancelled';
+      if (finished) {
+        source.close();
+      }
+      setState(prev => ({
+        ...prev,
+        isConnected: false,
+        error: finished ? null : 'Lost connection to job updates',
+      }));
+    });
+
+    return () => {
+      source.close();
+    };
+  }, [jobId]);
+
+  return {
+    ...state,
+    message: state.job ? describeJobProgress(state.job) : null,
+  };
+}
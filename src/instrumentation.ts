@@ -0,0 +1,25 @@
+/**
+ * Server Startup
+ *
+ * Next.js calls register() once when a server instance boots. Restoring
+ * the job store and starting the runner here means jobs left queued by the
+ * last process are picked up straight away, and SIGTERM drains the runner
+ * even if nobody has started a new job yet.
+ */
+
+export async function register() {
+  // The job runner needs Node.js (worker threads, signals, the file store)
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { startJobRunner } = await import('@/lib/jobs');
+  const { ocrJobHandler } = await import('@/lib/ocr/jobHandler');
+  try {
+    await startJobRunner(ocrJobHandler);
+    console.log('✅ Job runner started');
+  } catch (error) {
+    // Not fatal: the first POST /api/ocr/start tries again
+    console.error('❌ Could not start the job runner at boot:', error);
+  }
+}
@@ -0,0 +1,146 @@
+// Unit tests for the dead-letter queue (jobs that failed for good)
+
+import { DeadLetterError, DeadLetterQueue } from '../jobDeadLetters';
+import { JobError } from '../jobErrors';
+import { JobManager } from '../jobManager';
+import { MemoryJobStore } from '../jobStore';
+
+const RETENTION_MS = 60 * 60 * 1000; // 1 hour
+
+describe('dead letters', () => {
+  let deadLetters: DeadLetterQueue;
+  let jobManager: JobManager;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    deadLetters = new DeadLetterQueue(new MemoryJobStore(), {
+      retentionMs: RETENTION_MS,
+    });
+    jobManager = new JobManager({ deadLetters, maxAttempts: 2 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Run a job until it has used up every attempt
+  const failForGood = async (fileName: string, code = 'PROVIDER_ERROR') => {
+    const jobId = jobManager.createJob(`/uploads/${fileName}`, {
+      fileName,
+      priority: 'high',
+      tags: ['batch-7'],
+    });
+    for (let attempt = 0; attempt < 2; attempt++) {
+      jest.advanceTimersByTime(60 * 1000); // Past any retry backoff
+      jobManager.claimNextJob();
+      jobManager.retryOrFailJob(
+        jobId,
+        new JobError(`OCR failed (${attempt + 1})`, { retryable: true, code })
+      );
+    }
+    await jobManager.flush();
+    return jobId;
+  };
+
+  it('should keep a failed job with its options and error history', async () => {
+    const jobId = await failForGood('broken.pdf');
+
+    const letter = await jobManager.getDeadLetter(jobId);
+
+    expect(letter?.status).toBe('failed');
+    expect(letter?.filePath).toBe('/uploads/broken.pdf');
+    expect(letter?.priority).toBe('high');
+    expect(letter?.attemptLog).toHaveLength(2);
+    expect(letter?.error).toContain('Failed after 2 attempts');
+    expect(letter?.deadLetteredAt).toBeInstanceOf(Date);
+  });
+
+  it('should outlive the normal cleanup of the failed job', async () => {
+    const jobId = await failForGood('broken.pdf');
+
+    jest.advanceTimersByTime(10 * 60 * 1000); // Past JobManager retention
+    await jobManager.flush();
+
+    expect(jobManager.getJob(jobId)).toBeUndefined();
+    expect(await jobManager.getDeadLetter(jobId)).toBeDefined();
+
+    jest.advanceTimersByTime(RETENTION_MS);
+    expect(await jobManager.getDeadLetter(jobId)).toBeUndefined();
+  });
+
+  it('should not keep cancelled jobs or failed pages', async () => {
+    const cancelled = jobManager.createJob('/uploads/cancelled.pdf');
+    jobManager.cancelJob(cancelled);
+
+    const documentId = jobManager.createJob('/uploads/doc.pdf');
+    jobManager.claimNextJob();
+    const [pageId] = jobManager.fanOutJob(documentId, 2);
+    jobManager.failJob(pageId, 'page failed');
+    await jobManager.flush();
+
+    const { deadLetters: listed } = await jobManager.listDeadLetters();
+    expect(listed).toHaveLength(0);
+  });
+
+  it('should list dead letters newest first and filter by error code', async () => {
+    await failForGood('first.pdf', 'RATE_LIMITED');
+    await failForGood('second.pdf', 'PROVIDER_ERROR');
+    await failForGood('third.pdf', 'RATE_LIMITED');
+
+    const all = await jobManager.listDeadLetters({ limit: 2 });
+    const next = await jobManager.listDeadLetters({
+      limit: 2,
+      cursor: all.nextCursor!,
+    });
+    const rateLimited = await jobManager.listDeadLetters({
+      errorCode: 'RATE_LIMITED',
+    });
+
+    expect(all.deadLetters.map(job => job.fileName)).toEqual([
+      'third.pdf',
+      'second.pdf',
+    ]);
+    expect(next.deadLetters.map(job => job.fileName)).toEqual(['first.pdf']);
+    expect(next.nextCursor).toBeNull();
+    expect(rateLimited.deadLetters.map(job => job.fileName)).toEqual([
+      'third.pdf',
+      'first.pdf',
+    ]);
+  });
+
+  it('should requeue a dead letter as a fresh job, only once', async () => {
+    const jobId = await failForGood('broken.pdf');
+
+    const newJobId = await jobManager.requeueDeadLetter(jobId);
+    const newJob = jobManager.getJob(newJobId)!;
+
+    expect(newJob.status).toBe('queued');
+    expect(newJob.filePath).toBe('/uploads/broken.pdf');
+    expect(newJob.priority).toBe('high');
+    expect(newJob.tags).toEqual(['batch-7']);
+    expect(newJob.attempts).toBe(0);
+    expect(newJob.requeuedFrom).toBe(jobId);
+    expect((await jobManager.getDeadLetter(jobId))?.requeuedAs).toBe(newJobId);
+    await expect(jobManager.requeueDeadLetter(jobId)).rejects.toThrow(
+      DeadLetterError
+    );
+  });
+
+  it('should requeue in bulk and report what it skipped', async () => {
+    const first = await failForGood('first.pdf');
+    const second = await failForGood('second.pdf');
+
+    const summary = await jobManager.requeueDeadLetters([first, 'job_missing']);
+    const rest = await jobManager.requeueDeadLetters();
+
+    expect(summary.requeued.map(item => item.jobId)).toEqual([first]);
+    expect(summary.skipped).toEqual([
+      { jobId: 'job_missing', error: "Dead letter 'job_missing' not found" },
+    ]);
+    expect(rest.requeued.map(item => item.jobId)).toEqual([second]);
+    expect((await jobManager.listDeadLetters()).deadLetters).toHaveLength(0);
+    expect(
+      (await jobManager.listDeadLetters({ includeRequeued: true })).deadLetters
+    ).toHaveLength(2);
+  });
+});
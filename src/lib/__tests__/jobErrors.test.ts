@@ -0,0 +1,63 @@
+// Unit tests for job error classification and retry backoff
+
+import { JobError, classifyJobError, computeRetryDelay } from '../jobErrors';
+
+describe('classifyJobError', () => {
+  it('should trust the retryable flag on a JobError', () => {
+    const result = classifyJobError(
+      new JobError('Bad PDF', { retryable: false, code: 'INVALID_PDF' })
+    );
+
+    expect(result).toEqual(
+      expect.objectContaining({ retryable: false, code: 'INVALID_PDF' })
+    );
+  });
+
+  it('should treat rate limits and server errors as retryable', () => {
+    expect(classifyJobError({ status: 429, message: 'slow down' })).toEqual(
+      expect.objectContaining({ retryable: true, code: 'RATE_LIMITED' })
+    );
+    expect(classifyJobError({ statusCode: '503' })).toEqual(
+      expect.objectContaining({ retryable: true, code: 'UPSTREAM_ERROR' })
+    );
+  });
+
+  it('should treat other client errors as fatal', () => {
+    expect(classifyJobError({ status: 401 }).retryable).toBe(false);
+  });
+
+  it('should treat dropped connections as retryable', () => {
+    const error = Object.assign(new Error('socket hang up'), {
+      code: 'ECONNRESET',
+    });
+
+    expect(classifyJobError(error)).toEqual({
+      message: 'socket hang up',
+      code: 'NETWORK_ERROR',
+      retryable: true,
+    });
+  });
+
+  it('should treat unknown errors as fatal', () => {
+    const result = classifyJobError(new TypeError('x is undefined'));
+
+    expect(result.retryable).toBe(false);
+    expect(result.message).toBe('x is undefined');
+  });
+});
+
+describe('computeRetryDelay', () => {
+  it('should double the delay after each attempt', () => {
+    expect(computeRetryDelay(1, 1000, 30000)).toBe(1000);
+    expect(computeRetryDelay(2, 1000, 30000)).toBe(2000);
+    expect(computeRetryDelay(3, 1000, 30000)).toBe(4000);
+  });
+
+  it('should never wait longer than the cap', () => {
+    expect(computeRetryDelay(10, 1000, 30000)).toBe(30000);
+  });
+
+  it('should respect a longer Retry-After from the server', () => {
+    expect(computeRetryDelay(1, 1000, 30000, 12000)).toBe(12000);
+  });
+});
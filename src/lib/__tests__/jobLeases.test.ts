@@ -0,0 +1,193 @@
+// Unit tests for lease-based claiming: two managers (standing in for two
+// server instances) sharing one job store
+
+import { JobError } from '../jobErrors';
+import { JobManager } from '../jobManager';
+import { MemoryJobStore } from '../jobStore';
+
+const LEASE_MS = 3000;
+
+describe('lease-based job claiming', () => {
+  let store: MemoryJobStore;
+  let instanceA: JobManager;
+  let instanceB: JobManager;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    store = new MemoryJobStore();
+    instanceA = new JobManager({
+      store,
+      leaseMs: LEASE_MS,
+      workerId: 'worker-a',
+    });
+    instanceB = new JobManager({
+      store,
+      leaseMs: LEASE_MS,
+      workerId: 'worker-b',
+    });
+  });
+
+  afterEach(async () => {
+    await instanceA.shutdown();
+    await instanceB.shutdown();
+    jest.useRealTimers();
+  });
+
+  // Create a job on instance A and wait until it has reached the store
+  const createSharedJob = async (maxAttempts = 3) => {
+    const jobId = instanceA.createJob('/shared.pdf', { maxAttempts });
+    await instanceA.flush();
+    return jobId;
+  };
+
+  it('should only use leases when the store supports them', () => {
+    expect(instanceA.usesLeases).toBe(true);
+    expect(new JobManager({ leaseMs: LEASE_MS }).usesLeases).toBe(true);
+    expect(new JobManager().usesLeases).toBe(false);
+  });
+
+  it('should let only one instance claim a job', async () => {
+    const jobId = await createSharedJob();
+
+    const [claimedByA, claimedByB] = await Promise.all([
+      instanceA.claimNextJobFromStore(),
+      instanceB.claimNextJobFromStore(),
+    ]);
+    await instanceA.flush();
+
+    expect(claimedByA?.id).toBe(jobId);
+    expect(claimedByB).toBeUndefined();
+    const stored = await store.load(jobId);
+    expect(stored?.status).toBe('processing');
+    expect(stored?.leaseOwner).toBe('worker-a');
+  });
+
+  it('should keep the lease alive while the job is running', async () => {
+    const jobId = await createSharedJob();
+    await instanceA.claimNextJobFromStore();
+
+    await jest.advanceTimersByTimeAsync(LEASE_MS * 3);
+
+    expect(await instanceB.claimNextJobFromStore()).toBeUndefined();
+    expect(instanceA.isRunningHere(jobId)).toBe(true);
+  });
+
+  it('should reclaim a job whose instance stopped renewing', async () => {
+    const jobId = await createSharedJob();
+    await instanceA.claimNextJobFromStore();
+    await instanceA.flush();
+    await instanceA.shutdown(); // Instance A dies mid-job
+
+    await jest.advanceTimersByTimeAsync(LEASE_MS + 1);
+    const reclaimed = await instanceB.claimNextJobFromStore();
+
+    expect(reclaimed?.id).toBe(jobId);
+    expect(reclaimed?.status).toBe('processing');
+    expect(reclaimed?.attempts).toBe(2);
+    expect(reclaimed?.attemptLog[0]).toMatchObject({
+      outcome: 'failed',
+      errorCode: 'LEASE_EXPIRED',
+    });
+    expect(reclaimed?.attemptLog[0].error).toContain('worker-a');
+  });
+
+  it('should fail a job that keeps losing its lease once attempts run out', async () => {
+    const jobId = await createSharedJob(1);
+    await instanceA.claimNextJobFromStore();
+    await instanceA.flush();
+    await instanceA.shutdown();
+
+    await jest.advanceTimersByTimeAsync(LEASE_MS + 1);
+
+    expect(await instanceB.claimNextJobFromStore()).toBeUndefined();
+    await instanceB.flush();
+    expect((await store.load(jobId))?.status).toBe('failed');
+  });
+
+  it('should stop local work once another instance has taken the job', async () => {
+    const jobId = await createSharedJob();
+    await instanceA.claimNextJobFromStore();
+    await instanceA.flush();
+    const signal = instanceA.getAbortSignal(jobId)!;
+
+    // Instance A stalls past its lease (e.g. a long GC pause) and B takes over
+    const job = await store.load(jobId);
+    await store.save({
+      ...job!,
+      leaseExpiresAt: new Date(Date.now() - 1),
+    });
+    expect((await instanceB.claimNextJobFromStore())?.id).toBe(jobId);
+    await instanceB.flush();
+
+    // A's writes no longer land, and its next renewal notices
+    instanceA.updateJobStatus(jobId, 'processing', 90);
+    await instanceA.flush();
+    const stored = await store.load(jobId);
+    expect(stored?.progress).toBe(0);
+    expect(stored?.leaseOwner).toBe('worker-b');
+
+    await jest.advanceTimersByTimeAsync(LEASE_MS);
+    expect(signal.aborted).toBe(true);
+    expect(instanceA.isRunningHere(jobId)).toBe(false);
+  });
+
+  it('should abort the running instance when another cancels the job', async () => {
+    const jobId = await createSharedJob();
+    await instanceA.claimNextJobFromStore();
+    await instanceA.flush();
+    const signal = instanceA.getAbortSignal(jobId)!;
+
+    const seenByB = await instanceB.findJob(jobId);
+    expect(seenByB?.status).toBe('processing');
+    instanceB.cancelJob(jobId);
+    await instanceB.flush();
+
+    await jest.advanceTimersByTimeAsync(LEASE_MS);
+
+    expect(signal.aborted).toBe(true);
+    expect(instanceA.getJob(jobId)?.status).toBe('cancelled');
+    expect((await store.load(jobId))?.status).toBe('cancelled');
+  });
+
+  it('should hand a job back to the shared queue for a retry', async () => {
+    const jobId = await createSharedJob();
+    await instanceA.claimNextJobFromStore();
+    instanceA.retryOrFailJob(
+      jobId,
+      new JobError('Provider unavailable', { retryable: true })
+    );
+    await instanceA.flush();
+
+    const stored = await store.load(jobId);
+    expect(stored?.status).toBe('queued');
+    expect(stored?.leaseOwner).toBeUndefined();
+
+    await jest.advanceTimersByTimeAsync(5000); // Past the retry backoff
+    expect((await instanceB.claimNextJobFromStore())?.id).toBe(jobId);
+  });
+
+  it('should let any instance look up a job it has never seen', async () => {
+    const jobId = await createSharedJob();
+    await instanceA.claimNextJobFromStore();
+    instanceA.updateJobStatus(jobId, 'processing', 40);
+    await instanceA.flush();
+
+    expect(instanceB.getJob(jobId)).toBeUndefined();
+    expect((await instanceB.findJob(jobId))?.progress).toBe(40);
+
+    instanceA.updateJobStatus(jobId, 'processing', 80);
+    await instanceA.flush();
+    expect((await instanceB.findJob(jobId))?.progress).toBe(80);
+    expect(await instanceB.findJob('job_missing')).toBeUndefined();
+  });
+
+  it('should keep page jobs on the instance running their document', async () => {
+    const documentId = await createSharedJob();
+    await instanceA.claimNextJobFromStore();
+    const pageIds = instanceA.fanOutJob(documentId, 2);
+    await instanceA.flush();
+
+    expect(await instanceB.claimNextJobFromStore()).toBeUndefined();
+    expect(pageIds).toContain((await instanceA.claimNextJobFromStore())?.id);
+  });
+});
@@ -1,7 +1,13 @@
 // Unit tests for JobManager
 // These tests run automatically and catch bugs before they reach users
 
+import { ReadableStream } from 'stream/web';
 import { JobManager, Job } from '../jobManager';
+import { JobError } from '../jobErrors';
+import { buildJobTimeline } from '../jobStateMachine';
+import { computeStageProgress, describeJobProgress } from '../jobStages';
+import { JobResultStorage, PageResult, buildJobResult } from '../jobResults';
+import { computeContentHash, computeStreamContentHash } from '../jobDedup';
 
 describe('JobManager', () => {
   let jobManager: JobManager;
@@ -321,4 +327,936 @@ describe('JobManager', () => {
       );
     });
   });
+
+  describe('lifecycle events', () => {
+    it('should emit created, status and progress events in order', () => {
+      const events: string[] = [];
+      jobManager.subscribe(event => events.push(event.type));
+
+      const jobId = jobManager.createJob('/test.pdf');
+      jobManager.updateJobStatus(jobId, 'processing', 10);
+      jobManager.updateJobStatus(jobId, 'processing', 50);
+      jobManager.updateJobStatus(jobId, 'done', 100);
+
+      expect(events).toEqual([
+        'created',
+        'status_changed',
+        'progress',
+        'progress',
+        'status_changed',
+        'progress',
+      ]);
+    });
+
+    it('should include the previous status on status changes', () => {
+      const jobId = jobManager.createJob('/test.pdf');
+      const listener = jest.fn();
+      jobManager.subscribe(listener, { types: ['status_changed'] });
+
+      jobManager.updateJobStatus(jobId, 'processing');
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          jobId,
+          previousStatus: 'queued',
+          job: expect.objectContaining({ status: 'processing' }),
+        })
+      );
+    });
+
+    it('should emit a failed event with the error message', () => {
+      const jobId = jobManager.createJob('/test.pdf');
+      const listener = jest.fn();
+      jobManager.subscribe(listener, { types: ['failed'] });
+
+      jobManager.failJob(jobId, 'OCR provider unavailable');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].error).toBe('OCR provider unavailable');
+    });
+
+    it('should only deliver events for the subscribed job', () => {
+      const jobId = jobManager.createJob('/mine.pdf');
+      const otherId = jobManager.createJob('/other.pdf');
+      const listener = jest.fn();
+      jobManager.subscribe(listener, { jobId });
+
+      jobManager.updateJobStatus(otherId, 'processing');
+      jobManager.updateJobStatus(jobId, 'processing');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].jobId).toBe(jobId);
+    });
+
+    it('should emit cleaned_up when a job is removed', () => {
+      const jobId = jobManager.createJob('/test.pdf');
+      jobManager.updateJobStatus(jobId, 'done', 100);
+      const listener = jest.fn();
+      jobManager.subscribe(listener);
+
+      jobManager.cleanupJob(jobId);
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'cleaned_up', jobId })
+      );
+    });
+
+    it('should stop delivering events after unsubscribing', () => {
+      const listener = jest.fn();
+      const unsubscribe = jobManager.subscribe(listener);
+      unsubscribe();
+
+      jobManager.createJob('/test.pdf');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should keep going when a listener throws', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const listener = jest.fn();
+      jobManager.subscribe(() => {
+        throw new Error('broken listener');
+      });
+      jobManager.subscribe(listener);
+
+      const jobId = jobManager.createJob('/test.pdf');
+
+      expect(jobManager.getJob(jobId)).toBeDefined();
+      expect(listener).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('retries', () => {
+    const rateLimited = () =>
+      new JobError('429 Too Many Requests', {
+        retryable: true,
+        code: 'RATE_LIMITED',
+        provider: 'mistral',
+      });
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jobManager = new JobManager({
+        maxAttempts: 3,
+        retryBaseDelayMs: 1000,
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should start with no attempts recorded', () => {
+      const jobId = jobManager.createJob('/test.pdf');
+      const job = jobManager.getJob(jobId)!;
+
+      expect(job.attempts).toBe(0);
+      expect(job.maxAttempts).toBe(3);
+      expect(job.attemptLog).toEqual([]);
+    });
+
+    it('should open an attempt each time processing starts', () => {
+      const jobId = jobManager.createJob('/test.pdf');
+      jobManager.claimNextJob();
+      jobManager.setAttemptProvider(jobId, 'tesseract');
+      const job = jobManager.getJob(jobId)!;
+
+      expect(job.attempts).toBe(1);
+      expect(job.attemptLog[0]).toEqual(
+        expect.objectContaining({
+          attempt: 1,
+          outcome: 'running',
+          provider: 'tesseract',
+        })
+      );
+    });
+
+    it('should re-queue retryable failures after a backoff', () => {
+      const jobId = jobManager.createJob('/test.pdf');
+      jobManager.claimNextJob();
+
+      expect(jobManager.retryOrFailJob(jobId, rateLimited())).toBe('retrying');
+      const job = jobManager.getJob(jobId)!;
+      expect(job.status).toBe('queued');
+      expect(job.attemptLog[0]).toEqual(
+        expect.objectContaining({
+          outcome: 'failed',
+          errorCode: 'RATE_LIMITED',
+          retryable: true,
+          provider: 'mistral',
+        })
+      );
+
+      // Not claimable until the backoff has passed
+      expect(jobManager.claimNextJob()).toBeUndefined();
+      jest.advanceTimersByTime(1000);
+      expect(jobManager.claimNextJob()!.id).toBe(jobId);
+      expect(jobManager.getJob(jobId)!.attempts).toBe(2);
+    });
+
+    it('should fail immediately on fatal errors', () => {
+      const jobId = jobManager.createJob('/test.pdf');
+      jobManager.claimNextJob();
+
+      const outcome = jobManager.retryOrFailJob(
+        jobId,
+        new JobError('Corrupt PDF', { retryable: false })
+      );
+
+      expect(outcome).toBe('failed');
+      expect(jobManager.getJob(jobId)!.status).toBe('failed');
+      expect(jobManager.getJob(jobId)!.error).toBe('Corrupt PDF');
+    });
+
+    it('should summarise every attempt once retries run out', () => {
+      const jobId = jobManager.createJob('/test.pdf');
+
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        jest.advanceTimersByTime(60 * 1000);
+        jobManager.claimNextJob();
+        jobManager.retryOrFailJob(jobId, rateLimited());
+      }
+
+      const job = jobManager.getJob(jobId)!;
+      expect(job.status).toBe('failed');
+      expect(job.attempts).toBe(3);
+      expect(job.error).toBe(
+        'Failed after 3 attempts - ' +
+          '#1 [mistral]: 429 Too Many Requests; ' +
+          '#2 [mistral]: 429 Too Many Requests; ' +
+          '#3 [mistral]: 429 Too Many Requests'
+      );
+    });
+
+    it('should retry a job that times out while attempts remain', () => {
+      const jobId = jobManager.createJob('/test.pdf');
+      jobManager.claimNextJob();
+
+      jest.advanceTimersByTime(120000);
+
+      const job = jobManager.getJob(jobId)!;
+      expect(job.status).toBe('queued');
+      expect(job.attemptLog[0].errorCode).toBe('TIMEOUT');
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should cancel a queued job', () => {
+      const jobId = jobManager.createJob('/wrong-file.pdf');
+
+      expect(jobManager.cancelJob(jobId)).toBe(true);
+
+      const job = jobManager.getJob(jobId)!;
+      expect(job.status).toBe('cancelled');
+      expect(job.cancelReason).toBe('Cancelled by user');
+      expect(job.completedAt).toBeDefined();
+      expect(jobManager.claimNextJob()).toBeUndefined();
+    });
+
+    it('should abort the signal of a running job', () => {
+      const jobId = jobManager.createJob('/big.pdf');
+      jobManager.claimNextJob();
+      const signal = jobManager.getAbortSignal(jobId)!;
+
+      jobManager.cancelJob(jobId, 'Uploaded the wrong file');
+
+      expect(signal.aborted).toBe(true);
+      expect(signal.reason.code).toBe('CANCELLED');
+      expect(signal.reason.message).toBe('Uploaded the wrong file');
+      expect(jobManager.getJob(jobId)!.attemptLog[0].outcome).toBe('cancelled');
+    });
+
+    it('should not cancel a job that already finished', () => {
+      const jobId = jobManager.createJob('/test.pdf');
+      jobManager.updateJobStatus(jobId, 'done', 100);
+
+      expect(jobManager.cancelJob(jobId)).toBe(false);
+      expect(jobManager.getJob(jobId)!.status).toBe('done');
+    });
+
+    it('should abort the signal when a running job times out', () => {
+      jest.useFakeTimers();
+      const jobId = jobManager.createJob('/slow.pdf');
+      jobManager.claimNextJob();
+      const signal = jobManager.getAbortSignal(jobId)!;
+
+      jest.advanceTimersByTime(120000);
+
+      expect(signal.aborted).toBe(true);
+      jest.useRealTimers();
+    });
+
+    it('should clean up cancelled jobs', () => {
+      jest.useFakeTimers();
+      const jobId = jobManager.createJob('/test.pdf');
+      jobManager.cancelJob(jobId);
+
+      jest.advanceTimersByTime(5 * 60 * 1000);
+
+      expect(jobManager.getJob(jobId)).toBeUndefined();
+      jest.useRealTimers();
+    });
+  });
+
+  describe('heartbeat timeouts and retention', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should keep a job alive while it reports progress', () => {
+      const jobId = jobManager.createJob('/200-pages.pdf');
+      jobManager.updateJobStatus(jobId, 'processing', 0);
+
+      // Six minutes of steady progress, one update every 90 seconds
+      for (let progress = 20; progress <= 80; progress += 20) {
+        jest.advanceTimersByTime(90 * 1000);
+        jobManager.updateJobStatus(jobId, 'processing', progress);
+      }
+
+      expect(jobManager.getJob(jobId)!.status).toBe('processing');
+      expect(jobManager.getJob(jobId)!.lastHeartbeatAt).toBeInstanceOf(Date);
+    });
+
+    it('should fail a job that stops reporting progress', () => {
+      const jobId = jobManager.createJob('/stuck.pdf', { timeoutMs: 30000 });
+      jobManager.updateJobStatus(jobId, 'processing', 10);
+
+      jest.advanceTimersByTime(30000);
+
+      expect(jobManager.getJob(jobId)!.status).toBe('failed');
+      expect(jobManager.getJob(jobId)!.error).toBe(
+        'Job timed out after 30 seconds'
+      );
+    });
+
+    it('should enforce the hard runtime cap even with progress', () => {
+      const jobId = jobManager.createJob('/endless.pdf', {
+        timeoutMs: 60000,
+        maxRuntimeMs: 150000,
+      });
+      jobManager.updateJobStatus(jobId, 'processing', 0);
+
+      jest.advanceTimersByTime(50000);
+      jobManager.updateJobStatus(jobId, 'processing', 30);
+      jest.advanceTimersByTime(50000);
+      jobManager.updateJobStatus(jobId, 'processing', 60);
+      jest.advanceTimersByTime(50000);
+
+      const job = jobManager.getJob(jobId)!;
+      expect(job.status).toBe('failed');
+      expect(job.error).toBe('Job exceeded maximum runtime of 150 seconds');
+    });
+
+    it('should use manager defaults for new jobs', () => {
+      jobManager = new JobManager({
+        inactivityTimeoutMs: 1000,
+        maxRuntimeMs: 5000,
+        retentionMs: 2000,
+      });
+      const jobId = jobManager.createJob('/test.pdf');
+      const job = jobManager.getJob(jobId)!;
+
+      expect(job.timeoutMs).toBe(1000);
+      expect(job.maxRuntimeMs).toBe(5000);
+      expect(job.retentionMs).toBe(2000);
+    });
+
+    it('should keep finished jobs for their own retention period', () => {
+      const jobId = jobManager.createJob('/keep.pdf', {
+        retentionMs: 60 * 60 * 1000,
+      });
+      jobManager.updateJobStatus(jobId, 'done', 100);
+
+      jest.advanceTimersByTime(59 * 60 * 1000);
+      expect(jobManager.getJob(jobId)).toBeDefined();
+
+      jest.advanceTimersByTime(60 * 1000);
+      expect(jobManager.getJob(jobId)).toBeUndefined();
+    });
+  });
+
+  describe('state machine', () => {
+    let jobId: string;
+
+    beforeEach(() => {
+      jobId = jobManager.createJob('/test.pdf');
+    });
+
+    it('should refuse to move a finished job back to processing', () => {
+      jobManager.updateJobStatus(jobId, 'done', 100);
+
+      const result = jobManager.transitionJob(jobId, 'processing');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('ILLEGAL_TRANSITION');
+        expect(result.error.from).toBe('done');
+        expect(result.error.to).toBe('processing');
+      }
+      expect(jobManager.getJob(jobId)!.status).toBe('done');
+      expect(jobManager.updateJobStatus(jobId, 'processing')).toBe(false);
+    });
+
+    it('should not fail a job that already finished', () => {
+      jobManager.updateJobStatus(jobId, 'done', 100);
+
+      expect(jobManager.failJob(jobId, 'late error')).toBe(false);
+      expect(jobManager.getJob(jobId)!.error).toBeUndefined();
+    });
+
+    it('should report unknown jobs with a typed error', () => {
+      const result = jobManager.transitionJob('fake_job', 'processing');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('JOB_NOT_FOUND');
+      }
+    });
+
+    it('should clamp progress to 0-100', () => {
+      jobManager.updateJobStatus(jobId, 'processing', 250);
+      expect(jobManager.getJob(jobId)!.progress).toBe(100);
+
+      jobManager.updateJobStatus(jobId, 'processing', -5);
+      expect(jobManager.getJob(jobId)!.progress).toBe(0);
+    });
+
+    it('should reject progress that is not a number', () => {
+      const result = jobManager.transitionJob(jobId, 'processing', {
+        progress: NaN,
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('INVALID_PROGRESS');
+      }
+      expect(jobManager.getJob(jobId)!.status).toBe('queued');
+    });
+
+    it('should record a timestamped history of transitions', () => {
+      jobManager.claimNextJob();
+      jobManager.updateJobStatus(jobId, 'processing', 50);
+      jobManager.failJob(jobId, 'Provider unavailable');
+
+      const transitions = jobManager.getJob(jobId)!.transitions;
+      expect(transitions.map(t => [t.from, t.to])).toEqual([
+        [null, 'queued'],
+        ['queued', 'processing'],
+        ['processing', 'failed'],
+      ]);
+      expect(transitions[1].reason).toBe('claimed by runner');
+      expect(transitions[2].reason).toBe('Provider unavailable');
+      expect(transitions.every(t => t.at instanceof Date)).toBe(true);
+    });
+
+    it('should build a timeline with time spent in each status', () => {
+      const start = new Date('2025-01-01T00:00:00Z');
+      const timeline = buildJobTimeline(
+        [
+          { from: null, to: 'queued', at: start },
+          {
+            from: 'queued',
+            to: 'processing',
+            at: new Date(start.getTime() + 4000),
+          },
+        ],
+        new Date(start.getTime() + 10000)
+      );
+
+      expect(timeline.map(entry => entry.durationMs)).toEqual([4000, 6000]);
+    });
+  });
+
+  describe('pipeline stages', () => {
+    let jobId: string;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jobId = jobManager.createJob('/scan.pdf');
+      jobManager.claimNextJob();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should start every job with pending stages', () => {
+      const stages = jobManager.getJob(jobId)!.stages;
+
+      expect(stages.map(stage => stage.name)).toEqual([
+        'download',
+        'rasterize',
+        'preprocess',
+        'recognize',
+        'normalize',
+      ]);
+      expect(stages.every(stage => stage.status === 'pending')).toBe(true);
+    });
+
+    it('should only track the stages a job asks for', () => {
+      const imageJobId = jobManager.createJob('/photo.png', {
+        stages: ['download', 'recognize', 'export'],
+      });
+
+      expect(
+        jobManager.getJob(imageJobId)!.stages.map(stage => stage.name)
+      ).toEqual(['download', 'recognize', 'export']);
+    });
+
+    it('should roll stage progress up into weighted job progress', () => {
+      jobManager.updateStage(jobId, 'download', { status: 'done' });
+      jobManager.updateStage(jobId, 'rasterize', { status: 'done' });
+      jobManager.updateStage(jobId, 'preprocess', { status: 'done' });
+      jobManager.updateStage(jobId, 'recognize', { current: 6, total: 12 });
+
+      const job = jobManager.getJob(jobId)!;
+      // 35 points for the finished stages + half of recognize's 55, out of 95
+      expect(job.progress).toBe(Math.round((35 + 27.5) / 0.95));
+      expect(job.progress).toBe(computeStageProgress(job.stages));
+    });
+
+    it('should describe the running stage in words', () => {
+      jobManager.updateStage(jobId, 'recognize', { current: 4, total: 12 });
+
+      expect(describeJobProgress(jobManager.getJob(jobId)!)).toBe(
+        'Recognizing page 4 of 12'
+      );
+    });
+
+    it('should record stage timings and close earlier stages', () => {
+      jobManager.updateStage(jobId, 'download', { status: 'running' });
+      jobManager.updateStage(jobId, 'rasterize', { current: 1, total: 3 });
+
+      const [download, rasterize] = jobManager.getJob(jobId)!.stages;
+      expect(download.status).toBe('done');
+      expect(download.startedAt).toBeInstanceOf(Date);
+      expect(download.completedAt).toBeInstanceOf(Date);
+      expect(rasterize.status).toBe('running');
+      expect(rasterize.progress).toBeCloseTo(33.3, 1);
+    });
+
+    it('should keep a stage that is still counting pages open', () => {
+      // A PDF read in one job renders, cleans up and reads page by page
+      jobManager.updateStage(jobId, 'rasterize', { current: 1, total: 3 });
+      jobManager.updateStage(jobId, 'preprocess', { current: 1, total: 3 });
+      jobManager.updateStage(jobId, 'recognize', { current: 1, total: 3 });
+
+      let stages = jobManager.getJob(jobId)!.stages;
+      expect(stages.find(s => s.name === 'rasterize')!.status).toBe('running');
+      expect(describeJobProgress(jobManager.getJob(jobId)!)).toBe(
+        'Rendering page 1 of 3'
+      );
+
+      // Once every page is rendered, it closes like any other stage
+      jobManager.updateStage(jobId, 'rasterize', { current: 3 });
+      jobManager.updateStage(jobId, 'preprocess', { current: 3 });
+      jobManager.updateStage(jobId, 'recognize', { current: 2 });
+
+      stages = jobManager.getJob(jobId)!.stages;
+      expect(stages.find(s => s.name === 'rasterize')!.status).toBe('done');
+      expect(describeJobProgress(jobManager.getJob(jobId)!)).toBe(
+        'Recognizing page 2 of 3'
+      );
+    });
+
+    it('should emit stage_changed events', () => {
+      const listener = jest.fn();
+      jobManager.subscribe(listener, { types: ['stage_changed'] });
+
+      jobManager.updateStage(jobId, 'recognize', { current: 2, total: 5 });
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'stage_changed',
+          jobId,
+          stage: expect.objectContaining({ name: 'recognize', current: 2 }),
+        })
+      );
+    });
+
+    it('should refuse stage updates for jobs that are not running', () => {
+      const queuedJobId = jobManager.createJob('/waiting.pdf');
+
+      expect(
+        jobManager.updateStage(queuedJobId, 'download', { progress: 50 })
+      ).toBe(false);
+      expect(jobManager.updateStage(jobId, 'export', { progress: 50 })).toBe(
+        false
+      );
+    });
+
+    it('should skip unused stages when the job finishes', () => {
+      jobManager.updateStage(jobId, 'recognize', { progress: 80 });
+      jobManager.updateJobStatus(jobId, 'done', 100);
+
+      const stages = jobManager.getJob(jobId)!.stages;
+      expect(stages.find(s => s.name === 'recognize')!.status).toBe('done');
+      expect(stages.find(s => s.name === 'download')!.status).toBe('skipped');
+    });
+
+    it('should reset stages when a job is retried', () => {
+      const retryManager = new JobManager({ maxAttempts: 2 });
+      const retryJobId = retryManager.createJob('/flaky.pdf');
+      retryManager.claimNextJob();
+      retryManager.updateStage(retryJobId, 'download', { status: 'done' });
+
+      retryManager.retryOrFailJob(
+        retryJobId,
+        new JobError('Rate limited', { retryable: true })
+      );
+
+      const job = retryManager.getJob(retryJobId)!;
+      expect(job.status).toBe('queued');
+      expect(job.stages.every(stage => stage.status === 'pending')).toBe(true);
+    });
+  });
+
+  describe('page fan-out', () => {
+    let documentId: string;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jobManager = new JobManager({ maxAttempts: 2 });
+      documentId = jobManager.createJob('/report.pdf');
+      jobManager.claimNextJob();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    // Claim and finish the page jobs one by one
+    const runPage = (status: 'done' | 'failed', error?: string) => {
+      const page = jobManager.claimNextJob()!;
+      if (status === 'done') {
+        jobManager.updateJobStatus(page.id, 'done', 100);
+      } else {
+        jobManager.failJob(page.id, error ?? 'Page failed');
+      }
+      return page;
+    };
+
+    it('should create one queued page job per page', () => {
+      const pageIds = jobManager.fanOutJob(documentId, 3);
+      const pages = jobManager.getPageJobs(documentId);
+
+      expect(pageIds).toHaveLength(3);
+      expect(pages.map(page => page.pageNumber)).toEqual([1, 2, 3]);
+      expect(pages.every(page => page.parentId === documentId)).toBe(true);
+      expect(pages.every(page => page.status === 'queued')).toBe(true);
+      expect(jobManager.getJob(documentId)!.childIds).toEqual(pageIds);
+    });
+
+    it('should not fan out the same document twice', () => {
+      const first = jobManager.fanOutJob(documentId, 2);
+      const second = jobManager.fanOutJob(documentId, 2);
+
+      expect(second).toEqual(first);
+      expect(jobManager.getPageJobs(documentId)).toHaveLength(2);
+    });
+
+    it('should make finished pages available before the document is done', () => {
+      const listener = jest.fn();
+      jobManager.subscribe(listener, {
+        jobId: documentId,
+        types: ['page_finished'],
+      });
+      jobManager.fanOutJob(documentId, 2);
+
+      runPage('done');
+
+      const document = jobManager.getJob(documentId)!;
+      expect(document.status).toBe('processing');
+      expect(document.progress).toBeGreaterThan(0);
+      expect(jobManager.getPageJobs(documentId)[0].status).toBe('done');
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'page_finished',
+          page: expect.objectContaining({ pageNumber: 1, status: 'done' }),
+        })
+      );
+    });
+
+    it('should finish the document once every page is done', () => {
+      jobManager.fanOutJob(documentId, 2);
+
+      runPage('done');
+      runPage('done');
+
+      const document = jobManager.getJob(documentId)!;
+      expect(document.status).toBe('done');
+      expect(document.progress).toBe(100);
+      expect(document.failedPages).toEqual([]);
+    });
+
+    it('should retry a failing page without touching the others', () => {
+      jobManager.fanOutJob(documentId, 2);
+      const page = jobManager.claimNextJob()!;
+
+      jobManager.retryOrFailJob(
+        page.id,
+        new JobError('Rate limited', { retryable: true })
+      );
+
+      expect(jobManager.getJob(page.id)!.status).toBe('queued');
+      expect(jobManager.getPageJobs(documentId)[1].status).toBe('queued');
+      expect(jobManager.getJob(documentId)!.status).toBe('processing');
+    });
+
+    it('should mark failed pages without failing the whole document', () => {
+      jobManager.fanOutJob(documentId, 2);
+
+      runPage('done');
+      runPage('failed', 'Unreadable scan');
+
+      const document = jobManager.getJob(documentId)!;
+      expect(document.status).toBe('done');
+      expect(document.failedPages).toEqual([2]);
+    });
+
+    it('should fail the document when every page fails', () => {
+      jobManager.fanOutJob(documentId, 2);
+
+      runPage('failed', 'Blank page');
+      runPage('failed', 'Blank page');
+
+      const document = jobManager.getJob(documentId)!;
+      expect(document.status).toBe('failed');
+      expect(document.error).toBe(
+        'All 2 pages failed - page 1: Blank page; page 2: Blank page'
+      );
+    });
+
+    it('should cancel unfinished pages when the document is cancelled', () => {
+      jobManager.fanOutJob(documentId, 2);
+      runPage('done');
+
+      jobManager.cancelJob(documentId);
+
+      const pages = jobManager.getPageJobs(documentId);
+      expect(pages.map(page => page.status)).toEqual(['done', 'cancelled']);
+    });
+
+    it('should clean up page jobs together with their document', () => {
+      const pageIds = jobManager.fanOutJob(documentId, 2);
+      runPage('done');
+      runPage('done');
+
+      // Pages are kept as long as the document, then removed with it
+      expect(jobManager.getJob(pageIds[0])).toBeDefined();
+      jest.advanceTimersByTime(5 * 60 * 1000);
+
+      expect(jobManager.getJob(documentId)).toBeUndefined();
+      expect(jobManager.getJob(pageIds[0])).toBeUndefined();
+      expect(jobManager.getJob(pageIds[1])).toBeUndefined();
+    });
+  });
+
+  describe('results', () => {
+    const page = (pageNumber: number, text = 'Hello'): PageResult => ({
+      pageNumber,
+      text,
+      confidence: 0.9,
+      provider: 'tesseract',
+      durationMs: 100,
+    });
+
+    // Result storage that keeps files in a Map
+    const createStorage = () => {
+      const files = new Map<string, string>();
+      const storage: JobResultStorage = {
+        save: jest.fn(async (jobId: string, json: string) => {
+          files.set(`results/${jobId}.json`, json);
+          return {
+            path: `results/${jobId}.json`,
+            sizeBytes: json.length,
+            storedAt: new Date(),
+          };
+        }),
+        load: jest.fn(async ref => JSON.parse(files.get(ref.path)!)),
+        delete: jest.fn(async ref => {
+          files.delete(ref.path);
+        }),
+      };
+      return { storage, files };
+    };
+
+    it('should combine page results in page order', () => {
+      const result = buildJobResult([
+        { ...page(2, 'second'), confidence: 0.5, provider: 'mistral' },
+        page(1, 'first'),
+      ]);
+
+      expect(result.text).toBe('first\n\nsecond');
+      expect(result.confidence).toBeCloseTo(0.7);
+      expect(result.providers).toEqual(['tesseract', 'mistral']);
+      expect(result.durationMs).toBe(200);
+    });
+
+    it('should keep small results on the job', async () => {
+      const { storage } = createStorage();
+      jobManager = new JobManager({ resultStorage: storage });
+      const jobId = jobManager.createJob('/test.pdf');
+      jobManager.claimNextJob();
+
+      await jobManager.saveResult(jobId, buildJobResult([page(1)]));
+
+      const job = jobManager.getJob(jobId)!;
+      expect(job.result!.pages).toHaveLength(1);
+      expect(job.resultRef).toBeUndefined();
+      expect(storage.save).not.toHaveBeenCalled();
+      jobManager.cancelJob(jobId);
+    });
+
+    it('should offload large results and load them back', async () => {
+      const { storage, files } = createStorage();
+      jobManager = new JobManager({
+        resultStorage: storage,
+        maxInlineResultBytes: 100,
+      });
+      const jobId = jobManager.createJob('/big.pdf');
+      jobManager.claimNextJob();
+
+      const result = buildJobResult([page(1, 'x'.repeat(500))]);
+      await jobManager.saveResult(jobId, result);
+
+      const job = jobManager.getJob(jobId)!;
+      expect(job.result).toBeUndefined();
+      expect(job.resultRef!.path).toBe(`results/${jobId}.json`);
+      expect((await jobManager.getResult(jobId))!.text).toBe(result.text);
+
+      // The stored file is removed with the job
+      jobManager.updateJobStatus(jobId, 'done', 100);
+      jobManager.cleanupJob(jobId);
+      await Promise.resolve();
+      expect(files.size).toBe(0);
+    });
+
+    it('should not accept results for jobs that are not running', async () => {
+      const jobId = jobManager.createJob('/test.pdf');
+
+      expect(
+        await jobManager.saveResult(jobId, buildJobResult([page(1)]))
+      ).toBe(false);
+    });
+
+    it('should return partial results while pages are still running', async () => {
+      const documentId = jobManager.createJob('/report.pdf');
+      jobManager.claimNextJob();
+      jobManager.fanOutJob(documentId, 2);
+
+      const firstPage = jobManager.claimNextJob()!;
+      await jobManager.saveResult(firstPage.id, buildJobResult([page(1)]));
+      jobManager.updateJobStatus(firstPage.id, 'done', 100);
+
+      const partial = await jobManager.getResult(documentId);
+      expect(partial!.pages.map(p => p.pageNumber)).toEqual([1]);
+      jobManager.cancelJob(documentId);
+    });
+  });
+
+  describe('deduplication', () => {
+    const hash = computeContentHash('%PDF-1.7 same bytes');
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should hash file contents with SHA-256', () => {
+      expect(computeContentHash('abc')).toBe(
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+      );
+    });
+
+    it('should hash a stream the same as the whole file', async () => {
+      const chunks = ['%PDF-1.7 ', 'same ', 'bytes'];
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue(Buffer.from(chunk));
+          }
+          controller.close();
+        },
+      });
+
+      await expect(
+        computeStreamContentHash(stream as globalThis.ReadableStream)
+      ).resolves.toBe(hash);
+    });
+
+    it('should return the same job for a repeated idempotency key', () => {
+      const first = jobManager.createJob('/a.pdf', { idempotencyKey: 'k-1' });
+      const second = jobManager.createJob('/a.pdf', { idempotencyKey: 'k-1' });
+
+      expect(second).toBe(first);
+      expect(jobManager.getJobCounts().total).toBe(1);
+    });
+
+    it('should return a queued or running job for the same bytes', () => {
+      const first = jobManager.createJob('/a.pdf', { contentHash: hash });
+      jobManager.claimNextJob();
+
+      const second = jobManager.createJob('/copy-of-a.pdf', {
+        contentHash: hash,
+      });
+
+      expect(second).toBe(first);
+    });
+
+    it('should start new work when the options differ', () => {
+      const first = jobManager.createJob('/a.pdf', { contentHash: hash });
+      const second = jobManager.createJob('/a.pdf', {
+        contentHash: hash,
+        stages: ['download', 'recognize', 'export'],
+      });
+
+      expect(second).not.toBe(first);
+    });
+
+    it('should complete a repeat of a finished job with its cached result', async () => {
+      const first = jobManager.createJob('/a.pdf', { contentHash: hash });
+      jobManager.claimNextJob();
+      await jobManager.saveResult(
+        first,
+        buildJobResult([
+          {
+            pageNumber: 1,
+            text: 'Invoice #42',
+            confidence: 0.95,
+            provider: 'tesseract',
+            durationMs: 800,
+          },
+        ])
+      );
+      jobManager.updateJobStatus(first, 'done', 100);
+
+      const second = jobManager.createJob('/a.pdf', { contentHash: hash });
+      const job = jobManager.getJob(second)!;
+
+      expect(second).not.toBe(first);
+      expect(job.status).toBe('done');
+      expect(job.reusedFrom).toBe(first);
+      expect(job.result!.text).toBe('Invoice #42');
+      expect(job.attempts).toBe(0);
+    });
+
+    it('should try again after a failed job', () => {
+      const first = jobManager.createJob('/a.pdf', { contentHash: hash });
+      jobManager.failJob(first, 'Provider down');
+
+      const second = jobManager.createJob('/a.pdf', { contentHash: hash });
+
+      expect(second).not.toBe(first);
+      expect(jobManager.getJob(second)!.status).toBe('queued');
+    });
+  });
 });
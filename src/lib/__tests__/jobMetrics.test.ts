@@ -0,0 +1,138 @@
+// Unit tests for rolling job metrics
+
+import { JobManager } from '../jobManager';
+import {
+  JobMetrics,
+  JobSample,
+  TARGET_PAGES_PER_SECOND,
+  percentile,
+} from '../jobMetrics';
+
+const sample = (overrides: Partial<JobSample> = {}): JobSample => ({
+  finishedAt: 1_000_000,
+  outcome: 'done',
+  provider: 'tesseract',
+  fileType: 'pdf',
+  pages: 3,
+  queueWaitMs: 500,
+  processingMs: 15_000,
+  ...overrides,
+});
+
+describe('percentile', () => {
+  it('should use the nearest rank', () => {
+    const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+    expect(percentile(values, 50)).toBe(5);
+    expect(percentile(values, 95)).toBe(10);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe('JobMetrics', () => {
+  it('should summarize timings with p50 and p95', () => {
+    const metrics = new JobMetrics();
+    [10, 20, 30, 40].forEach(seconds =>
+      metrics.record(sample({ processingMs: seconds * 1000 }))
+    );
+
+    const snapshot = metrics.snapshot(1_000_000);
+
+    expect(snapshot.total).toBe(4);
+    expect(snapshot.processingMs.p50).toBe(20_000);
+    expect(snapshot.processingMs.p95).toBe(40_000);
+    expect(snapshot.queueWaitMs.avg).toBe(500);
+  });
+
+  it('should break results down by provider and file type', () => {
+    const metrics = new JobMetrics();
+    metrics.record(sample({ provider: 'tesseract', fileType: 'pdf' }));
+    metrics.record(
+      sample({ provider: 'mistral', fileType: 'png', outcome: 'failed' })
+    );
+    metrics.record(sample({ provider: 'mistral', fileType: 'pdf' }));
+
+    const snapshot = metrics.snapshot(1_000_000);
+
+    expect(snapshot.successRate).toBeCloseTo(2 / 3);
+    expect(snapshot.byProvider.mistral.successRate).toBe(0.5);
+    expect(snapshot.byProvider.tesseract.succeeded).toBe(1);
+    expect(snapshot.byFileType.pdf.total).toBe(2);
+    expect(snapshot.byFileType.png.failed).toBe(1);
+  });
+
+  it('should check the 3 pages in 30 seconds target', () => {
+    const metrics = new JobMetrics();
+    metrics.record(sample({ pages: 3, processingMs: 15_000 })); // 0.2 pages/s
+    metrics.record(sample({ pages: 3, processingMs: 60_000 })); // 0.05 pages/s
+
+    const { throughputTarget } = metrics.snapshot(1_000_000);
+
+    expect(throughputTarget.pagesPerSecond).toBe(TARGET_PAGES_PER_SECOND);
+    expect(throughputTarget.shareMeeting).toBe(0.5);
+    expect(throughputTarget.metAtP50).toBe(false);
+  });
+
+  it('should forget jobs that finished before the window', () => {
+    const metrics = new JobMetrics({ windowMs: 60_000 });
+    metrics.record(sample({ finishedAt: 0 }));
+    metrics.record(sample({ finishedAt: 100_000 }));
+
+    expect(metrics.snapshot(120_000).total).toBe(1);
+  });
+
+  it('should report nothing before any job finishes', () => {
+    const snapshot = new JobMetrics().snapshot();
+
+    expect(snapshot.total).toBe(0);
+    expect(snapshot.successRate).toBeNull();
+    expect(snapshot.processingMs.p50).toBeNull();
+    expect(snapshot.throughputTarget.metAtP50).toBeNull();
+  });
+});
+
+describe('JobManager.getMetrics', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should record queue wait and processing time of finished jobs', () => {
+    const jobManager = new JobManager();
+    const jobId = jobManager.createJob('/scan.pdf', {
+      mimeType: 'application/pdf',
+      pageCount: 3,
+    });
+
+    jest.advanceTimersByTime(2000);
+    jobManager.claimNextJob();
+    jobManager.setAttemptProvider(jobId, 'mistral');
+    jest.advanceTimersByTime(6000);
+    jobManager.updateJobStatus(jobId, 'done', 100);
+
+    const metrics = jobManager.getMetrics();
+    expect(metrics.total).toBe(1);
+    expect(metrics.queueWaitMs.p50).toBe(2000);
+    expect(metrics.processingMs.p50).toBe(6000);
+    expect(metrics.pagesPerSecond.p50).toBe(0.5);
+    expect(metrics.byProvider.mistral.succeeded).toBe(1);
+    expect(metrics.byFileType.pdf.total).toBe(1);
+  });
+
+  it('should count a split document once, not once per page', () => {
+    const jobManager = new JobManager();
+    const documentId = jobManager.createJob('/report.pdf');
+    jobManager.claimNextJob();
+    jobManager.fanOutJob(documentId, 2);
+
+    for (let i = 0; i < 2; i++) {
+      const page = jobManager.claimNextJob()!;
+      jobManager.updateJobStatus(page.id, 'done', 100);
+    }
+
+    expect(jobManager.getMetrics().total).toBe(1);
+  });
+});
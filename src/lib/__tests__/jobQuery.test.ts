@@ -0,0 +1,155 @@
+// Unit tests for listing jobs (ownership, filters, cursor pagination)
+
+import { JobManager } from '../jobManager';
+import { JobOwner, JobQueryError } from '../jobQuery';
+
+const alice: JobOwner = { kind: 'user', id: 'user-alice' };
+const guest: JobOwner = { kind: 'guest', id: 'session-guest' };
+
+describe('JobManager.listJobs', () => {
+  let jobManager: JobManager;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jobManager = new JobManager();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Create a job and move the clock on so creation times differ
+  const createJob = (
+    owner: JobOwner,
+    fileName: string,
+    tags: string[] = []
+  ) => {
+    const jobId = jobManager.createJob(`/uploads/${fileName}`, {
+      owner,
+      fileName,
+      mimeType: 'application/pdf',
+      tags,
+    });
+    jest.advanceTimersByTime(1000);
+    return jobId;
+  };
+
+  it("should only ever return the caller's own jobs", () => {
+    createJob(alice, 'alice.pdf');
+    createJob(guest, 'guest.pdf');
+
+    const page = jobManager.listJobs({ owner: alice });
+
+    expect(page.jobs.map(job => job.fileName)).toEqual(['alice.pdf']);
+    expect(jobManager.listJobs({ owner: guest }).jobs).toHaveLength(1);
+    expect(
+      jobManager.listJobs({ owner: { kind: 'guest', id: 'user-alice' } }).jobs
+    ).toHaveLength(0);
+  });
+
+  it('should keep the file metadata on the job', () => {
+    const jobId = createJob(alice, 'invoice.pdf', ['invoices']);
+    const job = jobManager.getJob(jobId)!;
+
+    expect(job.owner).toEqual(alice);
+    expect(job.fileName).toBe('invoice.pdf');
+    expect(job.mimeType).toBe('application/pdf');
+    expect(job.tags).toEqual(['invoices']);
+  });
+
+  it('should filter by status, tag and creation date', () => {
+    const done = createJob(alice, 'a.pdf', ['tax']);
+    const since = new Date();
+    createJob(alice, 'b.pdf', ['tax']);
+    createJob(alice, 'c.pdf');
+    jobManager.updateJobStatus(done, 'done', 100);
+
+    const byStatus = jobManager.listJobs({ owner: alice, status: ['done'] });
+    const byTag = jobManager.listJobs({ owner: alice, tag: 'tax' });
+    const byDate = jobManager.listJobs({ owner: alice, createdAfter: since });
+
+    expect(byStatus.jobs.map(job => job.fileName)).toEqual(['a.pdf']);
+    expect(byTag.jobs.map(job => job.fileName)).toEqual(['b.pdf', 'a.pdf']);
+    expect(byDate.jobs.map(job => job.fileName)).toEqual(['c.pdf', 'b.pdf']);
+  });
+
+  it('should page through jobs with a cursor', () => {
+    ['1.pdf', '2.pdf', '3.pdf', '4.pdf', '5.pdf'].forEach(name =>
+      createJob(alice, name)
+    );
+
+    const first = jobManager.listJobs({ owner: alice, limit: 2 });
+    const second = jobManager.listJobs({
+      owner: alice,
+      limit: 2,
+      cursor: first.nextCursor!,
+    });
+    const third = jobManager.listJobs({
+      owner: alice,
+      limit: 2,
+      cursor: second.nextCursor!,
+    });
+
+    expect(first.jobs.map(job => job.fileName)).toEqual(['5.pdf', '4.pdf']);
+    expect(second.jobs.map(job => job.fileName)).toEqual(['3.pdf', '2.pdf']);
+    expect(third.jobs.map(job => job.fileName)).toEqual(['1.pdf']);
+    expect(third.nextCursor).toBeNull();
+  });
+
+  it('should not skip jobs when new ones arrive between pages', () => {
+    createJob(alice, 'old-1.pdf');
+    createJob(alice, 'old-2.pdf');
+    const first = jobManager.listJobs({ owner: alice, limit: 1 });
+
+    createJob(alice, 'new.pdf');
+    const second = jobManager.listJobs({
+      owner: alice,
+      limit: 1,
+      cursor: first.nextCursor!,
+    });
+
+    expect(second.jobs.map(job => job.fileName)).toEqual(['old-1.pdf']);
+  });
+
+  it('should sort oldest first when asked', () => {
+    createJob(alice, 'first.pdf');
+    createJob(alice, 'second.pdf');
+
+    const page = jobManager.listJobs({ owner: alice, order: 'asc' });
+
+    expect(page.jobs.map(job => job.fileName)).toEqual([
+      'first.pdf',
+      'second.pdf',
+    ]);
+  });
+
+  it('should reject a cursor from a different sort', () => {
+    createJob(alice, 'a.pdf');
+    createJob(alice, 'b.pdf');
+    const { nextCursor } = jobManager.listJobs({ owner: alice, limit: 1 });
+
+    expect(() =>
+      jobManager.listJobs({
+        owner: alice,
+        sortBy: 'progress',
+        cursor: nextCursor!,
+      })
+    ).toThrow(JobQueryError);
+    expect(() =>
+      jobManager.listJobs({ owner: alice, cursor: 'not-a-cursor' })
+    ).toThrow(JobQueryError);
+  });
+
+  it("should not reuse another owner's job for the same idempotency key", () => {
+    const aliceJob = jobManager.createJob('/a.pdf', {
+      owner: alice,
+      idempotencyKey: 'upload-1',
+    });
+    const guestJob = jobManager.createJob('/a.pdf', {
+      owner: guest,
+      idempotencyKey: 'upload-1',
+    });
+
+    expect(guestJob).not.toBe(aliceJob);
+  });
+});
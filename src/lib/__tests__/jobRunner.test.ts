@@ -0,0 +1,233 @@
+// Unit tests for JobRunner
+// Handlers here are controllable promises so we can check exactly
+// which jobs are running at any moment
+
+import { JobError } from '../jobErrors';
+import { JobManager } from '../jobManager';
+import { JobHandler, JobRunner } from '../jobRunner';
+
+// Every controlled handler that hasn't finished yet, keyed by file path
+const pendingHandlers = new Map<
+  string,
+  { resolve: () => void; reject: (error: Error) => void }
+>();
+
+// A handler whose jobs only finish when the test says so
+function createControlledHandler() {
+  const pending = pendingHandlers;
+  const started: string[] = [];
+
+  const handler: JobHandler = job =>
+    new Promise<void>((resolve, reject) => {
+      started.push(job.filePath);
+      pending.set(job.filePath, { resolve, reject });
+    });
+
+  return { handler, pending, started };
+}
+
+// Let promise callbacks (.then/.finally) run
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('JobRunner', () => {
+  let jobManager: JobManager;
+  let runner: JobRunner;
+
+  beforeEach(() => {
+    jobManager = new JobManager();
+  });
+
+  afterEach(async () => {
+    // Stop the runner, then let any still-running handlers finish
+    const stopped = runner?.stop();
+    pendingHandlers.forEach(({ resolve }) => resolve());
+    pendingHandlers.clear();
+    await stopped;
+  });
+
+  it('should run queued jobs and mark them done', async () => {
+    runner = new JobRunner({
+      jobManager,
+      handler: async (job, context) => {
+        context.reportProgress(50);
+      },
+    });
+    const jobId = jobManager.createJob('/test.pdf');
+
+    runner.start();
+    await flushPromises();
+
+    const job = jobManager.getJob(jobId);
+    expect(job!.status).toBe('done');
+    expect(job!.progress).toBe(100);
+  });
+
+  it('should fail the job when the handler throws', async () => {
+    runner = new JobRunner({
+      jobManager,
+      handler: async () => {
+        throw new Error('OCR engine crashed');
+      },
+    });
+    const jobId = jobManager.createJob('/test.pdf');
+
+    runner.start();
+    await flushPromises();
+
+    expect(jobManager.getJob(jobId)!.status).toBe('failed');
+    expect(jobManager.getJob(jobId)!.error).toBe('OCR engine crashed');
+  });
+
+  it('should never run more jobs than the concurrency limit', async () => {
+    const { handler, pending, started } = createControlledHandler();
+    runner = new JobRunner({ jobManager, handler, concurrency: 2 });
+
+    jobManager.createJob('/a.pdf');
+    jobManager.createJob('/b.pdf');
+    jobManager.createJob('/c.pdf');
+    runner.start();
+
+    expect(runner.activeCount).toBe(2);
+    expect(started).toEqual(['/a.pdf', '/b.pdf']);
+
+    // Finishing one job frees a slot for the next
+    pending.get('/a.pdf')!.resolve();
+    await flushPromises();
+
+    expect(started).toEqual(['/a.pdf', '/b.pdf', '/c.pdf']);
+    expect(runner.activeCount).toBe(2);
+  });
+
+  it('should pick up high priority jobs before older normal ones', async () => {
+    const { handler, started } = createControlledHandler();
+    runner = new JobRunner({ jobManager, handler, concurrency: 1 });
+
+    jobManager.createJob('/normal.pdf');
+    jobManager.createJob('/batch.pdf', { priority: 'low' });
+    jobManager.createJob('/urgent.pdf', { priority: 'high' });
+    runner.start();
+
+    expect(started).toEqual(['/urgent.pdf']);
+  });
+
+  it('should keep the last free slot away from low priority jobs', async () => {
+    const { handler, started } = createControlledHandler();
+    runner = new JobRunner({ jobManager, handler, concurrency: 2 });
+
+    jobManager.createJob('/batch-1.pdf', { priority: 'low' });
+    jobManager.createJob('/batch-2.pdf', { priority: 'low' });
+    runner.start();
+
+    // Only one batch job may run; the other slot stays open
+    expect(started).toEqual(['/batch-1.pdf']);
+
+    // An interactive upload starts straight away
+    jobManager.createJob('/small.pdf', { priority: 'high' });
+    expect(started).toEqual(['/batch-1.pdf', '/small.pdf']);
+  });
+
+  it('should wake up when a new job is created', async () => {
+    const { handler, started } = createControlledHandler();
+    runner = new JobRunner({ jobManager, handler });
+    runner.start();
+
+    jobManager.createJob('/late.pdf');
+
+    expect(started).toEqual(['/late.pdf']);
+  });
+
+  it('should stop claiming jobs after stop()', async () => {
+    const { handler, pending, started } = createControlledHandler();
+    runner = new JobRunner({ jobManager, handler, concurrency: 1 });
+    jobManager.createJob('/first.pdf');
+    runner.start();
+
+    const stopped = runner.stop();
+    jobManager.createJob('/second.pdf');
+    pending.get('/first.pdf')!.resolve();
+    await stopped;
+
+    expect(started).toEqual(['/first.pdf']);
+    expect(runner.isRunning).toBe(false);
+  });
+
+  it('should hand the job abort signal to the handler', async () => {
+    let receivedSignal: AbortSignal | undefined;
+    runner = new JobRunner({
+      jobManager,
+      handler: (job, context) => {
+        receivedSignal = context.signal;
+        return new Promise<void>((resolve, reject) => {
+          context.signal.addEventListener('abort', () =>
+            reject(context.signal.reason)
+          );
+        });
+      },
+    });
+    const jobId = jobManager.createJob('/test.pdf');
+    runner.start();
+
+    jobManager.cancelJob(jobId);
+    await flushPromises();
+
+    expect(receivedSignal!.aborted).toBe(true);
+    expect(jobManager.getJob(jobId)!.status).toBe('cancelled');
+    expect(runner.activeCount).toBe(0);
+  });
+
+  it('should keep counting a retry while the timed-out first run settles', async () => {
+    jobManager = new JobManager({ retryBaseDelayMs: 0 });
+    // Runs that ignore their abort signal and only finish when told to
+    const runs: (() => void)[] = [];
+    runner = new JobRunner({
+      jobManager,
+      handler: () => new Promise<void>(resolve => runs.push(resolve)),
+      concurrency: 2,
+    });
+    const jobId = jobManager.createJob('/slow.pdf', { maxAttempts: 2 });
+    runner.start();
+
+    // The first attempt gives up and the job is claimed again
+    jobManager.retryOrFailJob(
+      jobId,
+      new JobError('Timed out', { retryable: true, code: 'TIMEOUT' })
+    );
+    await flushPromises();
+    expect(runs).toHaveLength(2);
+
+    // The first run finally returns - the retry is still running
+    runs[0]();
+    await flushPromises();
+
+    expect(runner.activeCount).toBe(1);
+    runs[1]();
+  });
+
+  it('should run page jobs in parallel and finish the document after them', async () => {
+    const { handler, pending, started } = createControlledHandler();
+    runner = new JobRunner({
+      jobManager,
+      concurrency: 2,
+      handler: async (job, context) => {
+        if (job.pageNumber === undefined) {
+          context.fanOut(2);
+          return;
+        }
+        await handler({ ...job, filePath: `page-${job.pageNumber}` }, context);
+      },
+    });
+    const documentId = jobManager.createJob('/report.pdf');
+    runner.start();
+    await flushPromises();
+
+    // The document handed its slot over to its pages
+    expect(started).toEqual(['page-1', 'page-2']);
+    expect(jobManager.getJob(documentId)!.status).toBe('processing');
+
+    pending.get('page-1')!.resolve();
+    pending.get('page-2')!.resolve();
+    await flushPromises();
+
+    expect(jobManager.getJob(documentId)!.status).toBe('done');
+  });
+});
@@ -0,0 +1,101 @@
+// Unit tests for draining jobs on shutdown
+
+import { JobManager } from '../jobManager';
+import { JobIntakeClosedError } from '../jobErrors';
+import { JobRunner } from '../jobRunner';
+import { ShutdownCoordinator, getShutdownState } from '../jobShutdown';
+import { MemoryJobStore } from '../jobStore';
+
+// The coordinator keeps its state on globalThis - forget it between tests
+const resetShutdownState = () => {
+  delete (globalThis as { shutdownState?: string }).shutdownState;
+};
+
+describe('ShutdownCoordinator', () => {
+  let jobManager: JobManager;
+  let store: MemoryJobStore;
+
+  beforeEach(() => {
+    store = new MemoryJobStore();
+    jobManager = new JobManager({ store });
+  });
+
+  afterEach(() => {
+    resetShutdownState();
+  });
+
+  it('should stop accepting new jobs', async () => {
+    await new ShutdownCoordinator({ jobManager }).shutdown();
+
+    expect(() => jobManager.createJob('/late.pdf')).toThrow(
+      JobIntakeClosedError
+    );
+    expect(jobManager.isAcceptingJobs).toBe(false);
+    expect(getShutdownState()).toBe('stopped');
+  });
+
+  it('should let running jobs finish within the grace period', async () => {
+    const runner = new JobRunner({
+      jobManager,
+      handler: () => new Promise(resolve => setTimeout(resolve, 10)),
+    });
+    const jobId = jobManager.createJob('/quick.pdf');
+    runner.start();
+
+    const summary = await new ShutdownCoordinator({
+      jobManager,
+      runner,
+      gracePeriodMs: 1000,
+    }).shutdown();
+
+    expect(summary).toMatchObject({ drained: true, requeued: 0 });
+    expect(jobManager.getJob(jobId)!.status).toBe('done');
+  });
+
+  it('should requeue and persist jobs that outlive the grace period', async () => {
+    let signal: AbortSignal | undefined;
+    const runner = new JobRunner({
+      jobManager,
+      handler: (job, context) =>
+        new Promise((resolve, reject) => {
+          signal = context.signal;
+          context.signal.addEventListener('abort', () =>
+            reject(context.signal.reason)
+          );
+        }),
+    });
+    const jobId = jobManager.createJob('/slow.pdf');
+    runner.start();
+
+    const summary = await new ShutdownCoordinator({
+      jobManager,
+      runner,
+      gracePeriodMs: 20,
+    }).shutdown();
+
+    expect(summary).toMatchObject({ drained: false, requeued: 1 });
+    expect(signal!.aborted).toBe(true);
+
+    const stored = await store.load(jobId);
+    expect(stored!.status).toBe('queued');
+    expect(stored!.attemptLog[0]).toMatchObject({
+      outcome: 'cancelled',
+      errorCode: 'SHUTDOWN',
+    });
+  });
+
+  it('should not count an interrupted attempt against the retry budget', async () => {
+    jobManager = new JobManager({ maxAttempts: 2 });
+    const jobId = jobManager.createJob('/slow.pdf');
+    jobManager.claimNextJob();
+    jobManager.requeueInterruptedJobs();
+
+    // The first real attempt fails - one of the two attempts is still left
+    jobManager.claimNextJob();
+    const outcome = jobManager.retryOrFailJob(jobId, new Error('fetch failed'));
+
+    expect(outcome).toBe('retrying');
+    expect(jobManager.getJob(jobId)!.attempts).toBe(2);
+    await jobManager.shutdown();
+  });
+});
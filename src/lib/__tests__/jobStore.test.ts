@@ -0,0 +1,165 @@
+// Unit tests for the JobStore implementations
+// These make sure jobs survive a "restart" (a brand-new JobManager)
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { JobManager } from '../jobManager';
+import { FileJobStore, MemoryJobStore, serializePublicJob } from '../jobStore';
+
+describe('MemoryJobStore', () => {
+  it('should save and load jobs as copies', async () => {
+    const store = new MemoryJobStore();
+    const manager = new JobManager({ store });
+    const jobId = manager.createJob('/uploads/test.pdf');
+    await manager.flush();
+
+    const stored = await store.load(jobId);
+    expect(stored).toBeDefined();
+    expect(stored!.createdAt).toBeInstanceOf(Date);
+
+    // Changing the stored copy must not touch the manager's job
+    stored!.progress = 99;
+    expect(manager.getJob(jobId)!.progress).toBe(0);
+  });
+
+  it('should delete jobs when they are cleaned up', async () => {
+    const store = new MemoryJobStore();
+    const manager = new JobManager({ store });
+    const jobId = manager.createJob('/uploads/test.pdf');
+    manager.updateJobStatus(jobId, 'done', 100);
+    manager.cleanupJob(jobId);
+    await manager.flush();
+
+    expect(await store.load(jobId)).toBeUndefined();
+  });
+});
+
+describe('serializePublicJob', () => {
+  it('should leave out the owner, the lease holder and the upload path', () => {
+    const manager = new JobManager();
+    const jobId = manager.createJob('/uploads/test.pdf', {
+      owner: { kind: 'guest', id: '00000000-0000-4000-8000-000000000000' },
+    });
+    manager.getJob(jobId)!.leaseOwner = 'worker-1';
+
+    const payload = serializePublicJob(manager.getJob(jobId)!);
+
+    expect(payload).toMatchObject({ id: jobId, status: 'queued' });
+    expect(payload).not.toHaveProperty('owner');
+    expect(payload).not.toHaveProperty('leaseOwner');
+    expect(payload).not.toHaveProperty('filePath');
+  });
+});
+
+describe('FileJobStore', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobstore-'));
+    filePath = path.join(tempDir, 'nested', 'jobs.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should start empty when the file does not exist', async () => {
+    const store = new FileJobStore(filePath);
+    expect(await store.loadAll()).toEqual([]);
+  });
+
+  it('should persist jobs to disk with dates intact', async () => {
+    const manager = new JobManager({ store: new FileJobStore(filePath) });
+    const jobId = manager.createJob('/uploads/test.pdf');
+    manager.updateJobStatus(jobId, 'processing', 40);
+    await manager.flush();
+
+    // A new store reads the file from scratch, like a restarted process
+    const reopened = await new FileJobStore(filePath).load(jobId);
+    expect(reopened!.status).toBe('processing');
+    expect(reopened!.progress).toBe(40);
+    expect(reopened!.createdAt).toBeInstanceOf(Date);
+    expect(reopened!.startedAt).toBeInstanceOf(Date);
+  });
+  it('should hand out one lease at a time and keep it on disk', async () => {
+    const store = new FileJobStore(filePath);
+    const manager = new JobManager({ store });
+    const jobId = manager.createJob('/uploads/test.pdf');
+    await manager.flush();
+
+    expect(await store.claim(jobId, 'worker-a', 60_000)).toBeDefined();
+    expect(await store.claim(jobId, 'worker-b', 60_000)).toBeUndefined();
+    expect(await store.renew(jobId, 'worker-b', 60_000)).toBe(false);
+    expect(await store.renew(jobId, 'worker-a', 60_000)).toBe(true);
+
+    const reopened = await new FileJobStore(filePath).load(jobId);
+    expect(reopened!.leaseOwner).toBe('worker-a');
+    expect(reopened!.leaseExpiresAt).toBeInstanceOf(Date);
+  });
+});
+
+describe('JobManager hydration', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should restore queued and completed jobs from the store', async () => {
+    const store = new MemoryJobStore();
+    const first = new JobManager({ store });
+    const queuedId = first.createJob('/queued.pdf');
+    const doneId = first.createJob('/done.pdf');
+    first.updateJobStatus(doneId, 'done', 100);
+    await first.flush();
+
+    const second = new JobManager({ store });
+    const restored = await second.hydrate();
+
+    expect(restored).toBe(2);
+    expect(second.getJob(queuedId)!.status).toBe('queued');
+    expect(second.getJob(doneId)!.status).toBe('done');
+  });
+
+  it('should put jobs that were processing back in the queue', async () => {
+    const store = new MemoryJobStore();
+    const first = new JobManager({ store, maxAttempts: 2 });
+    const jobId = first.createJob('/slow.pdf');
+    first.claimNextJob();
+    first.updateStage(jobId, 'download', { status: 'done' });
+    await first.flush();
+
+    // The process dies without draining, and a new one starts
+    const second = new JobManager({ store, maxAttempts: 2 });
+    await second.hydrate();
+
+    const job = second.getJob(jobId)!;
+    expect(job.status).toBe('queued');
+    expect(job.stages.every(stage => stage.status === 'pending')).toBe(true);
+    // The interrupted attempt doesn't count against the job
+    expect(job.attemptLog[0]).toMatchObject({
+      outcome: 'cancelled',
+      errorCode: 'RESTART',
+    });
+    expect(second.claimNextJob()?.id).toBe(jobId);
+    await second.shutdown();
+  });
+
+  it('should clean up restored completed jobs on the original schedule', async () => {
+    jest.useFakeTimers();
+    const store = new MemoryJobStore();
+    const first = new JobManager({ store });
+    const jobId = first.createJob('/done.pdf');
+    first.updateJobStatus(jobId, 'done', 100);
+    await first.flush();
+
+    jest.advanceTimersByTime(4 * 60 * 1000);
+    const second = new JobManager({ store });
+    await second.hydrate();
+
+    jest.advanceTimersByTime(60 * 1000);
+    expect(second.getJob(jobId)).toBeUndefined();
+    await second.flush();
+    expect(await store.load(jobId)).toBeUndefined();
+  });
+});
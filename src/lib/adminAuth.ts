@@ -0,0 +1,43 @@
+/**
+ * Admin Authentication
+ *
+ * Admin routes (e.g. /api/admin/dead-letters) are for operators, not users.
+ * Callers prove it by sending the server's API_SECRET_KEY:
+ *
+ *   x-api-key: <API_SECRET_KEY>
+ *
+ * The key is compared in constant time so response timing doesn't leak it.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { serverEnv } from './env';
+
+export const ADMIN_KEY_HEADER = 'x-api-key';
+
+/**
+ * Does this request carry the admin key?
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  const provided = request.headers.get(ADMIN_KEY_HEADER);
+  if (!provided) {
+    return false;
+  }
+
+  // Hash both sides so the comparison doesn't depend on the key's length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(serverEnv.api.secretKey));
+}
+
+/**
+ * A 401 response for non-admin requests, or null if the caller may proceed
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+  if (isAdminRequest(request)) {
+    return null;
+  }
+  return NextResponse.json(
+    { success: false, error: 'Admin API key required' },
+    { status: 401 }
+  );
+}
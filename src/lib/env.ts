@@ -55,6 +55,18 @@ const numberSchema = (defaultValue: number) =>
     .transform(val => (val ? parseInt(val, 10) : defaultValue))
     .refine(val => !isNaN(val), { message: 'Must be a valid number' });
 
+/**
+ * Transform string to a fraction between 0 and 1 (e.g. a confidence threshold)
+ */
+const ratioSchema = (defaultValue: number) =>
+  z
+    .string()
+    .optional()
+    .transform(val => (val ? parseFloat(val) : defaultValue))
+    .refine(val => val >= 0 && val <= 1, {
+      message: 'Must be a number between 0 and 1',
+    });
+
 /**
  * Transform comma-separated string to array
  */
@@ -104,8 +116,40 @@ const serverEnvSchema = z.object({
 
   // OCR Configuration (server-only - contains API keys)
   OCR_PROVIDER: z.enum(['tesseract', 'mistral']).default('tesseract'),
+  OCR_FALLBACK_PROVIDERS: csvSchema('tesseract')
+    .transform(names => names.filter(Boolean)) // Empty = no fallback
+    .pipe(z.array(z.enum(['tesseract', 'mistral']))), // Tried in order when OCR_PROVIDER fails or isn't confident
+  OCR_MIN_CONFIDENCE: ratioSchema(0.8), // Pages below this go to the next provider
+  OCR_PROVIDER_TIMEOUT_MS: numberSchema(90000), // Per page, per provider
+  PDF_TEXT_MIN_CHARS: numberSchema(20), // Letters/digits a PDF page's own text needs to skip OCR
+  PDF_RENDER_DPI: numberSchema(300), // Resolution scanned PDF pages are rendered at for OCR
+  OCR_PREPROCESS_STEPS: csvSchema(
+    'grayscale,denoise,contrast,orientation,deskew,binarize,crop'
+  )
+    .transform(steps => steps.filter(Boolean)) // Empty = send images as they are
+    .pipe(
+      z.array(
+        z.enum([
+          'grayscale',
+          'denoise',
+          'contrast',
+          'orientation',
+          'deskew',
+          'binarize',
+          'crop',
+        ])
+      )
+    ), // Clean-up run on page images before OCR (see ocr/preprocess.ts)
+  OCR_PREPROCESS_DEBUG_IMAGES: booleanSchema, // Keep before/after images in storage under debug/<jobId>/
+  OCR_PREPROCESS_WORKERS: numberSchema(1), // Worker threads preprocessing runs on, off the main thread
   MISTRAL_API_KEY: z.string().optional(),
   MISTRAL_API_URL: z.string().url().default('https://api.mistral.ai/v1'),
+  MISTRAL_OCR_MODEL: z.string().default('mistral-ocr-latest'),
+  MISTRAL_TIMEOUT_MS: numberSchema(60000), // Per request to the OCR API
+  MISTRAL_MAX_RETRIES: numberSchema(3), // Retries on 429/5xx before the job itself is retried
+  TESSERACT_LANG_PATH: z.string().optional(), // Folder with <lang>.traineddata.gz (bundled eng data if unset)
+  TESSERACT_LANGUAGES: csvSchema('eng'), // Languages loaded into every worker
+  TESSERACT_WORKERS: numberSchema(2), // Worker threads kept warm for OCR
 
   // File Processing Limits (server-only - security policy)
   MAX_FILE_SIZE: numberSchema(52428800), // 50MB default
@@ -123,6 +167,20 @@ const serverEnvSchema = z.object({
 
   // Database (server-only - contains credentials)
   DATABASE_URL: z.string().optional(),
+
+  // Job Persistence (server-only)
+  JOB_STORE: z.enum(['memory', 'file', 'postgres']).default('memory'),
+  JOB_STORE_FILE: z.string().default('.data/jobs.json'),
+  JOB_CONCURRENCY: numberSchema(2), // Max OCR jobs running at once
+  JOB_MAX_ATTEMPTS: numberSchema(2), // 1 try + 1 retry
+  JOB_RETRY_BASE_DELAY_MS: numberSchema(1000), // Doubles after each failure
+  JOB_INACTIVITY_TIMEOUT_MS: numberSchema(120000), // 2 minutes without progress
+  JOB_MAX_RUNTIME_MS: numberSchema(600000), // 10 minutes per attempt, no matter what
+  JOB_RETENTION_MS: numberSchema(300000), // Keep finished jobs for 5 minutes
+  JOB_RESULT_INLINE_MAX_BYTES: numberSchema(262144), // Bigger results go to storage (256 KB)
+  JOB_SHUTDOWN_GRACE_MS: numberSchema(25000), // Time running jobs get to finish on SIGTERM
+  JOB_LEASE_MS: numberSchema(30000), // Lease on a claimed job when instances share the postgres store
+  JOB_DEAD_LETTER_RETENTION_MS: numberSchema(604800000), // Keep jobs that failed for good for 7 days
 });
 
 // =============================================================================
@@ -240,9 +298,25 @@ function createServerEnv() {
 
     ocr: {
       provider: rawServerEnv.OCR_PROVIDER,
+      fallbackProviders: rawServerEnv.OCR_FALLBACK_PROVIDERS,
+      minConfidence: rawServerEnv.OCR_MIN_CONFIDENCE,
+      providerTimeoutMs: rawServerEnv.OCR_PROVIDER_TIMEOUT_MS,
+      pdfTextMinChars: rawServerEnv.PDF_TEXT_MIN_CHARS,
+      renderDpi: rawServerEnv.PDF_RENDER_DPI,
+      preprocessSteps: rawServerEnv.OCR_PREPROCESS_STEPS,
+      preprocessDebugImages: rawServerEnv.OCR_PREPROCESS_DEBUG_IMAGES,
+      preprocessWorkers: rawServerEnv.OCR_PREPROCESS_WORKERS,
       mistral: {
         apiKey: rawServerEnv.MISTRAL_API_KEY,
         apiUrl: rawServerEnv.MISTRAL_API_URL,
+        model: rawServerEnv.MISTRAL_OCR_MODEL,
+        timeoutMs: rawServerEnv.MISTRAL_TIMEOUT_MS,
+        maxRetries: rawServerEnv.MISTRAL_MAX_RETRIES,
+      },
+      tesseract: {
+        langPath: rawServerEnv.TESSERACT_LANG_PATH,
+        languages: rawServerEnv.TESSERACT_LANGUAGES,
+        workers: rawServerEnv.TESSERACT_WORKERS,
       },
     },
 
@@ -266,6 +340,21 @@ function createServerEnv() {
     database: {
       url: rawServerEnv.DATABASE_URL,
     },
+
+    jobs: {
+      store: rawServerEnv.JOB_STORE,
+      storeFile: rawServerEnv.JOB_STORE_FILE,
+      concurrency: rawServerEnv.JOB_CONCURRENCY,
+      maxAttempts: rawServerEnv.JOB_MAX_ATTEMPTS,
+      retryBaseDelayMs: rawServerEnv.JOB_RETRY_BASE_DELAY_MS,
+      inactivityTimeoutMs: rawServerEnv.JOB_INACTIVITY_TIMEOUT_MS,
+      maxRuntimeMs: rawServerEnv.JOB_MAX_RUNTIME_MS,
+      retentionMs: rawServerEnv.JOB_RETENTION_MS,
+      resultInlineMaxBytes: rawServerEnv.JOB_RESULT_INLINE_MAX_BYTES,
+      shutdownGraceMs: rawServerEnv.JOB_SHUTDOWN_GRACE_MS,
+      leaseMs: rawServerEnv.JOB_LEASE_MS,
+      deadLetterRetentionMs: rawServerEnv.JOB_DEAD_LETTER_RETENTION_MS,
+    },
   } as const;
 }
 
@@ -339,6 +428,26 @@ export function validateEnvironment(): void {
       );
     }
 
+    if (env.jobs.concurrency < 1) {
+      throw new Error('JOB_CONCURRENCY must be at least 1');
+    }
+
+    if (env.jobs.maxAttempts < 1) {
+      throw new Error('JOB_MAX_ATTEMPTS must be at least 1');
+    }
+
+    if (env.jobs.maxRuntimeMs < env.jobs.inactivityTimeoutMs) {
+      throw new Error(
+        'JOB_MAX_RUNTIME_MS must not be shorter than JOB_INACTIVITY_TIMEOUT_MS'
+      );
+    }
+
+    if (env.jobs.store === 'postgres' && !env.database.url) {
+      throw new Error(
+        'DATABASE_URL is required when JOB_STORE is set to "postgres"'
+      );
+    }
+
     console.log('✅ Environment configuration is valid');
 
     if (env.debug.logging) {
@@ -350,6 +459,7 @@ export function validateEnvironment(): void {
       );
       console.log(`   Max pages: ${env.files.maxPages}`);
       console.log(`   Allowed types: ${env.files.allowedTypes.join(', ')}`);
+      console.log(`   Job store: ${env.jobs.store}`);
     }
   } catch (error) {
     console.error('❌ Environment configuration error:');
@@ -372,4 +482,4 @@ export function validateEnvironment(): void {
 
 export type ClientEnvironmentConfig = typeof clientEnv;
 export type ServerEnvironmentConfig = typeof serverEnv;
-export type OcrProvider = typeof serverEnv.ocr.provider;
+export type OcrProviderName = typeof serverEnv.ocr.provider;
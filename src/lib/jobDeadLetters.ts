@@ -0,0 +1,215 @@
+/**
+ * Dead Letters - jobs that failed for good
+ *
+ * A job that runs out of retries becomes 'failed' and is cleaned up with
+ * everything else after JOB_RETENTION_MS, taking the evidence with it. The
+ * DeadLetterQueue keeps a copy of each such job for much longer: its input
+ * file, the options it was created with, every attempt and every error.
+ *
+ * Admins can look through them (/api/admin/dead-letters) and, once the
+ * underlying bug is fixed, requeue them as fresh jobs. A dead letter is
+ * kept (marked with the job it was requeued as) so nothing is requeued twice.
+ *
+ * Dead letters are plain Job objects, so any JobStore can hold them.
+ */
+
+import type { Job } from './jobManager';
+import { JobStore, MemoryJobStore, cloneJob } from './jobStore';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface DeadLetterListQuery {
+  errorCode?: string; // Only jobs whose last attempt failed with this code
+  includeRequeued?: boolean; // Also list dead letters that were requeued (default false)
+  limit?: number; // Page size (default 20, max 100)
+  cursor?: string; // From the previous page's nextCursor
+}
+
+export interface DeadLetterPage {
+  deadLetters: Job[]; // Most recently failed first
+  nextCursor: string | null; // null on the last page
+}
+
+export interface DeadLetterQueueOptions {
+  retentionMs?: number; // How long dead letters are kept (default 7 days)
+}
+
+// What a bulk requeue did with each dead letter
+export interface DeadLetterRequeueSummary {
+  requeued: { jobId: string; newJobId: string }[];
+  skipped: { jobId: string; error: string }[];
+}
+
+export const DEFAULT_DEAD_LETTER_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Thrown when a dead letter can't be found or requeued
+ */
+export class DeadLetterError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'ALREADY_REQUEUED' | 'INVALID_CURSOR'
+  ) {
+    super(message);
+    this.name = 'DeadLetterError';
+  }
+}
+
+// =============================================================================
+// QUEUE
+// =============================================================================
+
+export class DeadLetterQueue {
+  private readonly store: JobStore;
+  private readonly retentionMs: number;
+
+  constructor(
+    store: JobStore = new MemoryJobStore(),
+    options: DeadLetterQueueOptions = {}
+  ) {
+    this.store = store;
+    this.retentionMs = options.retentionMs ?? DEFAULT_DEAD_LETTER_RETENTION_MS;
+  }
+
+  get storeKind(): JobStore['kind'] {
+    return this.store.kind;
+  }
+
+  // Keep a copy of a job that failed for good
+  async add(job: Job): Promise<void> {
+    const letter = cloneJob(job);
+    letter.deadLetteredAt = new Date();
+    delete letter.leaseOwner;
+    delete letter.leaseExpiresAt;
+
+    await this.store.save(letter);
+    await this.purgeExpired();
+  }
+
+  // One dead letter with its full history, or undefined if unknown/expired
+  async get(jobId: string): Promise<Job | undefined> {
+    const letter = await this.store.load(jobId);
+    return letter && !this.isExpired(letter, Date.now()) ? letter : undefined;
+  }
+
+  // Dead letters, most recently failed first, a page at a time
+  async list(query: DeadLetterListQuery = {}): Promise<DeadLetterPage> {
+    await this.purgeExpired();
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, query.limit ?? DEFAULT_PAGE_SIZE)
+    );
+
+    // Step 1: Filter and sort (job ID breaks ties so the order is stable)
+    const letters = (await this.store.loadAll())
+      .filter(letter => query.includeRequeued || !letter.requeuedAs)
+      .filter(
+        letter => !query.errorCode || lastErrorCode(letter) === query.errorCode
+      )
+      .sort(
+        (a, b) => deadAt(b) - deadAt(a) || b.id.localeCompare(a.id) // Newest first
+      );
+
+    // Step 2: Skip everything up to and including the cursor
+    const after = query.cursor ? decodeCursor(query.cursor) : undefined;
+    const remaining = after
+      ? letters.filter(
+          letter =>
+            deadAt(letter) < after.at ||
+            (deadAt(letter) === after.at &&
+              letter.id.localeCompare(after.id) < 0)
+        )
+      : letters;
+
+    const page = remaining.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      deadLetters: page,
+      nextCursor:
+        remaining.length > limit && last
+          ? encodeCursor({ at: deadAt(last), id: last.id })
+          : null,
+    };
+  }
+
+  // IDs of every dead letter that hasn't been requeued yet
+  async pendingIds(): Promise<string[]> {
+    const now = Date.now();
+    return (await this.store.loadAll())
+      .filter(letter => !letter.requeuedAs && !this.isExpired(letter, now))
+      .sort((a, b) => deadAt(a) - deadAt(b))
+      .map(letter => letter.id);
+  }
+
+  // Record that a dead letter was put back in the queue as newJobId
+  async markRequeued(jobId: string, newJobId: string): Promise<void> {
+    const letter = await this.store.load(jobId);
+    if (!letter) return;
+
+    letter.requeuedAs = newJobId;
+    letter.requeuedAt = new Date();
+    await this.store.save(letter);
+  }
+
+  // Forget dead letters older than the retention period
+  async purgeExpired(now: number = Date.now()): Promise<number> {
+    const expired = (await this.store.loadAll()).filter(letter =>
+      this.isExpired(letter, now)
+    );
+    for (const letter of expired) {
+      await this.store.delete(letter.id);
+    }
+    return expired.length;
+  }
+
+  async close(): Promise<void> {
+    await this.store.close?.();
+  }
+
+  private isExpired(letter: Job, now: number): boolean {
+    return deadAt(letter) + this.retentionMs <= now;
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function deadAt(letter: Job): number {
+  return (
+    letter.deadLetteredAt ??
+    letter.completedAt ??
+    letter.createdAt
+  ).getTime();
+}
+
+/**
+ * Error code of the attempt that finally failed (e.g. 'RATE_LIMITED')
+ */
+export function lastErrorCode(job: Job): string | undefined {
+  const failed = (job.attemptLog ?? []).filter(
+    attempt => attempt.outcome === 'failed'
+  );
+  return failed[failed.length - 1]?.errorCode;
+}
+
+function encodeCursor(key: { at: number; id: string }): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { at: number; id: string } {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof parsed.at === 'number' && typeof parsed.id === 'string') {
+      return { at: parsed.at, id: parsed.id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new DeadLetterError('Invalid cursor', 'INVALID_CURSOR');
+}
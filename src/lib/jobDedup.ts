@@ -0,0 +1,69 @@
+/**
+ * Job Deduplication - don't OCR the same document twice
+ *
+ * A double-clicked upload button or a refresh mid-flow used to create a
+ * second job for the same file. Two things let JobManager spot repeats:
+ * - an idempotency key sent by the client (same key = same request)
+ * - a SHA-256 hash of the uploaded bytes (same bytes + same options = same work)
+ */
+
+import { createHash } from 'crypto';
+import type { Job, JobOcrOptions } from './jobManager';
+import type { JobStageName } from './jobStages';
+
+/**
+ * SHA-256 of a file's contents, as hex
+ */
+export function computeContentHash(data: Uint8Array | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * SHA-256 of a stream's contents, as hex - reads large uploads a chunk at a
+ * time instead of loading them into memory
+ */
+export async function computeStreamContentHash(
+  stream: ReadableStream<Uint8Array>
+): Promise<string> {
+  const hash = createHash('sha256');
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hash.update(value);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Two jobs do the same work when they read the same bytes with the same
+ * processing options. Priority and timeouts don't change the output, so
+ * they aren't part of the key.
+ */
+export function buildDedupeKey(
+  contentHash: string,
+  stages: JobStageName[],
+  ocr?: JobOcrOptions
+): string {
+  const key = `${contentHash}:${stages.join(',')}`;
+  return ocr ? `${key}:${stableStringify(ocr)}` : key;
+}
+
+/**
+ * The dedupe key of an existing job (undefined if it was created without a hash)
+ */
+export function dedupeKeyFor(job: Job): string | undefined {
+  if (!job.contentHash) {
+    return undefined;
+  }
+  return buildDedupeKey(
+    job.contentHash,
+    (job.stages ?? []).map(stage => stage.name),
+    job.ocr
+  );
+}
+
+// JSON with sorted keys, so { a, b } and { b, a } give the same key
+function stableStringify(value: object): string {
+  return JSON.stringify(value, Object.keys(value).sort());
+}
@@ -0,0 +1,150 @@
+/**
+ * Job Errors - deciding whether a failure is worth retrying
+ *
+ * Not every failure is the end of a job. A Mistral 429, a dropped
+ * connection or a storage hiccup will probably work a few seconds later,
+ * while a corrupt PDF or a rejected API key never will. This file gives
+ * OCR code a way to say which is which (JobError), a best-effort classifier
+ * for errors thrown by libraries, and the backoff schedule between attempts.
+ */
+
+// =============================================================================
+// ERROR CLASS
+// =============================================================================
+
+export interface JobErrorOptions {
+  retryable: boolean; // Could the same work succeed if we try again?
+  code?: string; // Short machine-readable reason, e.g. 'RATE_LIMITED'
+  provider?: string; // OCR provider or service that failed
+  retryAfterMs?: number; // Server-suggested wait before the next attempt
+  cause?: unknown; // The original error, if this wraps one
+}
+
+/**
+ * Error thrown by job handlers when they know how the failure should be treated
+ */
+export class JobError extends Error {
+  readonly retryable: boolean;
+  readonly code: string;
+  readonly provider?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: JobErrorOptions) {
+    super(message, { cause: options.cause });
+    this.name = 'JobError';
+    this.retryable = options.retryable;
+    this.code = options.code ?? (options.retryable ? 'TRANSIENT' : 'FATAL');
+    this.provider = options.provider;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Thrown by JobManager.createJob once the server has started shutting down
+ */
+export class JobIntakeClosedError extends Error {
+  readonly code = 'SHUTTING_DOWN';
+
+  constructor(message = 'Server is shutting down and not accepting new jobs') {
+    super(message);
+    this.name = 'JobIntakeClosedError';
+  }
+}
+
+// =============================================================================
+// CLASSIFICATION
+// =============================================================================
+
+export interface ClassifiedJobError {
+  message: string;
+  code: string;
+  retryable: boolean;
+  provider?: string;
+  retryAfterMs?: number;
+}
+
+// Low-level network failures that usually go away on their own
+const TRANSIENT_NETWORK_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+];
+
+/**
+ * Work out whether an error is worth retrying.
+ * Anything we don't recognise is treated as fatal, so a real bug fails fast
+ * instead of burning through every attempt.
+ */
+export function classifyJobError(error: unknown): ClassifiedJobError {
+  if (error instanceof JobError) {
+    return {
+      message: error.message,
+      code: error.code,
+      retryable: error.retryable,
+      provider: error.provider,
+      retryAfterMs: error.retryAfterMs,
+    };
+  }
+
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === 'string'
+        ? error
+        : 'Unknown processing error';
+  const details = (error ?? {}) as {
+    name?: string;
+    code?: string;
+    status?: number | string;
+    statusCode?: number | string;
+  };
+
+  // HTTP-style errors (Mistral API, Supabase storage)
+  const status = Number(details.status ?? details.statusCode);
+  if (status === 429) {
+    return { message, code: 'RATE_LIMITED', retryable: true };
+  }
+  if (status >= 500 && status < 600) {
+    return { message, code: 'UPSTREAM_ERROR', retryable: true };
+  }
+  if (status >= 400 && status < 500) {
+    return { message, code: 'REQUEST_REJECTED', retryable: false };
+  }
+
+  // Network-level failures
+  if (details.code && TRANSIENT_NETWORK_CODES.includes(details.code)) {
+    return { message, code: 'NETWORK_ERROR', retryable: true };
+  }
+  if (details.name === 'TimeoutError') {
+    return { message, code: 'TIMEOUT', retryable: true };
+  }
+  if (details.name === 'StorageUnknownError' || message === 'fetch failed') {
+    return { message, code: 'NETWORK_ERROR', retryable: true };
+  }
+
+  return { message, code: 'FATAL', retryable: false };
+}
+
+// =============================================================================
+// BACKOFF
+// =============================================================================
+
+/**
+ * How long to wait before the next attempt: base, 2x base, 4x base...
+ * capped at maxDelayMs. A server's Retry-After wins if it asks for longer.
+ */
+export function computeRetryDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  retryAfterMs?: number
+): number {
+  const exponential = baseDelayMs * 2 ** Math.max(0, attempt - 1);
+  const delay = Math.min(exponential, maxDelayMs);
+  return Math.max(delay, retryAfterMs ?? 0);
+}
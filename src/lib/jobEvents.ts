@@ -0,0 +1,131 @@
+/**
+ * Job Lifecycle Events
+ *
+ * JobManager announces every meaningful change to a job through these events,
+ * so in-process code (and the /api/jobs/:id/events SSE route) can react the
+ * moment something happens instead of polling getJob over and over.
+ */
+
+import type { Job } from './jobManager';
+import type { JobStage } from './jobStages';
+
+// =============================================================================
+// EVENT TYPES
+// =============================================================================
+
+interface BaseJobEvent {
+  jobId: string;
+  timestamp: Date;
+}
+
+export interface JobCreatedEvent extends BaseJobEvent {
+  type: 'created';
+  job: Job;
+}
+
+export interface JobStatusChangedEvent extends BaseJobEvent {
+  type: 'status_changed';
+  job: Job;
+  previousStatus: Job['status'];
+}
+
+export interface JobProgressEvent extends BaseJobEvent {
+  type: 'progress';
+  job: Job;
+  progress: number;
+}
+
+export interface JobStageChangedEvent extends BaseJobEvent {
+  type: 'stage_changed';
+  job: Job;
+  stage: JobStage; // The stage that was just updated
+}
+
+// Sent on a document job each time one of its page jobs finishes
+export interface JobPageFinishedEvent extends BaseJobEvent {
+  type: 'page_finished';
+  job: Job; // The document job
+  page: {
+    jobId: string;
+    pageNumber: number;
+    status: 'done' | 'failed' | 'cancelled';
+    error?: string;
+  };
+}
+
+export interface JobFailedEvent extends BaseJobEvent {
+  type: 'failed';
+  job: Job;
+  error: string;
+}
+
+export interface JobCleanedUpEvent extends BaseJobEvent {
+  type: 'cleaned_up';
+}
+
+export type JobEvent =
+  | JobCreatedEvent
+  | JobStatusChangedEvent
+  | JobProgressEvent
+  | JobStageChangedEvent
+  | JobPageFinishedEvent
+  | JobFailedEvent
+  | JobCleanedUpEvent;
+
+export type JobEventType = JobEvent['type'];
+
+export type JobEventListener = (event: JobEvent) => void;
+
+export interface JobSubscriptionOptions {
+  jobId?: string; // Only receive events for this job
+  types?: JobEventType[]; // Only receive these event types
+}
+
+// =============================================================================
+// EVENT EMITTER
+// =============================================================================
+
+interface Subscription {
+  listener: JobEventListener;
+  options: JobSubscriptionOptions;
+}
+
+/**
+ * Tiny typed emitter for job events.
+ * A listener that throws is logged and skipped - one broken subscriber
+ * must never stop JobManager from updating a job.
+ */
+export class JobEventEmitter {
+  private subscriptions: Set<Subscription> = new Set();
+
+  // Register a listener and get back a function that removes it
+  subscribe(
+    listener: JobEventListener,
+    options: JobSubscriptionOptions = {}
+  ): () => void {
+    const subscription: Subscription = { listener, options };
+    this.subscriptions.add(subscription);
+
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  emit(event: JobEvent): void {
+    for (const { listener, options } of this.subscriptions) {
+      if (options.jobId && options.jobId !== event.jobId) continue;
+      if (options.types && !options.types.includes(event.type)) continue;
+
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`❌ Job event listener failed on ${event.type}:`, error);
+      }
+    }
+  }
+
+  // How many listeners are attached (useful for monitoring and tests)
+  get listenerCount(): number {
+    return this.subscriptions.size;
+  }
+}
@@ -1,27 +1,345 @@
 // Job Management System for OCR Processing
 // This tracks the status of OCR jobs through their lifecycle
 
+import {
+  JobEvent,
+  JobEventEmitter,
+  JobEventListener,
+  JobSubscriptionOptions,
+} from './jobEvents';
+import {
+  DeadLetterError,
+  DeadLetterListQuery,
+  DeadLetterPage,
+  DeadLetterQueue,
+  DeadLetterRequeueSummary,
+} from './jobDeadLetters';
+import { buildDedupeKey, dedupeKeyFor } from './jobDedup';
+import {
+  JobError,
+  JobIntakeClosedError,
+  classifyJobError,
+  computeRetryDelay,
+} from './jobErrors';
+import { JobMetrics, JobMetricsSnapshot } from './jobMetrics';
+import {
+  JobListPage,
+  JobListQuery,
+  JobOwner,
+  isSameOwner,
+  queryJobs,
+} from './jobQuery';
+import {
+  JobTransition,
+  JobTransitionError,
+  canTransition,
+  normalizeProgress,
+} from './jobStateMachine';
+import {
+  DEFAULT_MAX_INLINE_RESULT_BYTES,
+  JobResult,
+  JobResultRef,
+  JobResultStorage,
+  buildJobResult,
+  encodeJobResult,
+} from './jobResults';
+import {
+  DEFAULT_JOB_STAGES,
+  JobStage,
+  JobStageName,
+  JobStageUpdate,
+  computeStageProgress,
+  createJobStages,
+  finishJobStages,
+  resetJobStages,
+  updateJobStage,
+} from './jobStages';
+import { JobStore, MemoryJobStore, cloneJob, supportsLeases } from './jobStore';
+import type { OcrProviderName } from './env';
+import type { OcrOptions } from './ocr/provider';
+
+// How urgently a job should be picked up by the runner
+// (high = small interactive documents, low = large batch work)
+export type JobPriority = 'high' | 'normal' | 'low';
+
+// Lower number = picked up first
+const PRIORITY_ORDER: Record<JobPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+// One try at processing a job - kept so we can see why earlier tries failed
+export interface JobAttempt {
+  attempt: number; // 1 for the first try, 2 for the first retry...
+  startedAt: Date;
+  endedAt?: Date;
+  outcome: 'running' | 'succeeded' | 'failed' | 'cancelled';
+  provider?: string; // OCR provider used for this attempt
+  error?: string; // What went wrong (if it failed)
+  errorCode?: string; // Machine-readable reason, e.g. 'RATE_LIMITED'
+  retryable?: boolean; // Was the error considered worth retrying?
+}
+
 // First, let's define what a job looks like
 export interface Job {
   id: string; // Unique identifier like "job_123"
-  status: 'queued' | 'processing' | 'done' | 'failed'; // Current state
+  status: 'queued' | 'processing' | 'done' | 'failed' | 'cancelled'; // Current state
   filePath: string; // Path to the file being processed
+  priority: JobPriority; // Which queued jobs get picked up first
   createdAt: Date; // When this job was created
   progress: number; // 0-100, how complete is the job
   error?: string; // If failed, what went wrong?
+  startedAt?: Date; // When did processing start (if it did)
   completedAt?: Date; // When did it finish (if it did)
+  attempts: number; // How many times processing has started
+  maxAttempts: number; // Give up after this many attempts
+  attemptLog: JobAttempt[]; // History of every attempt, oldest first
+  nextAttemptAt?: Date; // Waiting for backoff - don't run before this time
+  cancelReason?: string; // Why the job was cancelled (if it was)
+  timeoutMs: number; // Fail if no progress is reported for this long
+  maxRuntimeMs: number; // Fail an attempt that runs this long, progress or not
+  retentionMs: number; // Keep the finished job around this long before cleanup
+  lastHeartbeatAt?: Date; // Last time the running attempt reported in
+  transitions: JobTransition[]; // Audit trail of every status change
+  stages: JobStage[]; // Pipeline steps (download, recognize...) with their own progress
+  parentId?: string; // Set on page jobs: the document job they belong to
+  pageNumber?: number; // Set on page jobs: which page (1-based) this job handles
+  childIds?: string[]; // Set on document jobs once they fan out into page jobs
+  failedPages?: number[]; // Pages that failed for good (document jobs only)
+  result?: JobResult; // OCR output, when small enough to keep on the job
+  resultRef?: JobResultRef; // Where the OCR output was stored when it wasn't
+  idempotencyKey?: string; // Client-supplied key - repeat requests get this job back
+  contentHash?: string; // SHA-256 of the file, used to spot duplicate work
+  reusedFrom?: string; // Job whose cached result this job was completed with
+  owner?: JobOwner; // Who created the job (guest session or signed-in user)
+  fileName?: string; // Original name of the uploaded file
+  mimeType?: string; // e.g. 'application/pdf'
+  pageCount?: number; // Pages in the document, once known
+  tags?: string[]; // Free-form labels for filtering
+  ocr?: JobOcrOptions; // Provider and options chosen when the job was started
+  leaseOwner?: string; // Worker currently holding the job (multi-instance only)
+  leaseExpiresAt?: Date; // Others may reclaim the job after this
+  requeuedFrom?: string; // Dead letter this job was requeued from
+  deadLetteredAt?: Date; // Dead-letter copies only: when the job failed for good
+  requeuedAs?: string; // Dead-letter copies only: the job it was requeued as
+  requeuedAt?: Date; // Dead-letter copies only: when it was requeued
+}
+
+// What transitionJob hands back: the updated job, or why it was refused
+export type JobTransitionResult =
+  | { ok: true; job: Job }
+  | { ok: false; error: JobTransitionError };
+
+// Extra details for a status change
+export interface TransitionOptions {
+  progress?: number; // New progress (0-100, clamped)
+  reason?: string; // Recorded in the transition history
+  error?: string; // Error message when moving to 'failed'
+}
+
+// Statuses a job never leaves - it only waits for cleanup
+export type TerminalJobStatus = 'done' | 'failed' | 'cancelled';
+const TERMINAL_STATUSES: Job['status'][] = ['done', 'failed', 'cancelled'];
+
+export function isTerminalStatus(
+  status: Job['status']
+): status is TerminalJobStatus {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+// Omit that works across each member of a union (plain Omit flattens it)
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+// Options for creating a single job
+/**
+ * How a job's document should be read: the OCR provider to try first and
+ * the options passed to every provider in the fallback chain
+ */
+export interface JobOcrOptions extends OcrOptions {
+  provider?: OcrProviderName; // Defaults to OCR_PROVIDER
+}
+
+export interface CreateJobOptions {
+  priority?: JobPriority; // Defaults to 'normal'
+  maxAttempts?: number; // Defaults to the manager's maxAttempts
+  timeoutMs?: number; // Defaults to the manager's inactivityTimeoutMs
+  maxRuntimeMs?: number; // Defaults to the manager's maxRuntimeMs
+  retentionMs?: number; // Defaults to the manager's retentionMs
+  stages?: JobStageName[]; // Pipeline steps to track (defaults to DEFAULT_JOB_STAGES)
+  parentId?: string; // Document job this page belongs to (set by fanOutJob)
+  pageNumber?: number; // Page this job handles (set by fanOutJob)
+  idempotencyKey?: string; // Same key as an existing job = return that job
+  contentHash?: string; // SHA-256 of the file (see computeContentHash)
+  owner?: JobOwner; // Who is creating the job
+  fileName?: string;
+  mimeType?: string;
+  pageCount?: number;
+  tags?: string[];
+  ocr?: JobOcrOptions;
+  requeuedFrom?: string; // Dead letter this job replaces (see requeueDeadLetter)
+}
+
+// Stages a single page goes through - the document job does the download
+const PAGE_STAGES: JobStageName[] = [
+  'rasterize',
+  'preprocess',
+  'recognize',
+  'normalize',
+];
+
+// Options for picking the next job to run
+export interface ClaimJobOptions {
+  priorities?: JobPriority[]; // Only consider jobs with these priorities
+}
+
+// Options for building a JobManager
+export interface JobManagerOptions {
+  store?: JobStore; // Where jobs are persisted (defaults to in-memory)
+  maxAttempts?: number; // Attempts per job before giving up (default 1 = no retries)
+  retryBaseDelayMs?: number; // Wait before the first retry (default 1s)
+  retryMaxDelayMs?: number; // Longest wait between retries (default 30s)
+  inactivityTimeoutMs?: number; // Time allowed between progress updates (default 2 min)
+  maxRuntimeMs?: number; // Hard cap on a single attempt (default 10 min)
+  retentionMs?: number; // Keep finished jobs this long (default 5 min)
+  resultStorage?: JobResultStorage; // Where large results go (kept inline if unset)
+  maxInlineResultBytes?: number; // Results above this size are offloaded (default 256 KB)
+  metricsWindowMs?: number; // How far back getMetrics() looks (default 15 min)
+  leaseMs?: number; // Claim jobs from a shared store under leases this long (off if unset)
+  workerId?: string; // Name this instance uses for its leases (random by default)
+  deadLetters?: DeadLetterQueue; // Where jobs that failed for good are kept (in-memory by default)
 }
 
-// Simple job manager using a Map (our "filing cabinet")
+// How many claimable jobs to look at per claimNextJobFromStore call
+const CLAIM_BATCH_SIZE = 50;
+
+// Job manager that keeps a Map (our "filing cabinet") as a fast cache
+// and writes every change through to a JobStore so jobs survive restarts
 export class JobManager {
   private jobs: Map<string, Job> = new Map();
-  private timeouts: Map<string, NodeJS.Timeout> = new Map(); // Track active timers
+  private timeouts: Map<string, NodeJS.Timeout> = new Map(); // Inactivity (heartbeat) timers
+  private runtimeTimers: Map<string, NodeJS.Timeout> = new Map(); // Hard runtime cap timers
   private cleanupTimers: Map<string, NodeJS.Timeout> = new Map(); // Track cleanup timers
-  private readonly defaultTimeoutMs = 2 * 60 * 1000; // 2 minutes in milliseconds
-  private readonly cleanupDelayMs = 5 * 60 * 1000; // Clean up completed jobs after 5 minutes
+  private readonly inactivityTimeoutMs: number;
+  private readonly maxRuntimeMs: number;
+  private readonly retentionMs: number;
+  private readonly store: JobStore;
+  private readonly maxAttempts: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly retryMaxDelayMs: number;
+  private pendingWrite: Promise<void> = Promise.resolve(); // Keeps store writes in order
+  private events = new JobEventEmitter(); // Lifecycle events for subscribers
+  private abortControllers: Map<string, AbortController> = new Map(); // One per running attempt
+  private readonly resultStorage?: JobResultStorage;
+  private readonly maxInlineResultBytes: number;
+  private readonly metrics: JobMetrics; // Rolling timings of finished jobs
+  private acceptingJobs = true; // Turned off when the server starts shutting down
+  private readonly leaseMs?: number;
+  readonly workerId: string;
+  private heldLeases: Set<string> = new Set(); // Jobs this instance has claimed from the store
+  private leaseTimers: Map<string, NodeJS.Timeout> = new Map(); // Lease renewal intervals
+  private readonly deadLetters: DeadLetterQueue;
+
+  constructor(options: JobManagerOptions = {}) {
+    this.store = options.store ?? new MemoryJobStore();
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 1);
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? 30 * 1000;
+    this.inactivityTimeoutMs = options.inactivityTimeoutMs ?? 2 * 60 * 1000; // 2 minutes
+    this.maxRuntimeMs = options.maxRuntimeMs ?? 10 * 60 * 1000; // 10 minutes
+    this.retentionMs = options.retentionMs ?? 5 * 60 * 1000; // 5 minutes
+    this.resultStorage = options.resultStorage;
+    this.maxInlineResultBytes =
+      options.maxInlineResultBytes ?? DEFAULT_MAX_INLINE_RESULT_BYTES;
+    this.metrics = new JobMetrics({ windowMs: options.metricsWindowMs });
+    this.leaseMs = options.leaseMs;
+    this.deadLetters = options.deadLetters ?? new DeadLetterQueue();
+    this.workerId =
+      options.workerId ?? `worker_${crypto.randomUUID().slice(0, 8)}`;
+  }
+
+  // Are jobs claimed through store leases? Only when asked for and the
+  // store can hand them out.
+  get usesLeases(): boolean {
+    return this.leaseMs !== undefined && supportsLeases(this.store);
+  }
+
+  // Load jobs saved by a previous process and restart their timers
+  async hydrate(): Promise<number> {
+    const storedJobs = await this.store.loadAll();
+    const now = Date.now();
+
+    for (const job of storedJobs) {
+      this.jobs.set(job.id, job);
+
+      // Nothing here is running a job the last process left processing, so
+      // it goes back in the queue for the runner to pick straight up,
+      // without using up a retry. With leases, running jobs belong to
+      // whichever instance holds them - an abandoned one is reclaimed once
+      // its lease runs out instead.
+      if (
+        job.status === 'processing' &&
+        !isWaitingOnPages(job) &&
+        !this.usesLeases
+      ) {
+        const reason = 'Interrupted by server restart';
+        this.finishAttempt(job, 'cancelled', {
+          message: reason,
+          code: 'RESTART',
+          retryable: true,
+        });
+        delete job.leaseOwner;
+        delete job.leaseExpiresAt;
+        this.transitionJob(job.id, 'queued', { progress: 0, reason });
+      } else if (isTerminalStatus(job.status) && !job.parentId) {
+        // Keep the original cleanup schedule instead of restarting it
+        // (page jobs are cleaned up together with their document)
+        const completedAt = (job.completedAt ?? job.createdAt).getTime();
+        const remainingMs = this.retentionFor(job) - (now - completedAt);
+        this.scheduleJobCleanup(job.id, remainingMs);
+      }
+    }
+
+    return storedJobs.length;
+  }
+
+  // Wait until every change made so far has reached the store
+  async flush(): Promise<void> {
+    await this.pendingWrite;
+  }
+
+  // Listen for job lifecycle events; returns a function that unsubscribes
+  subscribe(
+    listener: JobEventListener,
+    options?: JobSubscriptionOptions
+  ): () => void {
+    return this.events.subscribe(listener, options);
+  }
+
+  // Create a new job and put it in our filing cabinet.
+  // Repeat requests don't start new work: a known idempotency key, or the
+  // same file bytes and options as a queued, running or finished job, hand
+  // back the existing job (or a new job completed with its cached result).
+  createJob(filePath: string, options: CreateJobOptions = {}): string {
+    // Page jobs of a running document are still allowed while draining -
+    // they are saved and picked up again after the restart
+    if (!this.acceptingJobs && !options.parentId) {
+      throw new JobIntakeClosedError();
+    }
+
+    // Step 0: Have we already seen this request?
+    const duplicate = this.findDuplicateJob(options);
+    const cached =
+      duplicate?.matchedBy === 'content' && duplicate.job.status === 'done'
+        ? duplicate.job.result
+        : undefined;
+    if (duplicate && !cached) {
+      console.log(`♻️ Reusing job ${duplicate.job.id} for repeat request`);
+      return duplicate.job.id;
+    }
 
-  // Create a new job and put it in our filing cabinet
-  createJob(filePath: string): string {
     // Step 1: Generate unique ID using crypto for guaranteed uniqueness
     const jobId = `job_${crypto.randomUUID()}`;
 
@@ -30,130 +348,1195 @@ export class JobManager {
       id: jobId,
       status: 'queued', // All new jobs start as queued
       filePath: filePath, // The file path passed in
+      priority: options.priority ?? 'normal',
       createdAt: new Date(), // Right now!
       progress: 0, // Starting at 0%
+      attempts: 0, // Not started yet
+      maxAttempts: Math.max(1, options.maxAttempts ?? this.maxAttempts),
+      attemptLog: [],
+      timeoutMs: options.timeoutMs ?? this.inactivityTimeoutMs,
+      maxRuntimeMs: options.maxRuntimeMs ?? this.maxRuntimeMs,
+      retentionMs: options.retentionMs ?? this.retentionMs,
+      transitions: [],
+      stages: createJobStages(options.stages),
+      parentId: options.parentId,
+      pageNumber: options.pageNumber,
+      idempotencyKey: options.idempotencyKey,
+      contentHash: options.contentHash,
+      owner: options.owner,
+      fileName: options.fileName,
+      mimeType: options.mimeType,
+      pageCount: options.pageCount,
+      tags: options.tags,
+      ocr: options.ocr,
+      requeuedFrom: options.requeuedFrom,
       // error and completedAt are optional, so we don't set them
     };
+    job.transitions.push({ from: null, to: 'queued', at: job.createdAt });
 
-    // Step 3: Store in our Map (filing cabinet)
+    // Step 3: Store in our Map (filing cabinet) and persist it
     this.jobs.set(jobId, job);
+    this.persist(job);
+
+    // The same file was already read - finish straight away with that result.
+    // This happens before 'created' goes out so the runner never claims it.
+    if (duplicate && cached) {
+      job.result = cloneJob(duplicate.job).result;
+      job.reusedFrom = duplicate.job.id;
+      this.transitionJob(jobId, 'done', {
+        progress: 100,
+        reason: `reused result of ${duplicate.job.id}`,
+      });
+      console.log(`♻️ Job ${jobId} reused the result of ${duplicate.job.id}`);
+    }
+    this.emit({ type: 'created', jobId, job: cloneJob(job) });
 
     // Step 4: Return the ID so caller knows which job was created
     return jobId;
   }
 
+  // Find a job that already does what these options ask for: first by
+  // idempotency key, then by content hash (skipping jobs that failed or
+  // were cancelled - those are worth trying again). Only the same owner's
+  // jobs count, so nobody is handed somebody else's job.
+  private findDuplicateJob(
+    options: CreateJobOptions
+  ): { job: Job; matchedBy: 'key' | 'content' } | undefined {
+    const jobs = Array.from(this.jobs.values()).filter(job =>
+      isSameOwner(job.owner, options.owner)
+    );
+
+    if (options.idempotencyKey) {
+      const match = jobs.find(
+        job => job.idempotencyKey === options.idempotencyKey
+      );
+      if (match) return { job: match, matchedBy: 'key' };
+    }
+
+    if (!options.contentHash || options.parentId) {
+      return undefined;
+    }
+    const dedupeKey = buildDedupeKey(
+      options.contentHash,
+      options.stages ?? DEFAULT_JOB_STAGES,
+      options.ocr
+    );
+    const matches = jobs
+      .filter(job => !job.parentId && dedupeKeyFor(job) === dedupeKey)
+      .filter(job => ['queued', 'processing', 'done'].includes(job.status));
+
+    // Prefer work that is still in flight, then the newest finished job
+    const match =
+      matches.find(job => job.status !== 'done') ??
+      matches.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+    return match ? { job: match, matchedBy: 'content' } : undefined;
+  }
+
   // Look up a job by its ID
   getJob(jobId: string): Job | undefined {
     // Simple! Just ask our Map for the job with this ID
     return this.jobs.get(jobId);
   }
 
-  // Update a job's status
+  // Like getJob, but falls back to the store. With several instances a
+  // request can land on one that has never seen the job, and a job another
+  // instance is running is re-read so its progress is up to date.
+  async findJob(jobId: string): Promise<Job | undefined> {
+    const cached = this.jobs.get(jobId);
+    if (cached && !this.isRunningElsewhere(cached)) {
+      return cached;
+    }
+
+    // Our own pending writes go first so we don't read back older data
+    await this.flush();
+    const stored = await this.store.load(jobId);
+    if (!stored) {
+      return cached;
+    }
+    this.rememberJob(stored);
+
+    // A document's pages come along so getPageJobs() works here too
+    for (const childId of stored.childIds ?? []) {
+      const child = this.jobs.get(childId);
+      if (!child || this.isRunningElsewhere(child)) {
+        const storedChild = await this.store.load(childId);
+        if (storedChild) this.rememberJob(storedChild);
+      }
+    }
+    return stored;
+  }
+
+  // Update a job's status (returns false if the change isn't allowed -
+  // use transitionJob to find out why)
   updateJobStatus(
     jobId: string,
     status: Job['status'],
     progress?: number
   ): boolean {
+    return this.transitionJob(jobId, status, { progress }).ok;
+  }
+
+  // Move a job to a new status, enforcing the state machine
+  transitionJob(
+    jobId: string,
+    status: Job['status'],
+    options: TransitionOptions = {}
+  ): JobTransitionResult {
     // Step 1: Find the job in our Map
     const job = this.jobs.get(jobId);
 
-    // Step 2: If job doesn't exist, return false
+    // Step 2: If job doesn't exist, refuse
     if (!job) {
-      return false;
+      return refuse('JOB_NOT_FOUND', `Job '${jobId}' not found`, jobId);
     }
 
-    // Step 3: Update the job's status
-    job.status = status;
+    // Step 3: Check the change is allowed and the progress makes sense
+    const previousStatus = job.status;
+    if (!canTransition(previousStatus, status)) {
+      return refuse(
+        'ILLEGAL_TRANSITION',
+        `Job '${jobId}' cannot move from '${previousStatus}' to '${status}'`,
+        jobId,
+        previousStatus,
+        status
+      );
+    }
+
+    let progress: number | undefined;
+    if (options.progress !== undefined) {
+      const checked = normalizeProgress(options.progress);
+      if (!checked.ok) {
+        return refuse(
+          'INVALID_PROGRESS',
+          `Progress must be a number between 0 and 100, got ${options.progress}`,
+          jobId,
+          previousStatus,
+          status
+        );
+      }
+      progress = checked.value;
+    }
 
-    // Step 4: Update progress if provided
+    // Step 4: Update the job's status and progress
+    const previousProgress = job.progress;
+    job.status = status;
     if (progress !== undefined) {
       job.progress = progress;
     }
+    if (status === 'failed' && options.error) {
+      job.error = options.error;
+    }
+    if (status !== previousStatus) {
+      job.transitions = job.transitions ?? [];
+      job.transitions.push({
+        from: previousStatus,
+        to: status,
+        at: new Date(),
+        reason: options.reason ?? options.error,
+      });
+    }
 
     // Step 5: Handle status-specific logic
     if (status === 'processing') {
-      // When a job starts processing, start the timeout timer
-      this.startJobTimeout(jobId);
-    } else if (status === 'done' || status === 'failed') {
-      // When a job completes (success or failure), clear the timeout
+      // Every processing update is a heartbeat: it restarts the inactivity
+      // timer, so a job that keeps reporting progress is never cut off early
+      job.startedAt = job.startedAt ?? new Date();
+      job.lastHeartbeatAt = new Date();
+      if (previousStatus !== 'processing') {
+        this.startAttempt(job);
+        this.startRuntimeCap(jobId, this.maxRuntimeFor(job));
+      }
+      if (this.heldLeases.has(jobId)) {
+        this.startLeaseRenewal(jobId);
+      }
+      // A document waiting on its pages isn't doing any work itself -
+      // each page job has its own timers
+      if (!isWaitingOnPages(job)) {
+        this.startJobTimeout(jobId, this.timeoutFor(job));
+      }
+    } else if (status === 'queued' && previousStatus === 'processing') {
+      // Going back to the queue for a retry - the next attempt starts over
+      resetJobStages(job.stages ?? []);
+    } else if (isTerminalStatus(status)) {
+      // When a job completes (success, failure or cancel), clear the timeout
       job.completedAt = new Date();
+      job.nextAttemptAt = undefined;
+      finishJobStages(job.stages ?? [], status);
+      this.finishAttempt(
+        job,
+        ATTEMPT_OUTCOMES[status],
+        options.error ? { message: options.error } : undefined
+      );
       this.clearJobTimeout(jobId);
-      // Schedule automatic cleanup after 5 minutes
-      this.scheduleJobCleanup(jobId);
+      // Stop any work still running for this job (no-op once it's done)
+      this.abortAttempt(jobId, status === 'done' ? undefined : job);
+      this.recordMetrics(job);
+      // A document that failed for good keeps its evidence in the dead
+      // letters (its failed pages are part of the copy's history)
+      if (status === 'failed' && !job.parentId) {
+        this.addDeadLetter(job);
+      }
+      // Schedule automatic cleanup once the retention period is over.
+      // Page jobs stay as long as their document so partial results remain
+      // available, and are cleaned up with it.
+      if (!job.parentId) {
+        this.scheduleJobCleanup(jobId, this.retentionFor(job));
+      }
     }
 
-    // Step 6: Save updated job back to Map (actually not needed since objects are references!)
+    // Leaving processing hands a leased job back to the shared queue, and a
+    // finished job is nobody's (so whoever was running it stops writing)
+    const releasing = status !== 'processing' && this.heldLeases.has(jobId);
+    if (releasing || isTerminalStatus(status)) {
+      delete job.leaseOwner;
+      delete job.leaseExpiresAt;
+      this.stopLeaseRenewal(jobId);
+    }
+
+    // Step 6: Save updated job back to Map and write it through to the store
     this.jobs.set(jobId, job);
+    this.persist(job);
+    if (releasing) {
+      this.heldLeases.delete(jobId);
+    }
+
+    // Step 7: Tell subscribers what changed
+    if (status !== previousStatus) {
+      this.emit({
+        type: 'status_changed',
+        jobId,
+        job: cloneJob(job),
+        previousStatus,
+      });
+    }
+    if (job.progress !== previousProgress) {
+      this.emit({
+        type: 'progress',
+        jobId,
+        job: cloneJob(job),
+        progress: job.progress,
+      });
+    }
+    if (status === 'failed') {
+      this.emit({
+        type: 'failed',
+        jobId,
+        job: cloneJob(job),
+        error: job.error ?? 'Job failed',
+      });
+    }
 
-    return true; // Success!
+    // Step 8: A finished page may complete its document
+    if (isTerminalStatus(status) && job.parentId) {
+      this.onPageFinished(job);
+    }
+
+    return { ok: true, job }; // Success!
+  }
+
+  // Pick the most urgent queued job and move it to processing.
+  // Jobs are ordered by priority first, then oldest first within a priority.
+  claimNextJob(options: ClaimJobOptions = {}): Job | undefined {
+    let next: Job | undefined;
+
+    for (const job of this.jobs.values()) {
+      if (job.status !== 'queued') continue;
+
+      // Jobs saved before priorities existed count as 'normal'
+      const priority = job.priority ?? 'normal';
+      if (options.priorities && !options.priorities.includes(priority)) {
+        continue;
+      }
+
+      // Still waiting out a retry backoff
+      if (job.nextAttemptAt && job.nextAttemptAt.getTime() > Date.now()) {
+        continue;
+      }
+
+      if (!next || compareQueuedJobs(job, next) < 0) {
+        next = job;
+      }
+    }
+
+    if (!next) {
+      return undefined;
+    }
+
+    next.nextAttemptAt = undefined;
+    this.transitionJob(next.id, 'processing', { reason: 'claimed by runner' });
+    return next;
+  }
+
+  // claimNextJob for several instances sharing one store: pick the most
+  // urgent claimable job in the store and take it under a lease. Only one
+  // instance can win a claim. A job whose lease ran out while processing
+  // (its instance died) is picked up again as a new attempt.
+  async claimNextJobFromStore(
+    options: ClaimJobOptions = {}
+  ): Promise<Job | undefined> {
+    const store = this.store;
+    if (this.leaseMs === undefined || !supportsLeases(store)) {
+      return this.claimNextJob(options);
+    }
+
+    // Step 1: Find candidates, in the order claimNextJob would pick them
+    const now = new Date();
+    const candidates = (await store.listClaimable(now, CLAIM_BATCH_SIZE))
+      .filter(job => {
+        const priority = job.priority ?? 'normal';
+        if (options.priorities && !options.priorities.includes(priority)) {
+          return false;
+        }
+        if (job.status === 'queued' && job.nextAttemptAt) {
+          if (job.nextAttemptAt.getTime() > now.getTime()) return false;
+        }
+        // Pages run on the instance that holds their document
+        return !job.parentId || this.heldLeases.has(job.parentId);
+      })
+      .sort(compareQueuedJobs);
+
+    // Step 2: Try them in turn until a claim sticks
+    for (const candidate of candidates) {
+      const claimed = await store.claim(
+        candidate.id,
+        this.workerId,
+        this.leaseMs
+      );
+      if (!claimed) continue; // Another instance got there first
+
+      const job = await this.startClaimedJob(claimed, candidate.leaseOwner);
+      if (job) return job;
+    }
+    return undefined;
+  }
+
+  // Is this job processing, and is it this instance doing the work? Without
+  // leases every processing job is local.
+  isRunningHere(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    return (
+      job?.status === 'processing' &&
+      (!this.usesLeases || this.heldLeases.has(jobId))
+    );
+  }
+
+  // Update one pipeline stage of a running job (e.g. recognize, page 4 of 12).
+  // The job's overall progress becomes the weighted roll-up of its stages,
+  // and like any progress update this counts as a heartbeat.
+  updateStage(
+    jobId: string,
+    stageName: JobStageName,
+    update: JobStageUpdate
+  ): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'processing' || !job.stages) {
+      return false;
+    }
+
+    const stage = updateJobStage(job.stages, stageName, update);
+    if (!stage) {
+      return false;
+    }
+
+    const result = this.transitionJob(jobId, 'processing', {
+      progress: computeStageProgress(job.stages),
+    });
+    this.emit({
+      type: 'stage_changed',
+      jobId,
+      job: cloneJob(job),
+      stage: { ...stage },
+    });
+    return result.ok;
+  }
+
+  // Split a running document job into one page job per page. The page jobs
+  // are queued straight away and run in parallel; the document finishes by
+  // itself once every page has finished. Calling it again returns the
+  // existing page jobs instead of creating duplicates.
+  fanOutJob(jobId: string, pageCount: number): string[] {
+    const parent = this.jobs.get(jobId);
+    if (!parent || parent.status !== 'processing' || parent.parentId) {
+      return [];
+    }
+    if (isWaitingOnPages(parent)) {
+      return [...parent.childIds!];
+    }
+
+    // Step 1: The document itself stops doing work, so stop its timers
+    parent.childIds = [];
+    parent.pageCount = pageCount;
+    this.clearJobTimeout(jobId);
+
+    // Step 2: Create one queued job per page
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const childId = this.createJob(parent.filePath, {
+        priority: parent.priority,
+        maxAttempts: parent.maxAttempts,
+        timeoutMs: parent.timeoutMs,
+        maxRuntimeMs: parent.maxRuntimeMs,
+        retentionMs: parent.retentionMs,
+        stages: PAGE_STAGES,
+        parentId: jobId,
+        pageNumber,
+        owner: parent.owner,
+        fileName: parent.fileName,
+        mimeType: parent.mimeType,
+        ocr: parent.ocr,
+      });
+      parent.childIds.push(childId);
+    }
+
+    // Step 3: Show "Recognizing page 0 of N" on the document
+    updateJobStage(parent.stages ?? [], 'recognize', {
+      current: 0,
+      total: pageCount,
+    });
+    this.transitionJob(jobId, 'processing', {
+      progress: computeStageProgress(parent.stages ?? []),
+      reason: `fanned out into ${pageCount} pages`,
+    });
+
+    console.log(`📄 Split job ${jobId} into ${pageCount} page jobs`);
+    return [...parent.childIds];
+  }
+
+  // The page jobs of a document, in page order. Pages that finished early
+  // can be read from here while the rest are still running.
+  getPageJobs(jobId: string): Job[] {
+    const parent = this.jobs.get(jobId);
+    return (parent?.childIds ?? [])
+      .map(childId => this.jobs.get(childId))
+      .filter((child): child is Job => child !== undefined)
+      .sort((a, b) => (a.pageNumber ?? 0) - (b.pageNumber ?? 0));
+  }
+
+  // Attach the OCR output to a running job. Large results are written to
+  // the result storage and the job only keeps a pointer to them.
+  async saveResult(jobId: string, result: JobResult): Promise<boolean> {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'processing') {
+      return false;
+    }
+
+    const { json, sizeBytes } = encodeJobResult(result);
+    if (this.resultStorage && sizeBytes > this.maxInlineResultBytes) {
+      job.resultRef = await this.resultStorage.save(jobId, json);
+      delete job.result;
+    } else {
+      job.result = result;
+      delete job.resultRef;
+    }
+
+    this.persist(job);
+    return true;
+  }
+
+  // Get a job's OCR output, wherever it is kept. For a document split into
+  // pages this is every page finished so far, so partial results are
+  // available before the whole document is done.
+  async getResult(jobId: string): Promise<JobResult | undefined> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return undefined;
+    }
+
+    if (isWaitingOnPages(job)) {
+      const pageResults = await Promise.all(
+        this.getPageJobs(jobId).map(page => this.getResult(page.id))
+      );
+      const pages = pageResults.flatMap(result => result?.pages ?? []);
+      return pages.length > 0 ? buildJobResult(pages) : undefined;
+    }
+
+    if (job.resultRef && this.resultStorage) {
+      return this.resultStorage.load(job.resultRef);
+    }
+    return job.result;
   }
 
   // Mark a job as failed with an error message
   failJob(jobId: string, errorMessage: string): boolean {
-    const job = this.jobs.get(jobId);
+    return this.transitionJob(jobId, 'failed', { error: errorMessage }).ok;
+  }
 
+  // Handle an error from a processing attempt: put the job back in the
+  // queue after a backoff if the error is retryable and attempts remain,
+  // otherwise fail it with a summary of every attempt.
+  retryOrFailJob(jobId: string, error: unknown): 'retrying' | 'failed' | false {
+    const job = this.jobs.get(jobId);
     if (!job) {
       return false;
     }
 
-    // Update job to failed status
-    job.status = 'failed';
-    job.error = errorMessage;
-    job.completedAt = new Date();
+    const classified = classifyJobError(error);
+    this.finishAttempt(job, 'failed', classified);
+
+    const attemptsLeft = countAttemptsUsed(job) < job.maxAttempts;
+    if (!classified.retryable || !attemptsLeft) {
+      this.failJob(jobId, summarizeAttempts(job));
+      return 'failed';
+    }
 
-    // Clear any timeout for this job since it's now complete
+    // Wait a little longer after each failure before trying again
+    const delayMs = computeRetryDelay(
+      job.attempts,
+      this.retryBaseDelayMs,
+      this.retryMaxDelayMs,
+      classified.retryAfterMs
+    );
+    job.nextAttemptAt = new Date(Date.now() + delayMs);
     this.clearJobTimeout(jobId);
+    this.abortAttempt(
+      jobId,
+      new JobError(classified.message, {
+        retryable: true,
+        code: classified.code,
+      })
+    );
+    this.transitionJob(jobId, 'queued', {
+      progress: 0,
+      reason: `retry after ${classified.code}`,
+    });
+
+    console.log(
+      `🔁 Retrying job ${jobId} in ${delayMs}ms (attempt ${job.attempts + 1} of ${job.maxAttempts})`
+    );
+    return 'retrying';
+  }
+
+  // Cancel a queued or running job. Running work is told to stop through
+  // the job's AbortSignal, and the job is cleaned up like any finished job.
+  cancelJob(jobId: string, reason = 'Cancelled by user'): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || isTerminalStatus(job.status)) {
+      return false;
+    }
+
+    job.cancelReason = reason;
+    const cancelled = this.transitionJob(jobId, 'cancelled', { reason }).ok;
+
+    // Cancelling a document cancels every page that hasn't finished yet
+    for (const childId of job.childIds ?? []) {
+      this.cancelJob(childId, reason);
+    }
+    return cancelled;
+  }
 
-    // Schedule automatic cleanup after 5 minutes
-    this.scheduleJobCleanup(jobId);
+  // The AbortSignal for a job's current attempt. OCR providers and storage
+  // downloads should pass it along so they stop when the job is cancelled
+  // or times out. Undefined when the job isn't running.
+  getAbortSignal(jobId: string): AbortSignal | undefined {
+    return this.abortControllers.get(jobId)?.signal;
+  }
+
+  // Record which OCR provider the current attempt is using
+  setAttemptProvider(jobId: string, provider: string): boolean {
+    const job = this.jobs.get(jobId);
+    const current = job?.attemptLog[job.attemptLog.length - 1];
+    if (!job || !current || current.outcome !== 'running') {
+      return false;
+    }
 
+    current.provider = provider;
+    this.persist(job);
     return true;
   }
 
-  // Private method to clear a job's timeout timer
+  // Private method to fan a finished page back in to its document: update
+  // the document's progress, announce the page, and finish the document
+  // once no pages are left
+  private onPageFinished(page: Job): void {
+    const parent = this.jobs.get(page.parentId!);
+    if (!parent || parent.status !== 'processing') {
+      return;
+    }
+
+    const pages = this.getPageJobs(parent.id);
+    const finished = pages.filter(child => isTerminalStatus(child.status));
+    updateJobStage(parent.stages ?? [], 'recognize', {
+      current: finished.length,
+      total: pages.length,
+    });
+    this.transitionJob(parent.id, 'processing', {
+      progress: computeStageProgress(parent.stages ?? []),
+    });
+    this.emit({
+      type: 'page_finished',
+      jobId: parent.id,
+      job: cloneJob(parent),
+      page: {
+        jobId: page.id,
+        pageNumber: page.pageNumber ?? 0,
+        status: page.status as TerminalJobStatus,
+        error: page.error,
+      },
+    });
+
+    if (finished.length < pages.length) {
+      return;
+    }
+
+    // Every page is finished - the document only fails if no page worked
+    const failed = pages.filter(child => child.status !== 'done');
+    parent.failedPages = failed.map(child => child.pageNumber ?? 0);
+    if (failed.length === pages.length) {
+      this.failJob(parent.id, summarizePages(failed));
+    } else {
+      this.transitionJob(parent.id, 'done', {
+        progress: 100,
+        reason:
+          failed.length > 0
+            ? `finished with ${failed.length} failed pages`
+            : 'all pages finished',
+      });
+    }
+  }
+
+  // Jobs that failed for good, most recent first (see jobDeadLetters.ts)
+  listDeadLetters(query?: DeadLetterListQuery): Promise<DeadLetterPage> {
+    return this.deadLetters.list(query);
+  }
+
+  // One dead letter with its inputs, options and error history
+  getDeadLetter(jobId: string): Promise<Job | undefined> {
+    return this.deadLetters.get(jobId);
+  }
+
+  // Put a dead letter back in the queue as a fresh job with the same file
+  // and options (and a fresh retry budget). Returns the new job's ID.
+  async requeueDeadLetter(jobId: string): Promise<string> {
+    const letter = await this.deadLetters.get(jobId);
+    if (!letter) {
+      throw new DeadLetterError(
+        `Dead letter '${jobId}' not found`,
+        'NOT_FOUND'
+      );
+    }
+    if (letter.requeuedAs) {
+      throw new DeadLetterError(
+        `Dead letter '${jobId}' was already requeued as '${letter.requeuedAs}'`,
+        'ALREADY_REQUEUED'
+      );
+    }
+
+    // The idempotency key is left out - it would just hand back the failed job
+    const stages = (letter.stages ?? []).map(stage => stage.name);
+    const newJobId = this.createJob(letter.filePath, {
+      priority: letter.priority,
+      maxAttempts: letter.maxAttempts,
+      timeoutMs: letter.timeoutMs,
+      maxRuntimeMs: letter.maxRuntimeMs,
+      retentionMs: letter.retentionMs,
+      stages: stages.length > 0 ? stages : undefined,
+      contentHash: letter.contentHash,
+      owner: letter.owner,
+      fileName: letter.fileName,
+      mimeType: letter.mimeType,
+      pageCount: letter.pageCount,
+      tags: letter.tags,
+      ocr: letter.ocr,
+      requeuedFrom: jobId,
+    });
+
+    await this.deadLetters.markRequeued(jobId, newJobId);
+    console.log(`🔁 Requeued dead letter ${jobId} as ${newJobId}`);
+    return newJobId;
+  }
+
+  // Requeue several dead letters at once (every pending one if no IDs are
+  // given). One that can't be requeued doesn't stop the rest.
+  async requeueDeadLetters(
+    jobIds?: string[]
+  ): Promise<DeadLetterRequeueSummary> {
+    const summary: DeadLetterRequeueSummary = { requeued: [], skipped: [] };
+
+    for (const jobId of jobIds ?? (await this.deadLetters.pendingIds())) {
+      try {
+        const newJobId = await this.requeueDeadLetter(jobId);
+        summary.requeued.push({ jobId, newJobId });
+      } catch (error) {
+        summary.skipped.push({
+          jobId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return summary;
+  }
+
+  // Refuse new jobs from now on (createJob throws JobIntakeClosedError)
+  stopAccepting(): void {
+    this.acceptingJobs = false;
+  }
+
+  get isAcceptingJobs(): boolean {
+    return this.acceptingJobs;
+  }
+
+  // Put every job that is still running back in the queue, e.g. because the
+  // server is going down. Their work is aborted, and the interrupted attempt
+  // is logged as cancelled so it doesn't count as a failure.
+  requeueInterruptedJobs(reason = 'Interrupted by server shutdown'): number {
+    let requeued = 0;
+
+    for (const job of this.jobs.values()) {
+      // Documents waiting on their pages resume by themselves once the
+      // pages (which are requeued here too) finish after the restart
+      if (job.status !== 'processing' || isWaitingOnPages(job)) continue;
+
+      this.finishAttempt(job, 'cancelled', {
+        message: reason,
+        code: 'SHUTDOWN',
+        retryable: true,
+      });
+      this.clearJobTimeout(job.id);
+      this.abortAttempt(
+        job.id,
+        new JobError(reason, { retryable: true, code: 'SHUTDOWN' })
+      );
+      this.transitionJob(job.id, 'queued', { progress: 0, reason });
+      requeued++;
+    }
+
+    return requeued;
+  }
+
+  // Stop every timer and wait for pending writes to reach the store.
+  // Nothing is lost: hydrate() restarts the timers on the next boot.
+  async shutdown(): Promise<void> {
+    for (const timers of [
+      this.timeouts,
+      this.runtimeTimers,
+      this.cleanupTimers,
+      this.leaseTimers,
+    ]) {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    }
+
+    await this.flush();
+    await this.store.close?.();
+    await this.deadLetters.close();
+  }
+
+  // Private method to add a finished document to the rolling metrics.
+  // Page jobs are counted through their document, and jobs completed from
+  // a cached result did no work worth measuring.
+  private recordMetrics(job: Job): void {
+    if (job.parentId || job.reusedFrom || !job.completedAt) {
+      return;
+    }
+
+    const finishedAt = job.completedAt.getTime();
+    const startedAt = job.startedAt?.getTime();
+    this.metrics.record({
+      finishedAt,
+      outcome: job.status as TerminalJobStatus,
+      provider: this.providerFor(job),
+      fileType: fileTypeFor(job),
+      pages: job.pageCount ?? job.result?.pages.length ?? 1,
+      queueWaitMs:
+        startedAt !== undefined
+          ? startedAt - job.createdAt.getTime()
+          : undefined,
+      processingMs:
+        startedAt !== undefined ? finishedAt - startedAt : undefined,
+    });
+  }
+
+  // Private method to name the OCR provider a job used ('mixed' when its
+  // pages were read by different providers)
+  private providerFor(job: Job): string {
+    const attempts = [job, ...this.getPageJobs(job.id)].flatMap(
+      item => item.attemptLog ?? []
+    );
+    const providers = new Set(
+      attempts
+        .map(attempt => attempt.provider)
+        .filter((provider): provider is string => !!provider)
+    );
+    job.result?.providers.forEach(provider => providers.add(provider));
+
+    if (providers.size === 0) return 'unknown';
+    return providers.size === 1 ? [...providers][0] : 'mixed';
+  }
+
+  // Private method to take over a job we just won the lease on and start
+  // running it. Returns undefined if the job turned out to be out of attempts.
+  private async startClaimedJob(
+    job: Job,
+    previousOwner?: string
+  ): Promise<Job | undefined> {
+    this.clearJobTimeout(job.id);
+    this.jobs.set(job.id, job);
+    this.heldLeases.add(job.id);
+
+    // A document's pages run here too, so make sure we know them
+    for (const childId of job.childIds ?? []) {
+      const child = await this.store.load(childId);
+      if (child) this.rememberJob(child);
+    }
+
+    // Step 1: The last holder stopped renewing mid-attempt, so that attempt
+    // failed. Crashing workers use up the retry budget like any failure.
+    if (job.status === 'processing') {
+      this.finishAttempt(job, 'failed', {
+        message: `Lease expired while running on ${previousOwner ?? 'another worker'}`,
+        code: 'LEASE_EXPIRED',
+        retryable: true,
+      });
+      if (countAttemptsUsed(job) >= job.maxAttempts) {
+        this.failJob(job.id, summarizeAttempts(job));
+        return undefined;
+      }
+
+      // Back to queued by hand - transitionJob would give up the lease
+      job.status = 'queued';
+      job.transitions.push({
+        from: 'processing',
+        to: 'queued',
+        at: new Date(),
+        reason: 'lease expired',
+      });
+      resetJobStages(job.stages ?? []);
+    }
+
+    // Step 2: Start a fresh attempt like claimNextJob does
+    job.nextAttemptAt = undefined;
+    this.transitionJob(job.id, 'processing', { reason: 'claimed by runner' });
+    return job;
+  }
+
+  // Private method to keep a held lease alive while the job runs
+  private startLeaseRenewal(jobId: string): void {
+    if (this.leaseTimers.has(jobId) || this.leaseMs === undefined) {
+      return;
+    }
+
+    // Renew well before expiry so one slow round trip doesn't lose it
+    const renewTimerId = setInterval(
+      () => {
+        void this.renewLease(jobId);
+      },
+      Math.max(1, Math.floor(this.leaseMs / 3))
+    );
+    this.leaseTimers.set(jobId, renewTimerId);
+  }
+
+  private stopLeaseRenewal(jobId: string): void {
+    const renewTimerId = this.leaseTimers.get(jobId);
+    if (renewTimerId) {
+      clearInterval(renewTimerId);
+      this.leaseTimers.delete(jobId);
+    }
+  }
+
+  // Private method to extend a lease. If the store says no, the job was
+  // finished or taken over elsewhere and our work on it has to stop.
+  private async renewLease(jobId: string): Promise<void> {
+    const store = this.store;
+    if (
+      this.leaseMs === undefined ||
+      !supportsLeases(store) ||
+      !this.heldLeases.has(jobId)
+    ) {
+      return;
+    }
+
+    try {
+      const renewed = await store.renew(jobId, this.workerId, this.leaseMs);
+      if (!this.heldLeases.has(jobId)) {
+        return; // Released while the renewal was in flight
+      }
+
+      const job = this.jobs.get(jobId);
+      if (renewed && job) {
+        job.leaseExpiresAt = new Date(Date.now() + this.leaseMs);
+      } else {
+        await this.loseLease(jobId);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to renew lease for job ${jobId}:`, error);
+    }
+  }
+
+  // Private method to stop running a job we no longer hold, and pick up
+  // whatever the store now says about it
+  private async loseLease(jobId: string): Promise<void> {
+    console.log(`🛑 Lost the lease on job ${jobId}, stopping local work`);
+    this.stopLeaseRenewal(jobId);
+    this.heldLeases.delete(jobId);
+    this.clearJobTimeout(jobId);
+    this.abortAttempt(
+      jobId,
+      new JobError('Job was finished or taken over by another worker', {
+        retryable: false,
+        code: 'LEASE_LOST',
+      })
+    );
+
+    const stored = await this.store.load(jobId);
+    if (stored) {
+      this.rememberJob(stored);
+    } else {
+      this.jobs.delete(jobId);
+    }
+  }
+
+  // Private method to keep a copy of a job loaded from the store. Finished
+  // jobs get the rest of their retention, like in hydrate().
+  private rememberJob(job: Job): void {
+    this.jobs.set(job.id, job);
+    if (
+      isTerminalStatus(job.status) &&
+      !job.parentId &&
+      !this.cleanupTimers.has(job.id)
+    ) {
+      const completedAt = (job.completedAt ?? job.createdAt).getTime();
+      this.scheduleJobCleanup(
+        job.id,
+        this.retentionFor(job) - (Date.now() - completedAt)
+      );
+    }
+  }
+
+  // Private method to tell whether our copy of a job may be out of date
+  // because another instance is working on it
+  private isRunningElsewhere(job: Job): boolean {
+    return (
+      this.usesLeases &&
+      !isTerminalStatus(job.status) &&
+      !this.heldLeases.has(job.id)
+    );
+  }
+
+  // Private method to open a new entry in the attempt log
+  private startAttempt(job: Job): void {
+    job.attempts = (job.attempts ?? 0) + 1;
+    job.attemptLog = job.attemptLog ?? [];
+    job.attemptLog.push({
+      attempt: job.attempts,
+      startedAt: new Date(),
+      outcome: 'running',
+    });
+    this.abortControllers.set(job.id, new AbortController());
+  }
+
+  // Private method to signal the running attempt to stop and forget its
+  // controller. Pass nothing to just release it (e.g. after success).
+  private abortAttempt(jobId: string, reason?: Job | JobError): void {
+    const controller = this.abortControllers.get(jobId);
+    if (!controller) {
+      return;
+    }
+    this.abortControllers.delete(jobId);
+
+    if (!reason) {
+      return;
+    }
+    if (reason instanceof JobError) {
+      controller.abort(reason);
+    } else if (reason.status === 'cancelled') {
+      controller.abort(
+        new JobError(reason.cancelReason ?? 'Job was cancelled', {
+          retryable: false,
+          code: 'CANCELLED',
+        })
+      );
+    } else {
+      controller.abort(
+        new JobError(reason.error ?? 'Job failed', { retryable: false })
+      );
+    }
+  }
+
+  // Private method to close the running attempt (if there is one)
+  private finishAttempt(
+    job: Job,
+    outcome: Exclude<JobAttempt['outcome'], 'running'>,
+    error?: {
+      message: string;
+      code?: string;
+      retryable?: boolean;
+      provider?: string;
+    }
+  ): void {
+    const current = job.attemptLog?.[job.attemptLog.length - 1];
+    if (!current || current.outcome !== 'running') {
+      return;
+    }
+
+    current.outcome = outcome;
+    current.endedAt = new Date();
+    if (error) {
+      current.error = error.message;
+      current.errorCode = error.code;
+      current.retryable = error.retryable;
+      current.provider = current.provider ?? error.provider;
+    }
+  }
+
+  // Private method to stamp and send an event to subscribers
+  private emit(event: DistributiveOmit<JobEvent, 'timestamp'>): void {
+    this.events.emit({ ...event, timestamp: new Date() } as JobEvent);
+  }
+
+  // Private method to write a job (or a deletion) through to the store.
+  // Writes are chained so they reach the store in the order they happened,
+  // and a failed write is logged rather than breaking the caller.
+  // Writes for a job we hold the lease on are fenced, so they are dropped
+  // once another instance has taken it over.
+  private persist(job: Job): void {
+    const snapshot = cloneJob(job);
+    const options = this.heldLeases.has(job.id)
+      ? { fence: this.workerId }
+      : undefined;
+    this.enqueueWrite(() => this.store.save(snapshot, options), job.id);
+  }
+
+  private addDeadLetter(job: Job): void {
+    const snapshot = cloneJob(job);
+    this.enqueueWrite(() => this.deadLetters.add(snapshot), job.id);
+  }
+
+  private persistDelete(jobId: string): void {
+    this.enqueueWrite(() => this.store.delete(jobId), jobId);
+  }
+
+  private enqueueWrite(write: () => Promise<void>, jobId: string): void {
+    this.pendingWrite = this.pendingWrite.then(write).catch(error => {
+      console.error(`❌ Failed to persist job ${jobId}:`, error);
+    });
+  }
+
+  // Private helpers for per-job limits (jobs saved before these fields
+  // existed fall back to the manager's defaults)
+  private timeoutFor(job: Job): number {
+    return job.timeoutMs ?? this.inactivityTimeoutMs;
+  }
+
+  private maxRuntimeFor(job: Job): number {
+    return job.maxRuntimeMs ?? this.maxRuntimeMs;
+  }
+
+  private retentionFor(job: Job): number {
+    return job.retentionMs ?? this.retentionMs;
+  }
+
+  // Private method to clear a job's inactivity and runtime timers
   private clearJobTimeout(jobId: string): void {
     const timeoutId = this.timeouts.get(jobId);
     if (timeoutId) {
       clearTimeout(timeoutId);
       this.timeouts.delete(jobId);
     }
+
+    const runtimeTimerId = this.runtimeTimers.get(jobId);
+    if (runtimeTimerId) {
+      clearTimeout(runtimeTimerId);
+      this.runtimeTimers.delete(jobId);
+    }
   }
 
-  // Private method to start a timeout timer for a job
-  private startJobTimeout(jobId: string): void {
-    // Clear any existing timeout first
-    this.clearJobTimeout(jobId);
+  // Private method to (re)start the inactivity timer for a job
+  private startJobTimeout(jobId: string, delayMs: number): void {
+    // Clear any existing inactivity timer first
+    const existing = this.timeouts.get(jobId);
+    if (existing) {
+      clearTimeout(existing);
+    }
 
     // Set a new timeout
-    const timeoutId = setTimeout(() => {
-      // This runs after 2 minutes if the job hasn't completed
-      this.failJob(
-        jobId,
-        `Job timed out after ${this.defaultTimeoutMs / 1000} seconds`
-      );
-    }, this.defaultTimeoutMs);
+    const timeoutId = setTimeout(
+      () => {
+        // This runs if the job hasn't reported progress in time.
+        // A stalled job is worth another try if it has attempts left.
+        const job = this.jobs.get(jobId);
+        const seconds = job ? this.timeoutFor(job) / 1000 : 0;
+        this.retryOrFailJob(
+          jobId,
+          new JobError(`Job timed out after ${seconds} seconds`, {
+            retryable: true,
+            code: 'TIMEOUT',
+          })
+        );
+      },
+      Math.max(0, delayMs)
+    );
 
     // Store the timeout ID so we can cancel it later
     this.timeouts.set(jobId, timeoutId);
   }
 
+  // Private method to start the hard runtime cap for the current attempt.
+  // Unlike the inactivity timer, progress updates don't push this back.
+  private startRuntimeCap(jobId: string, delayMs: number): void {
+    const existing = this.runtimeTimers.get(jobId);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    const runtimeTimerId = setTimeout(
+      () => {
+        // Running this long again would most likely hit the cap again
+        const job = this.jobs.get(jobId);
+        const seconds = job ? this.maxRuntimeFor(job) / 1000 : 0;
+        this.retryOrFailJob(
+          jobId,
+          new JobError(`Job exceeded maximum runtime of ${seconds} seconds`, {
+            retryable: false,
+            code: 'MAX_RUNTIME_EXCEEDED',
+          })
+        );
+      },
+      Math.max(0, delayMs)
+    );
+
+    this.runtimeTimers.set(jobId, runtimeTimerId);
+  }
+
   // Private method to schedule job cleanup after completion
-  private scheduleJobCleanup(jobId: string): void {
+  private scheduleJobCleanup(jobId: string, delayMs: number): void {
     // Clear any existing cleanup timer first
     this.clearJobCleanup(jobId);
 
     // Schedule cleanup after the delay
-    const cleanupTimerId = setTimeout(() => {
-      // Remove the job from memory
-      this.jobs.delete(jobId);
-      this.cleanupTimers.delete(jobId);
-      console.log(`🧹 Cleaned up completed job: ${jobId}`);
-    }, this.cleanupDelayMs);
+    const cleanupTimerId = setTimeout(
+      () => {
+        // Remove the job (and its page jobs) from memory and from the store
+        this.cleanupTimers.delete(jobId);
+        this.removeJob(jobId);
+        console.log(`🧹 Cleaned up completed job: ${jobId}`);
+      },
+      Math.max(0, delayMs)
+    );
 
     // Store the cleanup timer ID
     this.cleanupTimers.set(jobId, cleanupTimerId);
   }
 
+  // Private method to forget a job and its page jobs everywhere
+  private removeJob(jobId: string): void {
+    const job = this.jobs.get(jobId);
+    for (const childId of job?.childIds ?? []) {
+      this.clearJobTimeout(childId);
+      this.removeJob(childId);
+    }
+
+    // Offloaded results go too - nothing points at them any more
+    if (job?.resultRef && this.resultStorage) {
+      this.resultStorage.delete(job.resultRef).catch(error => {
+        console.error(`❌ Failed to delete result for job ${jobId}:`, error);
+      });
+    }
+
+    this.jobs.delete(jobId);
+    this.persistDelete(jobId);
+    this.emit({ type: 'cleaned_up', jobId });
+  }
+
   // Private method to clear a job's cleanup timer
   private clearJobCleanup(jobId: string): void {
     const cleanupTimerId = this.cleanupTimers.get(jobId);
@@ -170,8 +1553,16 @@ export class JobManager {
     processing: number;
     done: number;
     failed: number;
+    cancelled: number;
   } {
-    const counts = { total: 0, queued: 0, processing: 0, done: 0, failed: 0 };
+    const counts = {
+      total: 0,
+      queued: 0,
+      processing: 0,
+      done: 0,
+      failed: 0,
+      cancelled: 0,
+    };
 
     for (const job of this.jobs.values()) {
       counts.total++;
@@ -181,6 +1572,16 @@ export class JobManager {
     return counts;
   }
 
+  // One page of an owner's jobs, filtered and sorted (see jobQuery.ts)
+  listJobs(query: JobListQuery): JobListPage {
+    return queryJobs(this.getAllJobs(), query);
+  }
+
+  // Rolling queue/processing timings and success rates (see jobMetrics.ts)
+  getMetrics(): JobMetricsSnapshot {
+    return this.metrics.snapshot();
+  }
+
   // Get all jobs (useful for debugging/monitoring)
   getAllJobs(): Job[] {
     return Array.from(this.jobs.values());
@@ -194,13 +1595,94 @@ export class JobManager {
     }
 
     // Only cleanup completed jobs
-    if (job.status === 'done' || job.status === 'failed') {
-      this.jobs.delete(jobId);
+    if (isTerminalStatus(job.status)) {
       this.clearJobCleanup(jobId);
       this.clearJobTimeout(jobId);
+      this.removeJob(jobId);
       return true;
     }
 
     return false;
   }
 }
+
+// Build a refused transition result
+function refuse(
+  code: JobTransitionError['code'],
+  message: string,
+  jobId: string,
+  from?: Job['status'],
+  to?: Job['status']
+): JobTransitionResult {
+  return {
+    ok: false,
+    error: new JobTransitionError(code, message, jobId, from, to),
+  };
+}
+
+// How each finished status is recorded in the attempt log
+const ATTEMPT_OUTCOMES: Record<
+  TerminalJobStatus,
+  Exclude<JobAttempt['outcome'], 'running'>
+> = {
+  done: 'succeeded',
+  failed: 'failed',
+  cancelled: 'cancelled',
+};
+
+// Sort helper: higher priority first, then first-come first-served
+function compareQueuedJobs(a: Job, b: Job): number {
+  const byPriority =
+    PRIORITY_ORDER[a.priority ?? 'normal'] -
+    PRIORITY_ORDER[b.priority ?? 'normal'];
+  if (byPriority !== 0) {
+    return byPriority;
+  }
+  return a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+// File type for metrics: the MIME subtype, or the file extension
+function fileTypeFor(job: Job): string {
+  if (job.mimeType) {
+    return job.mimeType.split('/').pop()!.toLowerCase();
+  }
+  const extension = job.filePath.split('.').pop();
+  return extension && extension !== job.filePath
+    ? extension.toLowerCase()
+    : 'unknown';
+}
+
+// A document job that has split into page jobs and is waiting on them
+function isWaitingOnPages(job: Job): boolean {
+  return (job.childIds?.length ?? 0) > 0;
+}
+
+// Build the error for a document whose pages all failed
+function summarizePages(pages: Job[]): string {
+  const lines = pages.map(
+    page => `page ${page.pageNumber}: ${page.error ?? page.status}`
+  );
+  return `All ${pages.length} pages failed - ${lines.join('; ')}`;
+}
+
+// Attempts that count against maxAttempts. Attempts cut short by a server
+// shutdown don't use up the budget.
+function countAttemptsUsed(job: Job): number {
+  return job.attemptLog.filter(attempt => attempt.outcome !== 'cancelled')
+    .length;
+}
+
+// Build the error shown to the user once a job has run out of attempts.
+// A single attempt keeps its original message; several get one line each.
+function summarizeAttempts(job: Job): string {
+  const failed = job.attemptLog.filter(attempt => attempt.error);
+  if (failed.length <= 1) {
+    return failed[0]?.error ?? 'Job failed';
+  }
+
+  const lines = failed.map(attempt => {
+    const provider = attempt.provider ? ` [${attempt.provider}]` : '';
+    return `#${attempt.attempt}${provider}: ${attempt.error}`;
+  });
+  return `Failed after ${failed.length} attempts - ${lines.join('; ')}`;
+}
@@ -0,0 +1,210 @@
+/**
+ * Job Metrics - how fast and how reliably are jobs running?
+ *
+ * getJobCounts() only says how many jobs are in each status right now. This
+ * file keeps a rolling window of recently finished jobs and turns it into
+ * the numbers operations care about: how long jobs wait in the queue, how
+ * long they take, how many pages per second we read and how often jobs
+ * succeed - overall, per OCR provider and per file type.
+ *
+ * The charter target is 3 pages in 30 seconds (0.1 pages/second), so the
+ * snapshot also says whether typical jobs are meeting it.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * What we remember about one finished job
+ */
+export interface JobSample {
+  finishedAt: number; // Epoch ms
+  outcome: 'done' | 'failed' | 'cancelled';
+  provider: string; // OCR provider, 'mixed' or 'unknown'
+  fileType: string; // e.g. 'pdf', 'png'
+  pages: number;
+  queueWaitMs?: number; // Created -> first started (undefined if never started)
+  processingMs?: number; // First started -> finished
+}
+
+export interface PercentileSummary {
+  count: number;
+  p50: number | null;
+  p95: number | null;
+  avg: number | null;
+}
+
+export interface JobMetricsGroup {
+  total: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  successRate: number | null; // succeeded / (succeeded + failed)
+  queueWaitMs: PercentileSummary;
+  processingMs: PercentileSummary;
+  pagesPerSecond: PercentileSummary;
+}
+
+export interface JobMetricsSnapshot extends JobMetricsGroup {
+  windowMs: number;
+  byProvider: Record<string, JobMetricsGroup>;
+  byFileType: Record<string, JobMetricsGroup>;
+  throughputTarget: {
+    pagesPerSecond: number;
+    metAtP50: boolean | null; // null until a job has finished
+    shareMeeting: number | null; // Fraction of finished jobs at or above target
+  };
+}
+
+export interface JobMetricsOptions {
+  windowMs?: number; // How far back the rolling window reaches (default 15 min)
+  maxSamples?: number; // Upper bound on remembered jobs (default 5000)
+}
+
+// Charter target: 3 pages in 30 seconds
+export const TARGET_PAGES_PER_SECOND = 3 / 30;
+
+// =============================================================================
+// METRICS COLLECTOR
+// =============================================================================
+
+export class JobMetrics {
+  private samples: JobSample[] = []; // Oldest first
+  private readonly windowMs: number;
+  private readonly maxSamples: number;
+
+  constructor(options: JobMetricsOptions = {}) {
+    this.windowMs = options.windowMs ?? 15 * 60 * 1000; // 15 minutes
+    this.maxSamples = options.maxSamples ?? 5000;
+  }
+
+  // Remember a finished job
+  record(sample: JobSample): void {
+    this.samples.push(sample);
+    if (this.samples.length > this.maxSamples) {
+      this.samples.splice(0, this.samples.length - this.maxSamples);
+    }
+  }
+
+  // Aggregate every job finished within the window
+  snapshot(now: number = Date.now()): JobMetricsSnapshot {
+    this.prune(now);
+    const overall = summarizeGroup(this.samples);
+    const rates = this.samples
+      .filter(sample => sample.outcome === 'done')
+      .map(pagesPerSecond)
+      .filter((rate): rate is number => rate !== undefined);
+
+    return {
+      windowMs: this.windowMs,
+      ...overall,
+      byProvider: groupBy(this.samples, sample => sample.provider),
+      byFileType: groupBy(this.samples, sample => sample.fileType),
+      throughputTarget: {
+        pagesPerSecond: TARGET_PAGES_PER_SECOND,
+        metAtP50:
+          overall.pagesPerSecond.p50 === null
+            ? null
+            : overall.pagesPerSecond.p50 >= TARGET_PAGES_PER_SECOND,
+        shareMeeting:
+          rates.length > 0
+            ? rates.filter(rate => rate >= TARGET_PAGES_PER_SECOND).length /
+              rates.length
+            : null,
+      },
+    };
+  }
+
+  // Forget everything (useful for tests)
+  reset(): void {
+    this.samples = [];
+  }
+
+  // Drop samples that have slid out of the window
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs;
+    const firstInWindow = this.samples.findIndex(
+      sample => sample.finishedAt >= cutoff
+    );
+    this.samples =
+      firstInWindow === -1 ? [] : this.samples.slice(firstInWindow);
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Nearest-rank percentile of a list of numbers (null for an empty list)
+ */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+function summarize(values: number[]): PercentileSummary {
+  return {
+    count: values.length,
+    p50: percentile(values, 50),
+    p95: percentile(values, 95),
+    avg:
+      values.length > 0
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
+        : null,
+  };
+}
+
+// Pages read per second of processing (only meaningful for finished work)
+function pagesPerSecond(sample: JobSample): number | undefined {
+  if (!sample.processingMs || sample.processingMs <= 0) {
+    return undefined;
+  }
+  return sample.pages / (sample.processingMs / 1000);
+}
+
+function summarizeGroup(samples: JobSample[]): JobMetricsGroup {
+  const count = (outcome: JobSample['outcome']) =>
+    samples.filter(sample => sample.outcome === outcome).length;
+  const succeeded = count('done');
+  const failed = count('failed');
+  const defined = (values: (number | undefined)[]) =>
+    values.filter((value): value is number => value !== undefined);
+  const successful = samples.filter(sample => sample.outcome === 'done');
+
+  return {
+    total: samples.length,
+    succeeded,
+    failed,
+    cancelled: count('cancelled'),
+    successRate:
+      succeeded + failed > 0 ? succeeded / (succeeded + failed) : null,
+    queueWaitMs: summarize(defined(samples.map(sample => sample.queueWaitMs))),
+    processingMs: summarize(
+      defined(successful.map(sample => sample.processingMs))
+    ),
+    pagesPerSecond: summarize(defined(successful.map(pagesPerSecond))),
+  };
+}
+
+function groupBy(
+  samples: JobSample[],
+  keyOf: (sample: JobSample) => string
+): Record<string, JobMetricsGroup> {
+  const groups = new Map<string, JobSample[]>();
+  for (const sample of samples) {
+    const key = keyOf(sample);
+    groups.set(key, [...(groups.get(key) ?? []), sample]);
+  }
+
+  const result: Record<string, JobMetricsGroup> = {};
+  for (const [key, group] of groups) {
+    result[key] = summarizeGroup(group);
+  }
+  return result;
+}
@@ -0,0 +1,155 @@
+/**
+ * Job Queries - listing a caller's jobs
+ *
+ * Powers GET /api/jobs and the "my recent jobs" panel. Every query is tied
+ * to one owner, so there is no way to list somebody else's jobs. Results
+ * come back a page at a time with an opaque cursor for the next page, which
+ * stays stable even while new jobs are being created.
+ */
+
+import { z } from 'zod';
+import type { Job } from './jobManager';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Who a job belongs to
+ */
+export interface JobOwner {
+  kind: 'guest' | 'user';
+  id: string; // Supabase user ID, or the guest session ID
+}
+
+export type JobSortField = 'createdAt' | 'completedAt' | 'progress';
+
+export interface JobListQuery {
+  owner: JobOwner; // Required - only this owner's jobs are ever returned
+  status?: Job['status'][]; // Only jobs in one of these statuses
+  createdAfter?: Date;
+  createdBefore?: Date;
+  tag?: string; // Only jobs carrying this tag
+  sortBy?: JobSortField; // Default createdAt
+  order?: 'asc' | 'desc'; // Default desc (newest first)
+  limit?: number; // Page size (default 20, max 100)
+  cursor?: string; // From the previous page's nextCursor
+}
+
+export interface JobListPage {
+  jobs: Job[];
+  nextCursor: string | null; // null on the last page
+}
+
+export const DEFAULT_JOB_PAGE_SIZE = 20;
+export const MAX_JOB_PAGE_SIZE = 100;
+
+/**
+ * Thrown for a query that can't be run (e.g. a tampered cursor)
+ */
+export class JobQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobQueryError';
+  }
+}
+
+// =============================================================================
+// QUERYING
+// =============================================================================
+
+// Job IDs are handed out by the job manager as job_<uuid>
+export const jobIdSchema = z.string().regex(/^job_[\w-]+$/);
+
+/**
+ * Do two owners refer to the same person? (no owner only matches no owner)
+ */
+export function isSameOwner(a?: JobOwner, b?: JobOwner): boolean {
+  if (!a || !b) {
+    return !a && !b;
+  }
+  return a.kind === b.kind && a.id === b.id;
+}
+
+/**
+ * Filter, sort and page a list of jobs. Page jobs of a split document are
+ * left out - they show up under their document instead.
+ */
+export function queryJobs(jobs: Job[], query: JobListQuery): JobListPage {
+  const sortBy = query.sortBy ?? 'createdAt';
+  const order = query.order ?? 'desc';
+  const limit = Math.min(
+    MAX_JOB_PAGE_SIZE,
+    Math.max(1, query.limit ?? DEFAULT_JOB_PAGE_SIZE)
+  );
+
+  // Step 1: Only this owner's top-level jobs that match the filters
+  const matching = jobs.filter(job => {
+    if (job.parentId || !isSameOwner(job.owner, query.owner)) return false;
+    if (query.status && !query.status.includes(job.status)) return false;
+    if (query.createdAfter && job.createdAt < query.createdAfter) return false;
+    if (query.createdBefore && job.createdAt > query.createdBefore) {
+      return false;
+    }
+    if (query.tag && !(job.tags ?? []).includes(query.tag)) return false;
+    return true;
+  });
+
+  // Step 2: Sort, with the job ID as a tie-breaker so order is stable
+  const direction = order === 'asc' ? 1 : -1;
+  const compare = (a: SortKey, b: SortKey) =>
+    direction * (a.value - b.value || a.id.localeCompare(b.id));
+  const keyed = matching
+    .map(job => ({ job, key: sortKeyFor(job, sortBy) }))
+    .sort((a, b) => compare(a.key, b.key));
+
+  // Step 3: Skip everything up to and including the cursor
+  const after = query.cursor ? decodeCursor(query.cursor, sortBy) : undefined;
+  const remaining = after
+    ? keyed.filter(({ key }) => compare(key, after) > 0)
+    : keyed;
+
+  const page = remaining.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    jobs: page.map(({ job }) => job),
+    nextCursor:
+      remaining.length > limit && last ? encodeCursor(last.key, sortBy) : null,
+  };
+}
+
+// =============================================================================
+// CURSORS
+// =============================================================================
+
+interface SortKey {
+  value: number;
+  id: string;
+}
+
+// Jobs that haven't finished sort as if they finished at time 0
+function sortKeyFor(job: Job, sortBy: JobSortField): SortKey {
+  const value =
+    sortBy === 'progress' ? job.progress : (job[sortBy]?.getTime() ?? 0);
+  return { value, id: job.id };
+}
+
+function encodeCursor(key: SortKey, sortBy: JobSortField): string {
+  return Buffer.from(JSON.stringify({ ...key, sortBy })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sortBy: JobSortField): SortKey {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (
+      typeof parsed.value === 'number' &&
+      typeof parsed.id === 'string' &&
+      parsed.sortBy === sortBy
+    ) {
+      return { value: parsed.value, id: parsed.id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new JobQueryError('Invalid cursor for this query');
+}
@@ -0,0 +1,144 @@
+/**
+ * Job Results - what an OCR job actually produced
+ *
+ * A finished job carries a typed result: the text of every page, how
+ * confident the OCR provider was, which provider read it and how long it
+ * took. Most results are small and live on the job itself, but a 200-page
+ * document can produce megabytes of text - too much to keep in memory or in
+ * a job store row. Results above a size threshold are written to storage
+ * (the Supabase bucket in production) and the job only keeps a pointer.
+ */
+
+import type { OcrWord } from './ocr/provider';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * OCR output for a single page
+ */
+export interface PageResult {
+  pageNumber: number; // 1-based
+  text: string;
+  confidence: number; // 0-1, as reported (or estimated) by the provider
+  provider: string; // e.g. 'tesseract', 'mistral'
+  durationMs: number; // Time spent recognizing this page
+  words?: OcrWord[]; // Word positions, when the provider (or the PDF's text layer) gave them
+  fallbacks?: PageFallback[]; // Providers tried before this one, in order
+  preprocessing?: PagePreprocessing; // How the page image was cleaned up first
+  language?: PageLanguage; // What the page's text is written in
+}
+
+/**
+ * The language of a page, detected from its text (see ocr/language.ts)
+ */
+export interface PageLanguage {
+  code: string; // ISO 639-3, e.g. 'spa', or 'und' when it can't be told
+  script?: string; // e.g. 'Latin', 'Cyrillic'
+  confidence: number; // 0-1
+  ocrLanguages?: string[]; // What the provider was told to read it as, if anything
+}
+
+/**
+ * What was done to a page image before OCR (see ocr/preprocess.ts)
+ */
+export interface PagePreprocessing {
+  steps: string[]; // Steps that ran, in order, e.g. ['grayscale', 'deskew']
+  rotation: number; // Clockwise turn applied to make the page upright: 0, 90, 180 or 270
+  skewAngle: number; // Tilt found in the text lines, degrees clockwise
+  crop?: { x: number; y: number; width: number; height: number }; // Part kept by the crop step
+  originalSize?: { width: number; height: number };
+  durationMs: number;
+  beforeImage?: string; // Storage paths of the debug images, when kept
+  afterImage?: string;
+}
+
+/**
+ * A provider whose answer for a page wasn't good enough, and why
+ * (see ocr/fallback.ts)
+ */
+export interface PageFallback {
+  provider: string;
+  reason: 'unsupported' | 'error' | 'timeout' | 'low-confidence';
+  message: string; // e.g. the error, or 'Confidence 0.42 is below 0.80'
+  confidence?: number; // What it scored, when it returned a page
+}
+
+/**
+ * OCR output for a whole job
+ */
+export interface JobResult {
+  pages: PageResult[]; // In page order
+  text: string; // Every page's text, joined
+  confidence: number; // Average page confidence (0-1)
+  providers: string[]; // Every provider that read at least one page
+  durationMs: number; // Total recognition time across pages
+  completedAt: Date;
+}
+
+/**
+ * Where an offloaded result lives
+ */
+export interface JobResultRef {
+  path: string; // Object path inside the storage bucket
+  sizeBytes: number;
+  storedAt: Date;
+}
+
+/**
+ * Somewhere large results can be kept outside the job itself
+ */
+export interface JobResultStorage {
+  save(jobId: string, json: string): Promise<JobResultRef>;
+  load(ref: JobResultRef): Promise<JobResult>;
+  delete(ref: JobResultRef): Promise<void>;
+}
+
+// Results bigger than this are offloaded by default (256 KB)
+export const DEFAULT_MAX_INLINE_RESULT_BYTES = 256 * 1024;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Build a job result from its page results
+ */
+export function buildJobResult(pages: PageResult[]): JobResult {
+  const sorted = [...pages].sort((a, b) => a.pageNumber - b.pageNumber);
+  const totalConfidence = sorted.reduce(
+    (sum, page) => sum + page.confidence,
+    0
+  );
+
+  return {
+    pages: sorted,
+    text: sorted.map(page => page.text).join('\n\n'),
+    confidence: sorted.length > 0 ? totalConfidence / sorted.length : 0,
+    providers: Array.from(new Set(sorted.map(page => page.provider))),
+    durationMs: sorted.reduce((sum, page) => sum + page.durationMs, 0),
+    completedAt: new Date(),
+  };
+}
+
+/**
+ * Turn a result into the JSON written to storage, and measure it
+ */
+export function encodeJobResult(result: JobResult): {
+  json: string;
+  sizeBytes: number;
+} {
+  const json = JSON.stringify(result);
+  return { json, sizeBytes: Buffer.byteLength(json, 'utf8') };
+}
+
+/**
+ * Read a stored result back (ISO strings become Dates again)
+ */
+export function decodeJobResult(json: string): JobResult {
+  const raw = JSON.parse(json) as Omit<JobResult, 'completedAt'> & {
+    completedAt: string;
+  };
+  return { ...raw, completedAt: new Date(raw.completedAt) };
+}
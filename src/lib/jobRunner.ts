@@ -0,0 +1,235 @@
+/**
+ * Job Runner - the part that actually does the work
+ *
+ * JobManager only records what state a job is in. The runner is the worker
+ * loop: it claims queued jobs (most urgent first), runs the OCR handler for
+ * each one, and reports progress and the outcome back to JobManager.
+ *
+ * A multi-page document can fan out into one job per page (context.fanOut);
+ * the page jobs are queued like any other job and run in parallel.
+ *
+ * When several instances share one job store, the manager claims jobs under
+ * leases (see claimNextJobFromStore) so each job runs on exactly one of them.
+ *
+ * Concurrency is capped so a burst of uploads can't exhaust memory, and
+ * low-priority batch jobs never take the last free slot - a small interactive
+ * document can always start, even while a 200-page batch is running.
+ */
+
+import type { Job, JobManager, JobPriority } from './jobManager';
+import type { JobResult } from './jobResults';
+import type { JobStageName, JobStageUpdate } from './jobStages';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * What a handler gets alongside the job it is running
+ */
+export interface JobRunContext {
+  signal: AbortSignal; // Aborted when the job is cancelled or times out
+  reportProgress(progress: number): void; // 0-100
+  updateStage(stage: JobStageName, update: JobStageUpdate): void; // e.g. recognize page 4 of 12
+  setProvider(provider: string): void; // Record which OCR provider this attempt uses
+  fanOut(pageCount: number): string[]; // Split a document into page jobs (returns their IDs)
+}
+
+/**
+ * The work to do for one job. Resolve with the OCR result when finished,
+ * throw to fail the job. Throw a JobError to say whether the failure is
+ * worth retrying.
+ */
+export type JobHandler = (
+  job: Job,
+  context: JobRunContext
+) => Promise<JobResult | void>;
+
+export interface JobRunnerOptions {
+  jobManager: JobManager;
+  handler: JobHandler;
+  concurrency?: number; // Max jobs running at once (default 2)
+  pollIntervalMs?: number; // Safety-net check for queued jobs (default 1s)
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+// =============================================================================
+// RUNNER
+// =============================================================================
+
+export class JobRunner {
+  private readonly jobManager: JobManager;
+  private readonly handler: JobHandler;
+  private readonly concurrency: number;
+  private readonly pollIntervalMs: number;
+  private active: Map<string, Promise<void>> = new Map(); // Jobs running right now
+  private pollTimer: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private running = false;
+  private claiming: Promise<void> | null = null; // Claim loop in progress (leases only)
+
+  constructor(options: JobRunnerOptions) {
+    this.jobManager = options.jobManager;
+    this.handler = options.handler;
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  // Start picking up queued jobs
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    // Wake up as soon as a job is created or put back in the queue...
+    this.unsubscribe = this.jobManager.subscribe(
+      event => {
+        const requeued =
+          event.type === 'status_changed' && event.job.status === 'queued';
+        if (event.type === 'created' || requeued) {
+          this.fillSlots();
+        }
+      },
+      { types: ['created', 'status_changed'] }
+    );
+
+    // ...and poll as a safety net (e.g. for jobs restored from the store)
+    this.pollTimer = setInterval(() => this.fillSlots(), this.pollIntervalMs);
+
+    this.fillSlots();
+  }
+
+  // Stop claiming new jobs; resolves once the running ones have finished
+  async stop(): Promise<void> {
+    this.running = false;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    // A claim that was already in flight may still start one more job
+    await this.claiming;
+    await Promise.all(this.active.values());
+  }
+
+  // How many jobs are running right now
+  get activeCount(): number {
+    return this.active.size;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  // Claim jobs until every slot is busy or the queue is empty
+  private fillSlots(): void {
+    if (this.jobManager.usesLeases) {
+      this.fillSlotsFromStore();
+      return;
+    }
+
+    while (this.running && this.active.size < this.concurrency) {
+      const job = this.jobManager.claimNextJob({
+        priorities: this.claimablePriorities(),
+      });
+      if (!job) return;
+      this.startJob(job);
+    }
+  }
+
+  // Same as fillSlots, but claiming is a round trip to the shared store.
+  // Only one claim loop runs at a time; wake-ups during it are covered by
+  // the loop itself or the next poll.
+  private fillSlotsFromStore(): void {
+    if (this.claiming) return;
+
+    this.claiming = (async () => {
+      while (this.running && this.active.size < this.concurrency) {
+        const job = await this.jobManager.claimNextJobFromStore({
+          priorities: this.claimablePriorities(),
+        });
+        if (!job) return;
+        this.startJob(job);
+      }
+    })()
+      .catch(error => {
+        console.error('❌ Failed to claim jobs from the store:', error);
+      })
+      .finally(() => {
+        this.claiming = null;
+      });
+  }
+
+  private startJob(job: Job): void {
+    const run: Promise<void> = this.runJob(job).finally(() => {
+      // A retry of this job may have been claimed while this run was still
+      // settling - its entry isn't ours to remove
+      if (this.active.get(job.id) === run) {
+        this.active.delete(job.id);
+      }
+      this.fillSlots();
+    });
+    this.active.set(job.id, run);
+  }
+
+  // Low-priority jobs may not use the last free slot
+  private claimablePriorities(): JobPriority[] {
+    const freeSlots = this.concurrency - this.active.size;
+    if (freeSlots <= 1 && this.concurrency > 1) {
+      return ['high', 'normal'];
+    }
+    return ['high', 'normal', 'low'];
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    const context: JobRunContext = {
+      signal:
+        this.jobManager.getAbortSignal(job.id) ?? new AbortController().signal,
+      reportProgress: progress => {
+        if (this.isStillProcessing(job.id)) {
+          this.jobManager.updateJobStatus(job.id, 'processing', progress);
+        }
+      },
+      updateStage: (stage, update) => {
+        if (this.isStillProcessing(job.id)) {
+          this.jobManager.updateStage(job.id, stage, update);
+        }
+      },
+      setProvider: provider => {
+        this.jobManager.setAttemptProvider(job.id, provider);
+      },
+      fanOut: pageCount => this.jobManager.fanOutJob(job.id, pageCount),
+    };
+
+    try {
+      const result = await this.handler(job, context);
+      if (result && this.isStillProcessing(job.id)) {
+        await this.jobManager.saveResult(job.id, result);
+      }
+
+      // The job may have timed out while the handler was still working.
+      // A document that fanned out finishes once its pages are done.
+      const fannedOut =
+        (this.jobManager.getJob(job.id)?.childIds ?? []).length > 0;
+      if (this.isStillProcessing(job.id) && !fannedOut) {
+        this.jobManager.updateJobStatus(job.id, 'done', 100);
+      }
+    } catch (error) {
+      // Retryable errors put the job back in the queue after a backoff.
+      // A cancelled job is no longer processing, so its abort error is ignored.
+      if (this.isStillProcessing(job.id)) {
+        this.jobManager.retryOrFailJob(job.id, error);
+      }
+    }
+  }
+
+  // False once the job timed out, was cancelled, or - with leases - another
+  // instance has taken it over
+  private isStillProcessing(jobId: string): boolean {
+    return this.jobManager.isRunningHere(jobId);
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Graceful Shutdown - draining jobs before the process exits
+ *
+ * During a deploy the platform sends SIGTERM and kills the process a little
+ * later. Without a plan, every JobManager timer just vanishes and jobs that
+ * were mid-OCR stay 'processing' forever as far as the browser can tell.
+ *
+ * The ShutdownCoordinator drains the process in order:
+ * 1. Stop accepting new jobs (createJob throws, /api/health says "draining")
+ * 2. Give running jobs a grace period to finish
+ * 3. Put whatever is still running back in the queue
+ * 4. Clear timers and flush everything to the job store
+ *
+ * With a persistent store (file/postgres) the next process picks the
+ * requeued jobs straight back up.
+ */
+
+import type { JobManager } from './jobManager';
+import type { JobRunner } from './jobRunner';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ShutdownState = 'running' | 'draining' | 'stopped';
+
+export interface ShutdownCoordinatorOptions {
+  jobManager: JobManager;
+  runner?: JobRunner; // Omit if this process doesn't run jobs
+  gracePeriodMs?: number; // How long running jobs get to finish (default 25s)
+}
+
+export interface ShutdownSummary {
+  drained: boolean; // Did every running job finish within the grace period?
+  requeued: number; // Jobs put back in the queue
+  durationMs: number;
+}
+
+const DEFAULT_GRACE_PERIOD_MS = 25 * 1000; // Most platforms kill after 30s
+
+// The state lives on globalThis so every route module (e.g. /api/health)
+// sees the same value as the coordinator
+const globalForShutdown = globalThis as typeof globalThis & {
+  shutdownState?: ShutdownState;
+  shutdownHandlersInstalled?: boolean;
+};
+
+/**
+ * Is this process running normally, draining, or done?
+ */
+export function getShutdownState(): ShutdownState {
+  return globalForShutdown.shutdownState ?? 'running';
+}
+
+// =============================================================================
+// COORDINATOR
+// =============================================================================
+
+export class ShutdownCoordinator {
+  private readonly jobManager: JobManager;
+  private readonly runner?: JobRunner;
+  private readonly gracePeriodMs: number;
+  private shutdownPromise: Promise<ShutdownSummary> | null = null;
+
+  constructor(options: ShutdownCoordinatorOptions) {
+    this.jobManager = options.jobManager;
+    this.runner = options.runner;
+    this.gracePeriodMs = options.gracePeriodMs ?? DEFAULT_GRACE_PERIOD_MS;
+  }
+
+  // Drain the process. Calling it again returns the same drain.
+  shutdown(): Promise<ShutdownSummary> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.drain();
+    }
+    return this.shutdownPromise;
+  }
+
+  private async drain(): Promise<ShutdownSummary> {
+    const startedAt = Date.now();
+    globalForShutdown.shutdownState = 'draining';
+    console.log('🛑 Shutting down: no longer accepting new jobs');
+
+    // Step 1: Turn new work away
+    this.jobManager.stopAccepting();
+
+    // Step 2: Let running jobs finish, but only for so long
+    const drained = await this.waitForRunner();
+
+    // Step 3: Whatever is still running goes back in the queue
+    const requeued = this.jobManager.requeueInterruptedJobs();
+    if (requeued > 0) {
+      console.log(`🔁 Requeued ${requeued} unfinished jobs`);
+    }
+
+    // Step 4: Stop timers and make sure the store has everything
+    await this.jobManager.shutdown();
+
+    globalForShutdown.shutdownState = 'stopped';
+    const durationMs = Date.now() - startedAt;
+    console.log(`✅ Shutdown complete in ${durationMs}ms`);
+    return { drained, requeued, durationMs };
+  }
+
+  // Resolves true if the runner finished in time, false if the grace ran out
+  private async waitForRunner(): Promise<boolean> {
+    if (!this.runner) {
+      return true;
+    }
+
+    let graceTimer: NodeJS.Timeout | undefined;
+    const graceOver = new Promise<false>(resolve => {
+      graceTimer = setTimeout(() => resolve(false), this.gracePeriodMs);
+    });
+
+    const finished = await Promise.race([
+      this.runner.stop().then(() => true as const),
+      graceOver,
+    ]);
+    clearTimeout(graceTimer);
+    return finished;
+  }
+}
+
+/**
+ * Drain on SIGTERM/SIGINT, then exit. Safe to call more than once.
+ *
+ * `next start` has its own signal handlers that close the server and exit
+ * at once, cutting the drain short. NEXT_MANUAL_SIG_HANDLE=true (set by
+ * `npm start`) turns them off and leaves the signals to us.
+ */
+export function installShutdownHandlers(
+  coordinator: ShutdownCoordinator
+): void {
+  if (globalForShutdown.shutdownHandlersInstalled) return;
+  globalForShutdown.shutdownHandlersInstalled = true;
+
+  if (
+    process.env.NODE_ENV === 'production' &&
+    !process.env.NEXT_MANUAL_SIG_HANDLE
+  ) {
+    console.warn(
+      '⚠️ NEXT_MANUAL_SIG_HANDLE is not set: Next.js will exit on SIGTERM before running jobs can drain'
+    );
+  }
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    console.log(`📦 Received ${signal}`);
+    coordinator
+      .shutdown()
+      .catch(error => {
+        console.error('❌ Shutdown failed:', error);
+      })
+      .finally(() => process.exit(0));
+  };
+
+  process.once('SIGTERM', onSignal);
+  process.once('SIGINT', onSignal);
+}
@@ -0,0 +1,262 @@
+/**
+ * Job Stages - the steps inside one OCR job
+ *
+ * An OCR job is really a small pipeline: download the file, rasterize PDF
+ * pages, clean up the images, recognize text, normalize it and (optionally)
+ * export it. Each stage tracks its own status, timings and progress, and the
+ * job's overall progress is a weighted roll-up - recognizing text takes far
+ * longer than downloading, so it counts for more of the bar.
+ *
+ * This file has no server-only imports, so the UI can use it too.
+ */
+
+import type { Job } from './jobManager';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type JobStageName =
+  | 'download'
+  | 'rasterize'
+  | 'preprocess'
+  | 'recognize'
+  | 'normalize'
+  | 'export';
+
+export type JobStageStatus =
+  | 'pending'
+  | 'running'
+  | 'done'
+  | 'skipped'
+  | 'failed';
+
+export interface JobStage {
+  name: JobStageName;
+  status: JobStageStatus;
+  weight: number; // Share of the overall progress bar
+  progress: number; // 0-100 within this stage
+  current?: number; // e.g. page 4...
+  total?: number; // ...of 12
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+// What a caller may change about a stage
+export interface JobStageUpdate {
+  status?: JobStageStatus;
+  progress?: number; // 0-100
+  current?: number; // Items finished or in progress (progress is derived if total is known)
+  total?: number;
+}
+
+// =============================================================================
+// STAGE DEFINITIONS
+// =============================================================================
+
+// Default pipeline order and how much of the bar each stage is worth
+const STAGE_WEIGHTS: Record<JobStageName, number> = {
+  download: 10,
+  rasterize: 15,
+  preprocess: 10,
+  recognize: 55,
+  normalize: 5,
+  export: 5,
+};
+
+// What to show while a stage is running
+export const STAGE_LABELS: Record<JobStageName, string> = {
+  download: 'Downloading',
+  rasterize: 'Rendering',
+  preprocess: 'Preparing',
+  recognize: 'Recognizing',
+  normalize: 'Cleaning up text',
+  export: 'Exporting',
+};
+
+// Every stage except export runs by default
+export const DEFAULT_JOB_STAGES: JobStageName[] = [
+  'download',
+  'rasterize',
+  'preprocess',
+  'recognize',
+  'normalize',
+];
+
+/**
+ * Build the initial (all pending) stage list for a new job
+ */
+export function createJobStages(
+  names: JobStageName[] = DEFAULT_JOB_STAGES
+): JobStage[] {
+  return names.map(name => ({
+    name,
+    status: 'pending',
+    weight: STAGE_WEIGHTS[name],
+    progress: 0,
+  }));
+}
+
+// =============================================================================
+// STAGE UPDATES
+// =============================================================================
+
+/**
+ * Update one stage of a job in place. Starting a stage closes any earlier
+ * stage still marked as running, so handlers only have to announce what
+ * they are doing now - unless that stage is still counting pages (e.g.
+ * rendering page 2 of 5 while page 1 is being recognized). Returns
+ * undefined if the job has no such stage.
+ */
+export function updateJobStage(
+  stages: JobStage[],
+  name: JobStageName,
+  update: JobStageUpdate
+): JobStage | undefined {
+  const index = stages.findIndex(stage => stage.name === name);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const stage = stages[index];
+  applyStageUpdate(stage, update);
+
+  if (stage.status === 'running') {
+    stages
+      .slice(0, index)
+      .filter(earlier => earlier.status === 'running' && !isCounting(earlier))
+      .forEach(earlier => applyStageUpdate(earlier, { status: 'done' }));
+  }
+  return stage;
+}
+
+// A stage with pages left to count (current < total) isn't finished yet
+function isCounting(stage: JobStage): boolean {
+  return stage.total !== undefined && (stage.current ?? 0) < stage.total;
+}
+
+// Apply an update to one stage, keeping its timings consistent
+function applyStageUpdate(stage: JobStage, update: JobStageUpdate): void {
+  if (update.total !== undefined) stage.total = update.total;
+  if (update.current !== undefined) stage.current = update.current;
+
+  if (update.progress !== undefined) {
+    stage.progress = clampPercent(update.progress);
+  } else if (stage.total && stage.current !== undefined) {
+    stage.progress = clampPercent((stage.current / stage.total) * 100);
+  }
+
+  const status =
+    update.status ??
+    (stage.status === 'pending' && hasWork(update) ? 'running' : stage.status);
+
+  if (status === 'running' && !stage.startedAt) {
+    stage.startedAt = new Date();
+  }
+  if (status === 'done' || status === 'skipped') {
+    stage.progress = 100;
+  }
+  if (isFinishedStage(status) && !isFinishedStage(stage.status)) {
+    stage.completedAt = new Date();
+  }
+  stage.status = status;
+}
+
+/**
+ * Put every stage back to pending (used when a job is retried)
+ */
+export function resetJobStages(stages: JobStage[]): void {
+  for (const stage of stages) {
+    stage.status = 'pending';
+    stage.progress = 0;
+    delete stage.current;
+    delete stage.total;
+    delete stage.startedAt;
+    delete stage.completedAt;
+  }
+}
+
+/**
+ * Close out stages once the job itself has finished
+ */
+export function finishJobStages(
+  stages: JobStage[],
+  outcome: 'done' | 'failed' | 'cancelled'
+): void {
+  for (const stage of stages) {
+    if (stage.status === 'running') {
+      applyStageUpdate(stage, {
+        status: outcome === 'done' ? 'done' : 'failed',
+      });
+    } else if (stage.status === 'pending' && outcome === 'done') {
+      // A stage that never ran wasn't needed (e.g. rasterizing an image)
+      applyStageUpdate(stage, { status: 'skipped' });
+    }
+  }
+}
+
+// =============================================================================
+// ROLL-UP AND DESCRIPTIONS
+// =============================================================================
+
+/**
+ * Overall progress: each stage's progress weighted by its share of the bar
+ */
+export function computeStageProgress(stages: JobStage[]): number {
+  const totalWeight = stages.reduce((sum, stage) => sum + stage.weight, 0);
+  if (totalWeight === 0) return 0;
+
+  const weighted = stages.reduce((sum, stage) => {
+    const progress =
+      stage.status === 'done' || stage.status === 'skipped'
+        ? 100
+        : stage.progress;
+    return sum + stage.weight * progress;
+  }, 0);
+
+  return Math.round(weighted / totalWeight);
+}
+
+/**
+ * Human-friendly status line, e.g. "Recognizing page 4 of 12"
+ */
+export function describeJobProgress(job: {
+  status: Job['status'];
+  progress: number;
+  stages?: Pick<JobStage, 'name' | 'status' | 'current' | 'total'>[];
+}): string {
+  switch (job.status) {
+    case 'queued':
+      return 'Waiting to start';
+    case 'done':
+      return 'Done';
+    case 'failed':
+      return 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
+  }
+
+  const running = job.stages?.find(stage => stage.status === 'running');
+  if (!running) {
+    return `Processing (${job.progress}%)`;
+  }
+
+  const label = STAGE_LABELS[running.name];
+  if (running.total && running.current !== undefined) {
+    return `${label} page ${running.current} of ${running.total}`;
+  }
+  return `${label}...`;
+}
+
+// Private helpers
+function clampPercent(value: number): number {
+  return Number.isFinite(value) ? Math.min(100, Math.max(0, value)) : 0;
+}
+
+function hasWork(update: JobStageUpdate): boolean {
+  return update.progress !== undefined || update.current !== undefined;
+}
+
+function isFinishedStage(status: JobStageStatus): boolean {
+  return status === 'done' || status === 'skipped' || status === 'failed';
+}
@@ -0,0 +1,109 @@
+/**
+ * Job State Machine
+ *
+ * Spells out which status changes are allowed, so a finished job can't be
+ * dragged back to 'processing' and progress can't be set to 250%.
+ *
+ *   queued ──────► processing ──────► done
+ *     │  ▲            │  │
+ *     │  └── retry ───┘  └──────────► failed
+ *     │
+ *     └─────► done / failed / cancelled  (cached result, bad input, user cancel)
+ *
+ * Staying in the same non-final status is allowed too - that's how progress
+ * updates and heartbeats are reported.
+ */
+
+import type { Job } from './jobManager';
+
+type JobStatus = Job['status'];
+
+// Every status a job may move to from each status
+const ALLOWED_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  queued: ['queued', 'processing', 'done', 'failed', 'cancelled'],
+  processing: ['processing', 'queued', 'done', 'failed', 'cancelled'],
+  done: [],
+  failed: [],
+  cancelled: [],
+};
+
+// =============================================================================
+// TRANSITION HISTORY
+// =============================================================================
+
+/**
+ * One entry in a job's audit trail
+ */
+export interface JobTransition {
+  from: JobStatus | null; // null for the initial 'queued' entry
+  to: JobStatus;
+  at: Date;
+  reason?: string; // e.g. 'claimed by runner', 'retry after RATE_LIMITED'
+}
+
+/**
+ * A transition plus how long the job stayed in the status it moved to
+ * (until the next transition, or until now for the current status)
+ */
+export interface JobTimelineEntry extends JobTransition {
+  durationMs: number;
+}
+
+/**
+ * Build a timeline from a job's transitions - handy for spotting where a
+ * slow job actually spent its time
+ */
+export function buildJobTimeline(
+  transitions: JobTransition[],
+  now: Date = new Date()
+): JobTimelineEntry[] {
+  return transitions.map((transition, index) => {
+    const next = transitions[index + 1];
+    const endedAt = next ? next.at : now;
+    return {
+      ...transition,
+      durationMs: Math.max(0, endedAt.getTime() - transition.at.getTime()),
+    };
+  });
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+export type JobTransitionErrorCode =
+  | 'JOB_NOT_FOUND'
+  | 'ILLEGAL_TRANSITION'
+  | 'INVALID_PROGRESS';
+
+/**
+ * Returned (not thrown) by JobManager.transitionJob when a change is refused
+ */
+export class JobTransitionError extends Error {
+  constructor(
+    readonly code: JobTransitionErrorCode,
+    message: string,
+    readonly jobId: string,
+    readonly from?: JobStatus,
+    readonly to?: JobStatus
+  ) {
+    super(message);
+    this.name = 'JobTransitionError';
+  }
+}
+
+export function canTransition(from: JobStatus, to: JobStatus): boolean {
+  return ALLOWED_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Check a progress value: must be a real number, and is clamped to 0-100
+ */
+export function normalizeProgress(
+  progress: number
+): { ok: true; value: number } | { ok: false } {
+  if (typeof progress !== 'number' || !Number.isFinite(progress)) {
+    return { ok: false };
+  }
+  return { ok: true, value: Math.min(100, Math.max(0, progress)) };
+}
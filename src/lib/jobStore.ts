@@ -0,0 +1,356 @@
+/**
+ * Job Store - where JobManager keeps its jobs
+ *
+ * JobManager used to keep every job in a private Map, so a redeploy or a
+ * crash wiped out every queued and in-flight OCR job. The JobStore interface
+ * lets JobManager hand persistence off to a pluggable backend:
+ * - MemoryJobStore: today's behaviour, nothing survives a restart
+ * - FileJobStore: a JSON file on disk, good for single-node self-hosting
+ * - PostgresJobStore: a shared table driven by DATABASE_URL (see postgresJobStore.ts)
+ *
+ * All stores work with plain Job objects. Dates are converted to ISO strings
+ * when written and back to Date objects when read.
+ *
+ * Stores shared by several server instances also support leases: a worker
+ * atomically claims a job for a limited time, renews the lease while it
+ * works, and any worker may reclaim the job once the lease runs out (e.g.
+ * because the instance holding it crashed).
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Job } from './jobManager';
+
+// =============================================================================
+// STORE CONTRACT
+// =============================================================================
+
+export type JobStoreKind = 'memory' | 'file' | 'postgres';
+
+export interface JobSaveOptions {
+  // Only write if this worker still holds the job's lease, so a worker that
+  // lost its lease can't overwrite whoever took the job over
+  fence?: string;
+}
+
+export interface JobStore {
+  readonly kind: JobStoreKind;
+  load(jobId: string): Promise<Job | undefined>; // One job, or undefined if unknown
+  loadAll(): Promise<Job[]>; // Every stored job (used to rehydrate on startup)
+  save(job: Job, options?: JobSaveOptions): Promise<void>; // Insert or replace a job
+  delete(jobId: string): Promise<void>; // Remove a job (no-op if unknown)
+  close?(): Promise<void>; // Release connections/file handles
+
+  // Lease support (for stores shared between server instances)
+  listClaimable?(now: Date, limit: number): Promise<Job[]>; // Queued or abandoned jobs nobody holds
+  claim?(
+    jobId: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<Job | undefined>; // Atomic - undefined if someone else got it
+  renew?(jobId: string, workerId: string, leaseMs: number): Promise<boolean>; // false once the lease is lost
+}
+
+/**
+ * A store that can hand out leases
+ */
+export type LeasingJobStore = JobStore &
+  Required<Pick<JobStore, 'listClaimable' | 'claim' | 'renew'>>;
+
+export function supportsLeases(store: JobStore): store is LeasingJobStore {
+  return !!(store.listClaimable && store.claim && store.renew);
+}
+
+// =============================================================================
+// SERIALIZATION HELPERS
+// =============================================================================
+
+// Fields named like `createdAt` or `endedAt` hold Dates, at any depth
+// (e.g. attemptLog[].startedAt), and must be revived after JSON parsing
+const DATE_KEY = /At$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+function reviveDates(value: unknown, key = ''): unknown {
+  if (typeof value === 'string') {
+    return DATE_KEY.test(key) && ISO_DATE.test(value) ? new Date(value) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => reviveDates(item));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const revived: Record<string, unknown> = {};
+    for (const [childKey, child] of Object.entries(value)) {
+      revived[childKey] = reviveDates(child, childKey);
+    }
+    return revived;
+  }
+  return value;
+}
+
+/**
+ * Turn a Job into a JSON-safe object (Dates become ISO strings)
+ */
+export function serializeJob(job: Job): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(job));
+}
+
+/**
+ * What the job APIs show a caller: the serialized job without who owns it
+ * (a guest's owner ID is their session cookie), which worker holds its lease
+ * or where its upload lives in storage
+ */
+export function serializePublicJob(job: Job): Record<string, unknown> {
+  const payload = serializeJob(job);
+  delete payload.owner;
+  delete payload.leaseOwner;
+  delete payload.filePath;
+  return payload;
+}
+
+/**
+ * Turn a stored object back into a Job (ISO strings become Dates)
+ */
+export function deserializeJob(raw: Record<string, unknown>): Job {
+  return reviveDates(raw) as Job;
+}
+
+/**
+ * Copy a job so callers can't mutate what the store holds
+ */
+export function cloneJob(job: Job): Job {
+  return deserializeJob(serializeJob(job));
+}
+
+// =============================================================================
+// LEASE HELPERS (shared by the in-process stores)
+// =============================================================================
+
+const UNFINISHED_STATUSES: Job['status'][] = ['queued', 'processing'];
+
+// Nobody holds the job, or whoever did has let the lease run out
+function isLeaseFree(job: Job, now: number): boolean {
+  return !job.leaseOwner || (job.leaseExpiresAt?.getTime() ?? 0) <= now;
+}
+
+function isClaimable(job: Job, now: number): boolean {
+  return UNFINISHED_STATUSES.includes(job.status) && isLeaseFree(job, now);
+}
+
+// May this save overwrite what is stored? A fenced save only goes through
+// while the stored job is still leased to the same worker.
+function passesFence(stored: Job | undefined, options?: JobSaveOptions) {
+  return !options?.fence || !stored || stored.leaseOwner === options.fence;
+}
+
+// Claim or renew a job held in a Map; returns the updated job or undefined
+function leaseFromMap(
+  jobs: Map<string, Job>,
+  jobId: string,
+  workerId: string,
+  leaseMs: number,
+  renewing: boolean
+): Job | undefined {
+  const job = jobs.get(jobId);
+  const now = Date.now();
+  if (!job) return undefined;
+
+  const allowed = renewing
+    ? job.leaseOwner === workerId && UNFINISHED_STATUSES.includes(job.status)
+    : isClaimable(job, now);
+  if (!allowed) return undefined;
+
+  job.leaseOwner = workerId;
+  job.leaseExpiresAt = new Date(now + leaseMs);
+  return job;
+}
+
+// =============================================================================
+// IN-MEMORY STORE
+// =============================================================================
+
+/**
+ * Keeps jobs in a Map - the original JobManager behaviour.
+ * Jobs are copied in and out so several managers can share one store
+ * without accidentally sharing object references.
+ */
+export class MemoryJobStore implements JobStore {
+  readonly kind = 'memory' as const;
+  private jobs: Map<string, Job> = new Map();
+
+  async load(jobId: string): Promise<Job | undefined> {
+    const job = this.jobs.get(jobId);
+    return job ? cloneJob(job) : undefined;
+  }
+
+  async loadAll(): Promise<Job[]> {
+    return Array.from(this.jobs.values()).map(cloneJob);
+  }
+
+  async save(job: Job, options?: JobSaveOptions): Promise<void> {
+    if (passesFence(this.jobs.get(job.id), options)) {
+      this.jobs.set(job.id, cloneJob(job));
+    }
+  }
+
+  async delete(jobId: string): Promise<void> {
+    this.jobs.delete(jobId);
+  }
+
+  async listClaimable(now: Date, limit: number): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => isClaimable(job, now.getTime()))
+      .slice(0, limit)
+      .map(cloneJob);
+  }
+
+  // Check-and-set happens synchronously, so two callers can't both win
+  async claim(
+    jobId: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<Job | undefined> {
+    const job = leaseFromMap(this.jobs, jobId, workerId, leaseMs, false);
+    return job ? cloneJob(job) : undefined;
+  }
+
+  async renew(
+    jobId: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<boolean> {
+    return !!leaseFromMap(this.jobs, jobId, workerId, leaseMs, true);
+  }
+}
+
+// =============================================================================
+// FILE STORE
+// =============================================================================
+
+/**
+ * Keeps jobs in a single JSON file.
+ * Every write rewrites the file through a temp file + rename, so a crash
+ * mid-write never leaves a half-written file behind. Writes are chained
+ * on one promise so they always land in the order they were made.
+ */
+export class FileJobStore implements JobStore {
+  readonly kind = 'file' as const;
+  private jobs: Map<string, Job> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async load(jobId: string): Promise<Job | undefined> {
+    const jobs = await this.readJobs();
+    const job = jobs.get(jobId);
+    return job ? cloneJob(job) : undefined;
+  }
+
+  async loadAll(): Promise<Job[]> {
+    const jobs = await this.readJobs();
+    return Array.from(jobs.values()).map(cloneJob);
+  }
+
+  async save(job: Job, options?: JobSaveOptions): Promise<void> {
+    const jobs = await this.readJobs();
+    if (!passesFence(jobs.get(job.id), options)) {
+      return;
+    }
+    jobs.set(job.id, cloneJob(job));
+    await this.writeJobs();
+  }
+
+  async delete(jobId: string): Promise<void> {
+    const jobs = await this.readJobs();
+    if (jobs.delete(jobId)) {
+      await this.writeJobs();
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.writeChain;
+  }
+
+  // Leases only guard against other managers in this process - the file
+  // itself is never shared between machines
+  async listClaimable(now: Date, limit: number): Promise<Job[]> {
+    const jobs = await this.readJobs();
+    return Array.from(jobs.values())
+      .filter(job => isClaimable(job, now.getTime()))
+      .slice(0, limit)
+      .map(cloneJob);
+  }
+
+  async claim(
+    jobId: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<Job | undefined> {
+    const jobs = await this.readJobs();
+    const job = leaseFromMap(jobs, jobId, workerId, leaseMs, false);
+    if (!job) return undefined;
+
+    await this.writeJobs();
+    return cloneJob(job);
+  }
+
+  async renew(
+    jobId: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<boolean> {
+    const jobs = await this.readJobs();
+    if (!leaseFromMap(jobs, jobId, workerId, leaseMs, true)) {
+      return false;
+    }
+    await this.writeJobs();
+    return true;
+  }
+
+  // Read the file once and keep it cached - this process is the only writer
+  private async readJobs(): Promise<Map<string, Job>> {
+    if (this.jobs) {
+      return this.jobs;
+    }
+
+    const jobs = new Map<string, Job>();
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(contents) as Record<string, unknown>[];
+      for (const raw of parsed) {
+        const job = deserializeJob(raw);
+        jobs.set(job.id, job);
+      }
+    } catch (error) {
+      // A missing file just means no jobs have been saved yet
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    // Another call may have finished loading while we were reading
+    if (!this.jobs) {
+      this.jobs = jobs;
+    }
+    return this.jobs;
+  }
+
+  private writeJobs(): Promise<void> {
+    const write = async () => {
+      const jobs = Array.from((this.jobs ?? new Map()).values());
+      const tempPath = `${this.filePath}.tmp`;
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(
+        tempPath,
+        JSON.stringify(jobs.map(serializeJob), null, 2),
+        'utf8'
+      );
+      await fs.rename(tempPath, this.filePath);
+    };
+
+    // Keep the chain alive even if one write fails
+    const result = this.writeChain.then(write);
+    this.writeChain = result.catch(() => undefined);
+    return result;
+  }
+}
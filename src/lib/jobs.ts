@@ -0,0 +1,165 @@
+/**
+ * Shared JobManager Instance
+ *
+ * API routes should never call `new JobManager()` themselves - each route
+ * module would end up with its own filing cabinet. Instead they call
+ * getJobManager(), which builds one manager per server process from
+ * serverEnv and rehydrates it from the configured store before handing it out.
+ */
+
+import { serverEnv } from './env';
+import { DeadLetterQueue } from './jobDeadLetters';
+import { JobManager } from './jobManager';
+import { JobResultStorage } from './jobResults';
+import { ShutdownCoordinator, installShutdownHandlers } from './jobShutdown';
+import { JobHandler, JobRunner } from './jobRunner';
+import { FileJobStore, JobStore, MemoryJobStore } from './jobStore';
+import { PostgresJobStore } from './postgresJobStore';
+import { createSupabaseResultStorage } from './supabase';
+
+/**
+ * Build the JobStore selected by JOB_STORE
+ */
+export function createJobStore(): JobStore {
+  const { store, storeFile } = serverEnv.jobs;
+
+  switch (store) {
+    case 'file':
+      return new FileJobStore(storeFile);
+    case 'postgres': {
+      const connectionString = serverEnv.database.url;
+      if (!connectionString) {
+        throw new Error(
+          'DATABASE_URL is required when JOB_STORE is set to "postgres"'
+        );
+      }
+      return new PostgresJobStore({ connectionString });
+    }
+    default:
+      return new MemoryJobStore();
+  }
+}
+
+/**
+ * Where jobs that failed for good are kept - next to the jobs themselves,
+ * in a second file or table
+ */
+export function createDeadLetterQueue(): DeadLetterQueue {
+  const { store, storeFile, deadLetterRetentionMs } = serverEnv.jobs;
+  const options = { retentionMs: deadLetterRetentionMs };
+
+  switch (store) {
+    case 'file':
+      return new DeadLetterQueue(
+        new FileJobStore(storeFile.replace(/(\.json)?$/, '.dead-letters.json')),
+        options
+      );
+    case 'postgres':
+      return new DeadLetterQueue(
+        new PostgresJobStore({
+          connectionString: serverEnv.database.url!,
+          tableName: 'ocr_dead_letters',
+        }),
+        options
+      );
+    default:
+      return new DeadLetterQueue(new MemoryJobStore(), options);
+  }
+}
+
+/**
+ * Where large OCR results are offloaded - the Supabase bucket when it is
+ * configured, otherwise nowhere (results stay on the job)
+ */
+export function createResultStorage(): JobResultStorage | undefined {
+  const { url, serviceRoleKey } = serverEnv.supabase;
+  return url && serviceRoleKey ? createSupabaseResultStorage() : undefined;
+}
+
+// Kept on globalThis so Next.js hot reloads in development reuse the
+// same manager instead of creating a new one on every code change
+const globalForJobs = globalThis as typeof globalThis & {
+  jobManagerPromise?: Promise<JobManager>;
+  jobRunner?: JobRunner;
+};
+
+/**
+ * Get the process-wide JobManager, hydrated from its store
+ */
+export function getJobManager(): Promise<JobManager> {
+  if (!globalForJobs.jobManagerPromise) {
+    globalForJobs.jobManagerPromise = (async () => {
+      const manager = new JobManager({
+        store: createJobStore(),
+        maxAttempts: serverEnv.jobs.maxAttempts,
+        retryBaseDelayMs: serverEnv.jobs.retryBaseDelayMs,
+        inactivityTimeoutMs: serverEnv.jobs.inactivityTimeoutMs,
+        maxRuntimeMs: serverEnv.jobs.maxRuntimeMs,
+        retentionMs: serverEnv.jobs.retentionMs,
+        resultStorage: createResultStorage(),
+        maxInlineResultBytes: serverEnv.jobs.resultInlineMaxBytes,
+        deadLetters: createDeadLetterQueue(),
+        // Only the postgres store is shared between instances, so only it
+        // needs leases to keep two instances off the same job
+        leaseMs:
+          serverEnv.jobs.store === 'postgres'
+            ? serverEnv.jobs.leaseMs
+            : undefined,
+      });
+      const restored = await manager.hydrate();
+
+      if (serverEnv.debug.logging) {
+        console.log(
+          `📦 Job manager ready (${serverEnv.jobs.store} store, ${restored} jobs restored)`
+        );
+      }
+
+      return manager;
+    })();
+
+    // Don't cache a failed startup - the next request should try again
+    globalForJobs.jobManagerPromise.catch(() => {
+      globalForJobs.jobManagerPromise = undefined;
+    });
+  }
+
+  return globalForJobs.jobManagerPromise;
+}
+
+/**
+ * Start the process-wide JobRunner with the given handler.
+ * Calling it again returns the runner that is already running.
+ * Also drains the runner gracefully when the process gets SIGTERM.
+ */
+export async function startJobRunner(handler: JobHandler): Promise<JobRunner> {
+  if (!globalForJobs.jobRunner) {
+    const jobManager = await getJobManager();
+
+    // Another caller may have started it while we were waiting
+    if (!globalForJobs.jobRunner) {
+      globalForJobs.jobRunner = new JobRunner({
+        jobManager,
+        handler,
+        concurrency: serverEnv.jobs.concurrency,
+      });
+      globalForJobs.jobRunner.start();
+
+      installShutdownHandlers(
+        new ShutdownCoordinator({
+          jobManager,
+          runner: globalForJobs.jobRunner,
+          gracePeriodMs: serverEnv.jobs.shutdownGraceMs,
+        })
+      );
+    }
+  }
+
+  return globalForJobs.jobRunner;
+}
+
+/**
+ * The running JobRunner, if one has been started
+ */
+export function getJobRunner(): JobRunner | undefined {
+  return globalForJobs.jobRunner;
+}
@@ -0,0 +1,259 @@
+// Unit tests for the OCR fallback chain, with fake providers
+
+import { JobError } from '../../jobErrors';
+import { OcrFallbackChain } from '../fallback';
+import type { OcrInput, OcrProvider } from '../provider';
+
+const page = (pageNumber: number): OcrInput => ({
+  data: new Uint8Array([1]),
+  mimeType: 'image/png',
+  pageNumber,
+});
+
+// A provider that answers each page with the confidence (or error) the
+// test gives it
+const fakeProvider = (
+  name: OcrProvider['name'],
+  answer: (input: OcrInput, signal?: AbortSignal) => number | Promise<number>,
+  inputFormats = ['image/png']
+) => {
+  const provider = {
+    name,
+    capabilities: {
+      languages: ['eng'],
+      boundingBoxes: false,
+      tables: false,
+      maxPages: 1,
+      inputFormats,
+    },
+    checkHealth: async () => ({ healthy: true }),
+    recognize: jest.fn(
+      async (input: OcrInput, _options?: unknown, signal?: AbortSignal) => {
+        const confidence = await answer(input, signal);
+        return {
+          provider: name,
+          pages: [
+            {
+              pageNumber: input.pageNumber ?? 1,
+              text: `${name} text`,
+              confidence,
+            },
+          ],
+          durationMs: 5,
+        };
+      }
+    ),
+  };
+  return provider satisfies OcrProvider;
+};
+
+describe('OcrFallbackChain', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should re-run only the low-confidence pages on the next provider', async () => {
+    const mistral = fakeProvider('mistral', input =>
+      input.pageNumber === 2 ? 0.4 : 0.95
+    );
+    const tesseract = fakeProvider('tesseract', () => 0.85);
+    const chain = new OcrFallbackChain({
+      providers: [mistral, tesseract],
+      minConfidence: 0.8,
+    });
+
+    const results = await chain.recognizePages([page(1), page(2), page(3)]);
+
+    expect(results.map(result => result.provider)).toEqual([
+      'mistral',
+      'tesseract',
+      'mistral',
+    ]);
+    expect(tesseract.recognize).toHaveBeenCalledTimes(1);
+    expect(results[0].fallbacks).toBeUndefined();
+    expect(results[1]).toMatchObject({
+      pageNumber: 2,
+      text: 'tesseract text',
+      confidence: 0.85,
+      fallbacks: [
+        {
+          provider: 'mistral',
+          reason: 'low-confidence',
+          message: 'Confidence 0.40 is below 0.80',
+          confidence: 0.4,
+        },
+      ],
+    });
+  });
+
+  it('should keep the better answer when no provider is confident enough', async () => {
+    const mistral = fakeProvider('mistral', () => 0.7);
+    const tesseract = fakeProvider('tesseract', () => 0.5);
+    const chain = new OcrFallbackChain({
+      providers: [mistral, tesseract],
+      minConfidence: 0.8,
+    });
+
+    const result = await chain.recognizePage(page(1));
+
+    expect(result.provider).toBe('mistral');
+    expect(result.confidence).toBe(0.7);
+    expect(result.fallbacks).toEqual([
+      expect.objectContaining({
+        provider: 'tesseract',
+        reason: 'low-confidence',
+      }),
+    ]);
+  });
+
+  it('should fall back when a provider errors or times out', async () => {
+    jest.useFakeTimers();
+    const mistral = fakeProvider(
+      'mistral',
+      (_input, signal) =>
+        new Promise((_, reject) =>
+          signal?.addEventListener('abort', () => reject(new Error('aborted')))
+        )
+    );
+    const tesseract = fakeProvider('tesseract', () => 0.9);
+    const chain = new OcrFallbackChain({
+      providers: [mistral, tesseract],
+      minConfidence: 0.8,
+      timeoutMs: 1000,
+    });
+
+    const pending = chain.recognizePage(page(1));
+    await jest.advanceTimersByTimeAsync(1000);
+    const result = await pending;
+    jest.useRealTimers();
+
+    expect(result.provider).toBe('tesseract');
+    expect(result.fallbacks).toEqual([
+      {
+        provider: 'mistral',
+        reason: 'timeout',
+        message: 'mistral took longer than 1000ms on page 1',
+      },
+    ]);
+
+    const broken = fakeProvider('mistral', () => {
+      throw new JobError('Rate limited', { retryable: true });
+    });
+    const errored = await new OcrFallbackChain({
+      providers: [broken, tesseract],
+      minConfidence: 0.8,
+    }).recognizePage(page(1));
+    expect(errored.fallbacks?.[0]).toMatchObject({
+      reason: 'error',
+      message: 'Rate limited',
+    });
+  });
+
+  it('should skip providers that cannot take the input', async () => {
+    const tesseract = fakeProvider('tesseract', () => 0.9, ['image/png']);
+    const mistral = fakeProvider('mistral', () => 0.9, ['application/pdf']);
+    const chain = new OcrFallbackChain({
+      providers: [tesseract, mistral],
+      minConfidence: 0.8,
+    });
+
+    const result = await chain.recognizePage({
+      ...page(1),
+      mimeType: 'application/pdf',
+    });
+
+    expect(result.provider).toBe('mistral');
+    expect(tesseract.recognize).not.toHaveBeenCalled();
+    expect(result.fallbacks?.[0]).toMatchObject({
+      provider: 'tesseract',
+      reason: 'unsupported',
+    });
+  });
+
+  it('should retry the job when every provider failed and one was transient', async () => {
+    const mistral = fakeProvider('mistral', () => {
+      throw new JobError('Rate limited', {
+        retryable: true,
+        code: 'RATE_LIMITED',
+        provider: 'mistral',
+        retryAfterMs: 5000,
+      });
+    });
+    const tesseract = fakeProvider('tesseract', () => {
+      throw new JobError('Unreadable image', { retryable: false });
+    });
+    const chain = new OcrFallbackChain({
+      providers: [mistral, tesseract],
+      minConfidence: 0.8,
+    });
+
+    await expect(chain.recognizePage(page(4))).rejects.toMatchObject({
+      message:
+        'No OCR provider could read page 4 (mistral: Rate limited; tesseract: Unreadable image)',
+      retryable: true,
+      code: 'RATE_LIMITED',
+      retryAfterMs: 5000,
+    });
+  });
+
+  it('should send whole documents only to providers that read many pages', async () => {
+    const tesseract = fakeProvider('tesseract', () => 0.9, ['application/pdf']);
+    const mistral = {
+      ...fakeProvider('mistral', () => 1, ['application/pdf']),
+      recognize: jest.fn(async () => ({
+        provider: 'mistral' as const,
+        pages: [
+          { pageNumber: 1, text: 'one', confidence: 1 },
+          { pageNumber: 2, text: 'two', confidence: 0.9 },
+        ],
+        durationMs: 5,
+      })),
+    };
+    mistral.capabilities.maxPages = 1000;
+    const chain = new OcrFallbackChain({
+      providers: [tesseract, mistral],
+      minConfidence: 0.8,
+    });
+
+    const pages = await chain.recognizeDocument({
+      data: new Uint8Array([1]),
+      mimeType: 'application/pdf',
+    });
+
+    expect(tesseract.recognize).not.toHaveBeenCalled();
+    expect(pages.map(result => result.text)).toEqual(['one', 'two']);
+    expect(pages[1]).toMatchObject({
+      provider: 'mistral',
+      fallbacks: [
+        {
+          provider: 'tesseract',
+          reason: 'unsupported',
+          message: 'Reads one page image at a time',
+        },
+      ],
+    });
+  });
+
+  it('should stop at once when the job is cancelled', async () => {
+    const controller = new AbortController();
+    const cancelled = new JobError('Job was cancelled', { retryable: false });
+    const mistral = fakeProvider('mistral', () => {
+      controller.abort(cancelled);
+      throw cancelled;
+    });
+    const tesseract = fakeProvider('tesseract', () => 0.9);
+    const chain = new OcrFallbackChain({
+      providers: [mistral, tesseract],
+      minConfidence: 0.8,
+    });
+
+    await expect(
+      chain.recognizePage(page(1), {}, controller.signal)
+    ).rejects.toBe(cancelled);
+    expect(tesseract.recognize).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+// Unit tests for the preprocessing pixel operations, on synthetic pages
+
+import type { GrayImage } from '../imageOps';
+import {
+  binarizeAdaptive,
+  cropBorders,
+  detectOrientation,
+  detectSkew,
+  medianDenoise,
+  normalizeContrast,
+  rotate,
+  rotateRightAngle,
+} from '../imageOps';
+
+const blank = (width: number, height: number, shade = 255): GrayImage => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height).fill(shade),
+});
+
+const fill = (
+  image: GrayImage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  shade = 0
+) => {
+  for (let row = y; row < y + height; row++) {
+    image.data.fill(
+      shade,
+      row * image.width + x,
+      row * image.width + x + width
+    );
+  }
+};
+
+const at = (image: GrayImage, x: number, y: number) =>
+  image.data[y * image.width + x];
+
+// A page of fake text: lines of 6px-wide glyphs with an x-height of 10px,
+// where like in Latin text, stems above the line (b, d, h, l...) are much
+// more common than below (g, p, y). Deterministic, so tests don't flake.
+const textPage = (width = 600, height = 800): GrayImage => {
+  const page = blank(width, height);
+  let glyph = 0;
+  for (let baseline = 80; baseline < height - 60; baseline += 28) {
+    for (let x = 50; x < width - 60; x += 8) {
+      glyph++;
+      if (glyph % 7 === 0) continue; // Space between words
+      fill(page, x, baseline - 10, 6, 10);
+      if (glyph % 3 === 0) fill(page, x, baseline - 18, 2, 8); // Ascender
+      if (glyph % 11 === 0) fill(page, x + 4, baseline, 2, 6); // Descender
+    }
+  }
+  return page;
+};
+
+describe('imageOps', () => {
+  it('should stretch a dim page to full black and white', () => {
+    const image = blank(100, 100, 170);
+    fill(image, 10, 10, 50, 50, 90);
+
+    const result = normalizeContrast(image);
+
+    expect(at(result, 80, 80)).toBe(255);
+    expect(at(result, 20, 20)).toBe(0);
+  });
+
+  it('should remove speckle but keep strokes', () => {
+    const image = blank(50, 50);
+    image.data[25 * 50 + 10] = 0; // Lone dark pixel
+    fill(image, 30, 10, 3, 30); // 3px stroke
+
+    const result = medianDenoise(image);
+
+    expect(at(result, 10, 25)).toBe(255);
+    expect(at(result, 31, 20)).toBe(0);
+  });
+
+  it('should binarize text under an uneven shadow', () => {
+    // Light from the left: paper goes from 250 down to 120
+    const image = blank(200, 60);
+    for (let y = 0; y < 60; y++) {
+      for (let x = 0; x < 200; x++) {
+        image.data[y * 200 + x] = 250 - (130 * x) / 200;
+      }
+    }
+    fill(image, 20, 20, 4, 20, 150); // Ink on the bright side
+    fill(image, 170, 20, 4, 20, 50); // Ink in the shadow
+
+    const result = binarizeAdaptive(image);
+
+    expect(at(result, 21, 30)).toBe(0);
+    expect(at(result, 171, 30)).toBe(0);
+    // Shadowed paper is darker than the ink on the bright side, but stays white
+    expect(at(result, 150, 5)).toBe(255);
+    expect(at(result, 60, 30)).toBe(255);
+  });
+
+  it('should turn an image by right angles, clockwise', () => {
+    const image = blank(3, 2);
+    image.data[0] = 0; // Top left
+
+    expect(rotateRightAngle(image, 90)).toMatchObject({ width: 2, height: 3 });
+    expect(at(rotateRightAngle(image, 90), 1, 0)).toBe(0); // Now top right
+    expect(at(rotateRightAngle(image, 180), 2, 1)).toBe(0); // Bottom right
+    expect(at(rotateRightAngle(image, 270), 0, 2)).toBe(0); // Bottom left
+  });
+
+  it.each([0, 3, -6.5])('should measure a skew of %d degrees', degrees => {
+    const page = binarizeAdaptive(rotate(textPage(), degrees));
+
+    expect(detectSkew(page)).toBeCloseTo(degrees, 0);
+  });
+
+  it.each([
+    [0, 0],
+    [90, 270],
+    [180, 180],
+    [270, 90],
+  ] as const)(
+    'should find the turn that makes a page rotated by %d upright',
+    (turned, expected) => {
+      const page = rotateRightAngle(textPage(), turned);
+
+      expect(detectOrientation(page)).toBe(expected);
+    }
+  );
+
+  it('should crop a dark scanner border and blank margins', () => {
+    const page = blank(300, 400, 0); // Scanner lid
+    fill(page, 15, 20, 270, 360, 255); // The paper
+    fill(page, 100, 120, 80, 100); // Its content
+
+    const { image, box } = cropBorders(page);
+
+    expect(box.x).toBeGreaterThan(80);
+    expect(box.x).toBeLessThanOrEqual(100);
+    expect(box.y).toBeGreaterThan(100);
+    expect(box.x + box.width).toBeGreaterThanOrEqual(180);
+    expect(box.x + box.width).toBeLessThan(200);
+    expect(image).toMatchObject({ width: box.width, height: box.height });
+  });
+});
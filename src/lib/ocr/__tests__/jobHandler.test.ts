@@ -0,0 +1,486 @@
+/**
+ * @jest-environment node
+ */
+
+// Unit tests for the OCR job handler, with a fake download and fallback chain
+
+import type { Job } from '../../jobManager';
+import type { PageResult } from '../../jobResults';
+import type { JobRunContext } from '../../jobRunner';
+import type { OcrFallbackChain } from '../fallback';
+import type { OcrInput } from '../provider';
+import type { RasterizeOptions } from '../rasterize';
+import { createOcrJobHandler } from '../jobHandler';
+
+// Read by serverEnv on first use, after the imports above
+process.env.OCR_PREPROCESS_DEBUG_IMAGES = 'true';
+
+const pageResult = (pageNumber: number, provider = 'mistral'): PageResult => ({
+  pageNumber,
+  text: `page ${pageNumber}`,
+  confidence: 0.9,
+  provider,
+  durationMs: 10,
+});
+
+const fakeJob = (overrides: Partial<Job> = {}) =>
+  ({
+    id: 'job_1',
+    filePath: 'uploads/123-abc.png',
+    mimeType: 'image/png',
+    ...overrides,
+  }) as Job;
+
+const fakeContext = (): JobRunContext => ({
+  signal: new AbortController().signal,
+  reportProgress: jest.fn(),
+  updateStage: jest.fn(),
+  setProvider: jest.fn(),
+  fanOut: jest.fn(() => []), // Not split - as for a job the manager won't split
+});
+
+// A chain that reads every document as two pages and every image as one
+const fakeChain = () => ({
+  providers: [{ name: 'mistral' }],
+  recognizePage: jest.fn(async (input: OcrInput) =>
+    pageResult(input.pageNumber ?? 1, 'tesseract')
+  ),
+  recognizeDocument: jest.fn(async () => [pageResult(1), pageResult(2)]),
+});
+
+describe('OCR job handler', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    // The fake files below aren't real images, so preprocessing gives up
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should download an image and read it through the chosen provider chain', async () => {
+    const chain = fakeChain();
+    const getChain = jest.fn(() => chain as unknown as OcrFallbackChain);
+    const download = jest.fn(async () => new Uint8Array([1, 2, 3]));
+    const context = fakeContext();
+    const handler = createOcrJobHandler({ download, getChain });
+
+    const result = await handler(
+      fakeJob({ ocr: { provider: 'mistral', languages: ['spa'] } }),
+      context
+    );
+
+    expect(getChain).toHaveBeenCalledWith('mistral');
+    expect(download).toHaveBeenCalledWith('uploads/123-abc.png', {
+      signal: context.signal,
+    });
+    expect(chain.recognizePage).toHaveBeenCalledWith(
+      { data: new Uint8Array([1, 2, 3]), mimeType: 'image/png', pageNumber: 1 },
+      { languages: ['spa'] },
+      context.signal
+    );
+    expect(context.setProvider).toHaveBeenCalledWith('mistral');
+    expect(context.updateStage).toHaveBeenCalledWith('download', {
+      status: 'done',
+    });
+    expect(result).toMatchObject({
+      text: 'page 1',
+      providers: ['tesseract'],
+    });
+  });
+
+  it('should preprocess an image before OCR and keep debug images', async () => {
+    const chain = fakeChain();
+    const preprocess = jest.fn(async () => ({
+      data: new Uint8Array([9]),
+      mimeType: 'image/png' as const,
+      width: 100,
+      height: 200,
+      record: {
+        steps: ['grayscale', 'deskew'],
+        rotation: 0,
+        skewAngle: 2.5,
+        durationMs: 40,
+      },
+    }));
+    const saveDebugImage = jest.fn(async () => {});
+    const context = fakeContext();
+    const handler = createOcrJobHandler({
+      download: async () => new Uint8Array([1, 2, 3]),
+      getChain: () => chain as unknown as OcrFallbackChain,
+      preprocess,
+      saveDebugImage,
+    });
+
+    const result = await handler(fakeJob({ mimeType: 'image/jpeg' }), context);
+
+    expect(preprocess).toHaveBeenCalledWith(
+      expect.objectContaining({ mimeType: 'image/jpeg' }),
+      [
+        'grayscale',
+        'denoise',
+        'contrast',
+        'orientation',
+        'deskew',
+        'binarize',
+        'crop',
+      ],
+      context.signal
+    );
+    expect(chain.recognizePage).toHaveBeenCalledWith(
+      { data: new Uint8Array([9]), mimeType: 'image/png', pageNumber: 1 },
+      {},
+      context.signal
+    );
+    expect(saveDebugImage).toHaveBeenCalledWith(
+      'debug/job_1/page-1-before.jpeg',
+      new Uint8Array([1, 2, 3]),
+      'image/jpeg'
+    );
+    expect(result?.pages[0].preprocessing).toEqual({
+      steps: ['grayscale', 'deskew'],
+      rotation: 0,
+      skewAngle: 2.5,
+      durationMs: 40,
+      beforeImage: 'debug/job_1/page-1-before.jpeg',
+      afterImage: 'debug/job_1/page-1-after.png',
+    });
+    expect(context.updateStage).toHaveBeenCalledWith('preprocess', {
+      status: 'done',
+      current: 1,
+    });
+  });
+
+  it('should map word boxes back onto the page before preprocessing', async () => {
+    const chain = fakeChain();
+    chain.recognizePage.mockResolvedValue({
+      ...pageResult(1, 'tesseract'),
+      words: [
+        {
+          text: 'page',
+          confidence: 0.9,
+          box: { x: 0, y: 0, width: 10, height: 5 },
+        },
+      ],
+    });
+    const handler = createOcrJobHandler({
+      download: async () => new Uint8Array([1, 2, 3]),
+      getChain: () => chain as unknown as OcrFallbackChain,
+      // Turned upside down, then cropped
+      preprocess: async () => ({
+        data: new Uint8Array([9]),
+        mimeType: 'image/png' as const,
+        width: 50,
+        height: 60,
+        record: {
+          steps: ['grayscale', 'orientation', 'crop'],
+          rotation: 180,
+          skewAngle: 0,
+          crop: { x: 10, y: 20, width: 50, height: 60 },
+          originalSize: { width: 100, height: 200 },
+          durationMs: 40,
+        },
+      }),
+      saveDebugImage: async () => {},
+    });
+
+    const result = await handler(fakeJob(), fakeContext());
+
+    expect(result?.pages[0].words?.[0].box).toEqual({
+      x: 80,
+      y: 175,
+      width: 10,
+      height: 5,
+    });
+  });
+
+  it('should read the original image when preprocessing fails', async () => {
+    const chain = fakeChain();
+    const handler = createOcrJobHandler({
+      download: async () => new Uint8Array([1, 2, 3]),
+      getChain: () => chain as unknown as OcrFallbackChain,
+      preprocess: async () => {
+        throw new Error('Could not decode image/png image');
+      },
+    });
+
+    const result = await handler(fakeJob(), fakeContext());
+
+    expect(chain.recognizePage).toHaveBeenCalledWith(
+      { data: new Uint8Array([1, 2, 3]), mimeType: 'image/png', pageNumber: 1 },
+      {},
+      expect.anything()
+    );
+    expect(result?.pages[0].preprocessing).toBeUndefined();
+  });
+
+  it('should read a page again with the model for the language it is in', async () => {
+    const spanish =
+      'La factura debe pagarse dentro de los treinta días de la fecha.';
+    // Mistral is the primary but fell short, so Tesseract read the page
+    // with its English model, which drops the accents and is less sure
+    const recognizePage = jest.fn(async () => ({
+      ...pageResult(1, 'tesseract'),
+      text: spanish.replace('í', 'i'),
+      confidence: 0.71,
+      fallbacks: [
+        { provider: 'mistral', reason: 'error' as const, message: 'HTTP 503' },
+      ],
+    }));
+    const recognize = jest.fn(async () => ({
+      pages: [{ pageNumber: 1, text: spanish, confidence: 0.93 }],
+    }));
+    const chain = {
+      providers: [
+        { name: 'mistral', capabilities: { languages: ['eng', 'spa'] } },
+        {
+          name: 'tesseract',
+          capabilities: { languages: ['eng', 'spa'] },
+          recognize,
+        },
+      ],
+      recognizePage,
+    };
+    const handler = createOcrJobHandler({
+      download: async () => new Uint8Array([1, 2, 3]),
+      getChain: () => chain as unknown as OcrFallbackChain,
+    });
+
+    const result = await handler(fakeJob(), fakeContext());
+
+    // The second pass goes straight to Tesseract, not through the chain
+    expect(recognizePage).toHaveBeenCalledTimes(1);
+    expect(recognize).toHaveBeenCalledWith(
+      expect.anything(),
+      { languages: ['spa'] },
+      expect.anything()
+    );
+    expect(result?.pages[0]).toMatchObject({
+      text: spanish,
+      confidence: 0.93,
+      provider: 'tesseract',
+      fallbacks: [{ provider: 'mistral', reason: 'error' }],
+      language: { code: 'spa', script: 'Latin', ocrLanguages: ['spa'] },
+    });
+  });
+
+  it('should tag pages with their language without a second pass when languages are given', async () => {
+    const recognizePage = jest.fn(async () => ({
+      ...pageResult(1, 'tesseract'),
+      text: 'Die Rechnung ist innerhalb von dreißig Tagen zu bezahlen und nicht später.',
+    }));
+    const chain = {
+      providers: [{ name: 'tesseract', capabilities: { languages: ['deu'] } }],
+      recognizePage,
+    };
+    const handler = createOcrJobHandler({
+      download: async () => new Uint8Array([1, 2, 3]),
+      getChain: () => chain as unknown as OcrFallbackChain,
+    });
+
+    const result = await handler(
+      fakeJob({ ocr: { languages: ['deu'] } }),
+      fakeContext()
+    );
+
+    expect(recognizePage).toHaveBeenCalledTimes(1);
+    expect(result?.pages[0].language).toMatchObject({
+      code: 'deu',
+      ocrLanguages: ['deu'],
+    });
+  });
+
+  it('should render the scanned pages of a PDF and read them one by one', async () => {
+    const chain = fakeChain();
+    const rasterize = jest.fn(async function* (
+      _data: Uint8Array,
+      options: RasterizeOptions
+    ) {
+      for (const pageNumber of options.pages ?? []) {
+        yield {
+          pageNumber,
+          pageCount: 3,
+          data: new Uint8Array([pageNumber]),
+          mimeType: 'image/png' as const,
+          width: 2550,
+          height: 3300,
+          dpi: 300,
+        };
+      }
+    });
+    const context = fakeContext();
+    const handler = createOcrJobHandler({
+      download: async () => new Uint8Array([37, 80, 68, 70]),
+      getChain: () => chain as unknown as OcrFallbackChain,
+      extractTextLayer: async () => ({
+        pageCount: 3,
+        pages: [{ pageNumber: 2, text: 'Born digital', confidence: 1 }],
+        scannedPages: [1, 3],
+      }),
+      rasterize,
+    });
+
+    const result = await handler(
+      fakeJob({ filePath: 'uploads/1-a.pdf', mimeType: 'application/pdf' }),
+      context
+    );
+
+    expect(rasterize).toHaveBeenCalledWith(expect.anything(), {
+      dpi: 300,
+      pages: [1, 3],
+      signal: context.signal,
+    });
+    expect(chain.recognizePage).toHaveBeenCalledWith(
+      { data: new Uint8Array([3]), mimeType: 'image/png', pageNumber: 3 },
+      {},
+      context.signal
+    );
+    expect(chain.recognizeDocument).not.toHaveBeenCalled();
+    expect(result?.pages.map(page => [page.text, page.provider])).toEqual([
+      ['page 1', 'tesseract'],
+      ['Born digital', 'pdf-text'],
+      ['page 3', 'tesseract'],
+    ]);
+    expect(context.updateStage).toHaveBeenCalledWith('rasterize', {
+      current: 2,
+    });
+  });
+
+  it('should split a PDF with several scanned pages into page jobs', async () => {
+    const chain = fakeChain();
+    const rasterize = jest.fn();
+    const context = fakeContext();
+    jest.mocked(context.fanOut).mockReturnValue(['job_2', 'job_3', 'job_4']);
+    const handler = createOcrJobHandler({
+      download: async () => new Uint8Array([37, 80, 68, 70]),
+      getChain: () => chain as unknown as OcrFallbackChain,
+      extractTextLayer: async () => ({
+        pageCount: 3,
+        pages: [{ pageNumber: 2, text: 'Born digital', confidence: 1 }],
+        scannedPages: [1, 3],
+      }),
+      rasterize,
+    });
+
+    const result = await handler(
+      fakeJob({ filePath: 'uploads/1-a.pdf', mimeType: 'application/pdf' }),
+      context
+    );
+
+    // The page jobs do the reading, and the document's result is theirs
+    expect(context.fanOut).toHaveBeenCalledWith(3);
+    expect(result).toBeUndefined();
+    expect(rasterize).not.toHaveBeenCalled();
+    expect(chain.recognizePage).not.toHaveBeenCalled();
+    expect(context.updateStage).toHaveBeenCalledWith('rasterize', {
+      status: 'skipped',
+    });
+  });
+
+  it('should only read its own page in a page job', async () => {
+    const chain = fakeChain();
+    const extractTextLayer = jest.fn(async () => ({
+      pageCount: 3,
+      pages: [],
+      scannedPages: [3],
+    }));
+    const rasterize = jest.fn(async function* () {
+      yield {
+        pageNumber: 3,
+        pageCount: 3,
+        data: new Uint8Array([3]),
+        mimeType: 'image/png' as const,
+        width: 2550,
+        height: 3300,
+        dpi: 300,
+      };
+    });
+    const context = fakeContext();
+    const handler = createOcrJobHandler({
+      download: async () => new Uint8Array([37, 80, 68, 70]),
+      getChain: () => chain as unknown as OcrFallbackChain,
+      extractTextLayer,
+      rasterize,
+    });
+
+    const result = await handler(
+      fakeJob({
+        id: 'job_4',
+        filePath: 'uploads/1-a.pdf',
+        mimeType: 'application/pdf',
+        parentId: 'job_1',
+        pageNumber: 3,
+      }),
+      context
+    );
+
+    expect(extractTextLayer).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ pages: [3] })
+    );
+    expect(rasterize).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ pages: [3] })
+    );
+    expect(context.fanOut).not.toHaveBeenCalled();
+    expect(result?.pages.map(page => page.pageNumber)).toEqual([3]);
+    expect(context.updateStage).toHaveBeenCalledWith('recognize', {
+      current: 1,
+      total: 1,
+    });
+  });
+
+  it('should send a PDF that pdf.js cannot open whole to the chain', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const chain = fakeChain();
+    const handler = createOcrJobHandler({
+      download: async () => new Uint8Array([37, 80, 68, 70]),
+      getChain: () => chain as unknown as OcrFallbackChain,
+      extractTextLayer: async () => {
+        throw new Error('Invalid PDF structure');
+      },
+    });
+
+    const result = await handler(
+      fakeJob({ filePath: 'uploads/1-a.pdf', mimeType: 'application/pdf' }),
+      fakeContext()
+    );
+
+    expect(chain.recognizeDocument).toHaveBeenCalledWith(
+      { data: new Uint8Array([37, 80, 68, 70]), mimeType: 'application/pdf' },
+      {},
+      expect.anything()
+    );
+    expect(result?.text).toBe('page 1\n\npage 2');
+  });
+
+  it('should skip OCR when every page has a text layer', async () => {
+    const chain = fakeChain();
+    const context = fakeContext();
+    const handler = createOcrJobHandler({
+      download: async () => new Uint8Array([37, 80, 68, 70]),
+      getChain: () => chain as unknown as OcrFallbackChain,
+      extractTextLayer: async () => ({
+        pageCount: 1,
+        pages: [{ pageNumber: 1, text: 'Born digital', confidence: 1 }],
+        scannedPages: [],
+      }),
+    });
+
+    const result = await handler(
+      fakeJob({ filePath: 'uploads/1-a.pdf', mimeType: 'application/pdf' }),
+      context
+    );
+
+    expect(chain.recognizeDocument).not.toHaveBeenCalled();
+    expect(context.setProvider).toHaveBeenLastCalledWith('pdf-text');
+    expect(result).toMatchObject({ text: 'Born digital', confidence: 1 });
+    // Too short to tell, and not OCR'd
+    expect(result?.pages[0].language).toEqual({
+      code: 'und',
+      script: 'Latin',
+      confidence: 0,
+    });
+  });
+});
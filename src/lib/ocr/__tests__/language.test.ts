@@ -0,0 +1,96 @@
+// Unit tests for script and language detection
+
+import { detectLanguage, detectScript } from '../language';
+
+describe('detectLanguage', () => {
+  it.each([
+    [
+      'eng',
+      'The invoice is due within thirty days of the date on which it was issued.',
+    ],
+    [
+      'spa',
+      'La factura debe pagarse dentro de los treinta días siguientes a la fecha de emisión.',
+    ],
+    [
+      'fra',
+      'La facture doit être payée dans les trente jours qui suivent la date de son émission.',
+    ],
+    [
+      'deu',
+      'Die Rechnung ist innerhalb von dreißig Tagen nach dem Ausstellungsdatum zu bezahlen.',
+    ],
+    [
+      'ita',
+      'La fattura deve essere pagata entro trenta giorni dalla data di emissione.',
+    ],
+    [
+      'por',
+      'A fatura deve ser paga no prazo de trinta dias a contar da data de emissão.',
+    ],
+    [
+      'pol',
+      'Faktura powinna zostać opłacona w ciągu trzydziestu dni od daty wystawienia.',
+    ],
+    [
+      'rus',
+      'Счёт должен быть оплачен в течение тридцати дней с даты выставления.',
+    ],
+    [
+      'ukr',
+      'Рахунок має бути оплачений протягом тридцяти днів з дати виставлення.',
+    ],
+    ['jpn', 'この請求書は発行日から三十日以内にお支払いください。'],
+    ['zho', '本发票应在开具之日起三十天内付款。请通过银行转账支付。谢谢合作。'],
+    [
+      'kor',
+      '이 청구서는 발행일로부터 30일 이내에 지불해야 합니다. 감사합니다.',
+    ],
+  ])('should recognize %s', (language, text) => {
+    const guess = detectLanguage(text);
+
+    expect(guess.language).toBe(language);
+    expect(guess.confidence).toBeGreaterThan(0);
+  });
+
+  it('should recognize Spanish read by a model that dropped its accents', () => {
+    expect(
+      detectLanguage(
+        'La factura debe pagarse dentro de los treinta dias siguientes a la fecha de emision.'
+      ).language
+    ).toBe('spa');
+  });
+
+  it('should read decomposed accents like composed ones', () => {
+    const text =
+      'La crème brûlée est délicieuse et le café est très bon pour nous';
+
+    expect(detectLanguage(text.normalize('NFD'))).toEqual(detectLanguage(text));
+  });
+
+  it('should not guess on text too short to tell', () => {
+    expect(detectLanguage('Total $40')).toEqual({
+      language: 'und',
+      script: 'Latin',
+      confidence: 0,
+    });
+    expect(detectLanguage('12.04.2024 - 1/3')).toEqual({
+      language: 'und',
+      script: undefined,
+      confidence: 0,
+    });
+  });
+});
+
+describe('detectScript', () => {
+  it('should name the script most letters are in', () => {
+    expect(detectScript('Москва 2024, ул. Тверская (Tverskaya)')).toMatchObject(
+      { script: 'Cyrillic' }
+    );
+    // Kanji alone could be Chinese; kana make it Japanese
+    expect(detectScript('東京都千代田区')).toMatchObject({ script: 'Han' });
+    expect(detectScript('東京都千代田区にあります')).toMatchObject({
+      script: 'Japanese',
+    });
+  });
+});
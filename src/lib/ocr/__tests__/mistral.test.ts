@@ -0,0 +1,254 @@
+/**
+ * @jest-environment node
+ */
+
+// Tests for the Mistral OCR provider, run against the local mock server
+// that replays recorded API responses (scripts/fixtures/mistral)
+
+import http from 'http';
+import { startMistralMockServer } from '../../../../scripts/mistral-mock-server.mjs';
+import { JobError } from '../../jobErrors';
+import { markdownToText, MistralProvider, parseRetryAfter } from '../mistral';
+
+type MockServer = Awaited<ReturnType<typeof startMistralMockServer>>;
+
+const pdf = {
+  data: new Uint8Array([37, 80, 68, 70]), // %PDF
+  mimeType: 'application/pdf',
+};
+
+// jest.setup.js replaces global fetch with canned answers, so talk to the
+// mock server over plain http
+const httpFetch = ((url: string, init: RequestInit) =>
+  new Promise<Response>((resolve, reject) => {
+    const request = http.request(
+      url,
+      {
+        method: init.method,
+        headers: init.headers as Record<string, string>,
+        signal: init.signal ?? undefined,
+      },
+      response => {
+        const chunks: Buffer[] = [];
+        response.on('data', chunk => chunks.push(chunk));
+        response.on('end', () =>
+          resolve(
+            new Response(Buffer.concat(chunks), {
+              status: response.statusCode,
+              headers: response.headers as Record<string, string>,
+            })
+          )
+        );
+      }
+    );
+    request.on('error', reject);
+    request.end(init.body);
+  })) as typeof fetch;
+
+describe('MistralProvider', () => {
+  let mock: MockServer | undefined;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await mock?.close();
+    mock = undefined;
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // A provider pointed at the mock server replaying `fixture`
+  const providerFor = async (
+    fixture: string,
+    options: Partial<ConstructorParameters<typeof MistralProvider>[0]> = {}
+  ) => {
+    mock = await startMistralMockServer({ fixture });
+    return new MistralProvider({
+      apiKey: 'test-key',
+      apiUrl: mock.url,
+      retryBaseDelayMs: 1,
+      fetch: httpFetch,
+      ...options,
+    });
+  };
+
+  it('should map a recorded response into normalized pages', async () => {
+    const provider = await providerFor('invoice');
+
+    const result = await provider.recognize(pdf, { tables: true });
+
+    expect(result.provider).toBe('mistral');
+    expect(result.pages).toHaveLength(2);
+    expect(result.pages[0]).toEqual({
+      pageNumber: 1,
+      text: [
+        'INVOICE',
+        '',
+        'Acme Supplies Ltd.',
+        'Invoice #2024-0117',
+        '',
+        'Item\tQty\tPrice',
+        'Paper A4\t10\t$40.00',
+        'Toner\t2\t$120.00',
+        '',
+        'Total: $160.00',
+      ].join('\n'),
+      confidence: 1,
+      tables: [
+        {
+          rows: [
+            ['Item', 'Qty', 'Price'],
+            ['Paper A4', '10', '$40.00'],
+            ['Toner', '2', '$120.00'],
+          ],
+        },
+      ],
+    });
+    expect(result.pages[1]).toMatchObject({
+      pageNumber: 2,
+      text: 'Payment terms\n\nPayment is due within 30 days.',
+    });
+
+    expect(mock!.requests[0]).toMatchObject({
+      method: 'POST',
+      url: '/v1/ocr',
+      authorization: 'Bearer test-key',
+      body: {
+        model: 'mistral-ocr-latest',
+        document: {
+          type: 'document_url',
+          document_url: 'data:application/pdf;base64,JVBERg==',
+        },
+      },
+    });
+    expect(mock!.requests[0].body).not.toHaveProperty('pages');
+  });
+
+  it('should only ask for the pages it was given', async () => {
+    const provider = await providerFor('invoice');
+
+    await provider.recognize({ ...pdf, pageNumbers: [2, 5] });
+
+    expect(mock!.requests[0].body).toMatchObject({ pages: [1, 4] });
+  });
+
+  it('should wait for Retry-After before retrying a 429', async () => {
+    const provider = await providerFor('rate-limited');
+
+    const startedAt = Date.now();
+    const result = await provider.recognize(pdf);
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000);
+    expect(result.pages).toHaveLength(2);
+    expect(mock!.requests).toHaveLength(2);
+  });
+
+  it('should give up on 5xx after the configured retries', async () => {
+    const provider = await providerFor('server-error', { maxRetries: 2 });
+
+    await expect(provider.recognize(pdf)).rejects.toMatchObject({
+      code: 'UPSTREAM_ERROR',
+      retryable: true,
+      provider: 'mistral',
+      message: 'Mistral OCR request failed (503): Service unavailable',
+    });
+    expect(mock!.requests).toHaveLength(3);
+  });
+
+  it('should not retry a rejected API key', async () => {
+    const provider = await providerFor('unauthorized');
+
+    await expect(provider.recognize(pdf)).rejects.toMatchObject({
+      code: 'AUTH_FAILED',
+      retryable: false,
+    });
+    expect(mock!.requests).toHaveLength(1);
+  });
+
+  it('should time out a request that takes too long', async () => {
+    const provider = await providerFor('slow', {
+      timeoutMs: 100,
+      maxRetries: 0,
+    });
+
+    await expect(provider.recognize(pdf)).rejects.toMatchObject({
+      code: 'TIMEOUT',
+      retryable: true,
+    });
+  });
+
+  it('should leave long Retry-After waits to the job manager', async () => {
+    const fetch = jest.fn(
+      async () =>
+        new Response('{}', { status: 429, headers: { 'retry-after': '120' } })
+    );
+    const provider = new MistralProvider({
+      apiKey: 'test-key',
+      apiUrl: 'http://mistral.test/v1',
+      fetch,
+    });
+
+    await expect(provider.recognize(pdf)).rejects.toMatchObject({
+      code: 'RATE_LIMITED',
+      retryAfterMs: 120000,
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting to retry when the job is cancelled', async () => {
+    const controller = new AbortController();
+    const cancelled = new JobError('Job was cancelled', {
+      retryable: false,
+      code: 'CANCELLED',
+    });
+    const fetch = jest.fn(async () => {
+      setTimeout(() => controller.abort(cancelled), 10);
+      return new Response('{}', { status: 503 });
+    });
+    const provider = new MistralProvider({
+      apiKey: 'test-key',
+      apiUrl: 'http://mistral.test/v1',
+      retryBaseDelayMs: 60000,
+      maxRetryDelayMs: 60000,
+      fetch,
+    });
+
+    await expect(provider.recognize(pdf, {}, controller.signal)).rejects.toBe(
+      cancelled
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should be unhealthy without an API key', async () => {
+    const provider = new MistralProvider({ apiUrl: 'http://mistral.test/v1' });
+
+    await expect(provider.checkHealth()).resolves.toEqual({
+      healthy: false,
+      message: 'MISTRAL_API_KEY is not set',
+    });
+    await expect(provider.recognize(pdf)).rejects.toMatchObject({
+      code: 'PROVIDER_NOT_CONFIGURED',
+    });
+  });
+});
+
+describe('Mistral response helpers', () => {
+  it('should strip markdown without touching snake_case or prices', () => {
+    expect(
+      markdownToText('### Notes\n\nSee **field_name** and _this_ for $5*2')
+    ).toBe('Notes\n\nSee field_name and this for $5*2');
+  });
+
+  it('should parse Retry-After as seconds or an HTTP date', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+
+    const inAMinute = new Date(Date.now() + 60000).toUTCString();
+    expect(parseRetryAfter(inAMinute)).toBeGreaterThan(55000);
+  });
+});
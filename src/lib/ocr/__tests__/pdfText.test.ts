@@ -0,0 +1,149 @@
+// Unit tests for PDF text layer extraction, with a fake pdf.js document
+
+import { extractPdfTextLayer, hasUsableTextLayer } from '../pdfText';
+
+// A text run as pdf.js reports it: 12pt text starting at (x, y) in PDF
+// space, where y counts up from the bottom of the page
+const run = (str: string, x: number, y: number, hasEOL = false) => ({
+  str,
+  width: str.length * 6,
+  height: 12,
+  transform: [12, 0, 0, 12, x, y],
+  hasEOL,
+});
+
+type FakeItem = ReturnType<typeof run> | { type: string };
+
+const fakePages: FakeItem[][] = [];
+const destroy = jest.fn(async () => {});
+
+jest.mock('pdfjs-dist/legacy/build/pdf.mjs', () => ({
+  VerbosityLevel: { ERRORS: 0 },
+  // Same matrix product as pdf.js
+  Util: {
+    transform: (m1: number[], m2: number[]) => [
+      m1[0] * m2[0] + m1[2] * m2[1],
+      m1[1] * m2[0] + m1[3] * m2[1],
+      m1[0] * m2[2] + m1[2] * m2[3],
+      m1[1] * m2[2] + m1[3] * m2[3],
+      m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+      m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+    ],
+  },
+  getDocument: () => ({
+    promise: Promise.resolve({
+      numPages: fakePages.length,
+      destroy,
+      getPage: async (pageNumber: number) => ({
+        // A US Letter page (612 x 792pt), flipped so y counts down
+        getViewport: ({ scale }: { scale: number }) => ({
+          transform: [scale, 0, 0, -scale, 0, 792 * scale],
+        }),
+        getTextContent: async () => ({ items: fakePages[pageNumber - 1] }),
+        cleanup: () => {},
+      }),
+    }),
+  }),
+}));
+
+describe('extractPdfTextLayer', () => {
+  beforeEach(() => {
+    fakePages.length = 0;
+    destroy.mockClear();
+  });
+
+  it('should take text and word positions from born-digital pages and flag the scanned ones', async () => {
+    fakePages.push(
+      [
+        run('Invoice 2024-117', 72, 720, true),
+        { type: 'beginMarkedContent' },
+        run('Total 40 EUR', 72, 700),
+      ],
+      [], // A scan: only an image, no text
+      [run('Paid by bank transfer on 3 March', 72, 720)]
+    );
+
+    const layer = await extractPdfTextLayer(new Uint8Array([37, 80, 68, 70]));
+
+    expect(layer.pageCount).toBe(3);
+    expect(layer.scannedPages).toEqual([2]);
+    expect(layer.pages.map(page => page.pageNumber)).toEqual([1, 3]);
+    expect(layer.pages[0]).toMatchObject({
+      text: 'Invoice 2024-117\nTotal 40 EUR',
+      confidence: 1,
+    });
+
+    // Boxes from the top-left corner, each word getting its share of the run
+    expect(layer.pages[0].words?.slice(0, 2)).toEqual([
+      {
+        text: 'Invoice',
+        confidence: 1,
+        box: { x: 72, y: 60, width: 42, height: 12 },
+      },
+      {
+        text: '2024-117',
+        confidence: 1,
+        box: { x: 120, y: 60, width: 48, height: 12 },
+      },
+    ]);
+    expect(destroy).toHaveBeenCalled();
+  });
+
+  it('should scale boxes and leave them out when asked', async () => {
+    fakePages.push([run('Quarterly report for the board', 72, 720)]);
+    const pdf = new Uint8Array([37, 80, 68, 70]);
+
+    const scaled = await extractPdfTextLayer(pdf, { scale: 2 });
+    const plain = await extractPdfTextLayer(pdf, { boundingBoxes: false });
+
+    expect(scaled.pages[0].words?.[0].box).toEqual({
+      x: 144,
+      y: 120,
+      width: 108,
+      height: 24,
+    });
+    expect(plain.pages[0].words).toBeUndefined();
+  });
+
+  it('should only read the pages asked for', async () => {
+    fakePages.push(
+      [run('Cover letter for the application', 72, 720)],
+      [],
+      [run('Paid by bank transfer on 3 March', 72, 720)]
+    );
+
+    const layer = await extractPdfTextLayer(new Uint8Array([37, 80, 68, 70]), {
+      pages: [3, 2],
+    });
+
+    expect(layer.pageCount).toBe(3);
+    expect(layer.pages.map(page => page.pageNumber)).toEqual([3]);
+    expect(layer.scannedPages).toEqual([2]);
+  });
+
+  it('should stop when the signal is aborted', async () => {
+    const controller = new AbortController();
+    fakePages.push([run('Some text', 72, 720)]);
+    controller.abort(new Error('cancelled'));
+
+    await expect(
+      extractPdfTextLayer(new Uint8Array([1]), { signal: controller.signal })
+    ).rejects.toThrow('cancelled');
+  });
+});
+
+describe('hasUsableTextLayer', () => {
+  it('should want enough real characters', () => {
+    expect(hasUsableTextLayer('Invoice total: 40 EUR, due in 30 days')).toBe(
+      true
+    );
+    expect(hasUsableTextLayer('  3  ')).toBe(false);
+    expect(hasUsableTextLayer('Page 3', 5)).toBe(true);
+    // Glyphs from fonts without a Unicode mapping
+    expect(
+      hasUsableTextLayer(
+        'Invoice total due in thirty days ' + '\uFFFD'.repeat(10)
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * @jest-environment node
+ */
+
+// Tests for the preprocessing pipeline, decoding and encoding real PNGs
+
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import {
+  PREPROCESS_STEPS,
+  preprocessImage,
+  toOriginalBox,
+} from '../preprocess';
+
+// A light gray page with a block of "text" lines, turned upside down and
+// tilted a little, like a careless phone scan
+const scannedPage = async () => {
+  const canvas = createCanvas(400, 500);
+  const context = canvas.getContext('2d');
+  context.fillStyle = '#ddd';
+  context.fillRect(0, 0, 400, 500);
+  context.translate(200, 250);
+  context.rotate(Math.PI + (2 * Math.PI) / 180);
+  context.translate(-200, -250);
+  context.fillStyle = '#333';
+  for (let line = 0; line < 12; line++) {
+    for (let glyph = 0; glyph < 30; glyph++) {
+      if (glyph % 6 === 5) continue; // Space between words
+      const x = 80 + glyph * 8;
+      const baseline = 130 + line * 22;
+      context.fillRect(x, baseline - 8, 6, 8);
+      if (glyph % 3 === 0) context.fillRect(x, baseline - 14, 2, 6); // Ascender
+    }
+  }
+  const png = await canvas.encode('png');
+  return { data: new Uint8Array(png), mimeType: 'image/png' };
+};
+
+describe('preprocessImage', () => {
+  it('should straighten, binarize and crop a page and record what it did', async () => {
+    const result = await preprocessImage(await scannedPage(), PREPROCESS_STEPS);
+
+    expect(result.mimeType).toBe('image/png');
+    expect(result.record).toMatchObject({
+      steps: [...PREPROCESS_STEPS],
+      rotation: 180,
+      originalSize: { width: 400, height: 500 },
+    });
+    expect(result.record.skewAngle).toBeCloseTo(2, 0);
+    expect(result.width).toBeLessThan(400);
+    expect(result.height).toBeLessThan(500);
+
+    const image = await loadImage(Buffer.from(result.data));
+    expect([image.width, image.height]).toEqual([result.width, result.height]);
+  });
+
+  it('should only run the steps it was given', async () => {
+    const result = await preprocessImage(await scannedPage(), ['deskew']);
+
+    expect(result.record).toMatchObject({
+      steps: ['grayscale', 'deskew'],
+      rotation: 0,
+    });
+    expect(result.record.crop).toBeUndefined();
+  });
+
+  it('should refuse data it cannot decode', async () => {
+    await expect(
+      preprocessImage(
+        { data: new Uint8Array([1, 2, 3]), mimeType: 'image/tiff' },
+        PREPROCESS_STEPS
+      )
+    ).rejects.toMatchObject({
+      message: 'Could not decode image/tiff image',
+      code: 'UNREADABLE_IMAGE',
+      retryable: false,
+    });
+  });
+});
+
+describe('toOriginalBox', () => {
+  it('should undo a crop and a quarter turn', () => {
+    // A 400x500 page turned clockwise to 500x400, then cropped
+    const record = {
+      steps: ['grayscale', 'orientation', 'crop'],
+      rotation: 90,
+      skewAngle: 0,
+      crop: { x: 10, y: 20, width: 300, height: 200 },
+      originalSize: { width: 400, height: 500 },
+      durationMs: 0,
+    };
+
+    expect(
+      toOriginalBox({ x: 0, y: 0, width: 10, height: 10 }, record)
+    ).toEqual({ x: 20, y: 480, width: 10, height: 10 });
+  });
+
+  it('should undo a deskew around the middle of the page', () => {
+    const record = {
+      steps: ['grayscale', 'deskew'],
+      rotation: 0,
+      skewAngle: 10,
+      originalSize: { width: 400, height: 500 },
+      durationMs: 0,
+    };
+    // The deskewed page grew to 481x562; its middle is the original's
+    const box = toOriginalBox(
+      { x: 230.5, y: 271, width: 20, height: 20 },
+      record
+    );
+
+    expect(box.x + box.width / 2).toBeCloseTo(200, 0);
+    expect(box.y + box.height / 2).toBeCloseTo(250, 0);
+    // A tilted square needs a bigger upright box around it
+    expect(box.width).toBeGreaterThan(20);
+  });
+
+  it('should put boxes on a preprocessed page back where they were', async () => {
+    const result = await preprocessImage(await scannedPage(), PREPROCESS_STEPS);
+    const whole = toOriginalBox(
+      { x: 0, y: 0, width: result.width, height: result.height },
+      result.record
+    );
+
+    // The part that was kept lies inside the original page, around its text
+    expect(whole.x).toBeGreaterThanOrEqual(0);
+    expect(whole.y).toBeGreaterThanOrEqual(0);
+    expect(whole.x + whole.width).toBeLessThanOrEqual(400);
+    expect(whole.y + whole.height).toBeLessThanOrEqual(500);
+    // The text was drawn at x 80-318, y 116-372 (turned around the middle)
+    expect(whole.x).toBeLessThanOrEqual(85);
+    expect(whole.x + whole.width).toBeGreaterThanOrEqual(315);
+    expect(whole.y).toBeLessThanOrEqual(130);
+    expect(whole.y + whole.height).toBeGreaterThanOrEqual(370);
+  });
+});
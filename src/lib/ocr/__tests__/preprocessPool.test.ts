@@ -0,0 +1,176 @@
+/**
+ * @jest-environment node
+ */
+
+// Tests for the preprocessing worker pool, with fake worker threads
+
+import { execFileSync } from 'child_process';
+import { EventEmitter } from 'events';
+import path from 'path';
+import { JobError } from '../../jobErrors';
+import type { PreprocessedImage } from '../preprocess';
+import { preprocessImage } from '../preprocess';
+import type {
+  PreprocessRequest,
+  PreprocessResponse,
+  PreprocessWorker,
+} from '../preprocessPool';
+import { createPreprocessPool } from '../preprocessPool';
+
+jest.mock('../preprocess', () => ({ preprocessImage: jest.fn() }));
+
+const cleanedUp: PreprocessedImage = {
+  data: new Uint8Array([9]),
+  mimeType: 'image/png',
+  width: 10,
+  height: 20,
+  record: { steps: ['grayscale'], rotation: 0, skewAngle: 0, durationMs: 5 },
+};
+
+// Says it's ready once started, then answers every page with `reply`
+class FakeWorker extends EventEmitter {
+  terminate = jest.fn(async () => 0);
+
+  constructor(
+    private readonly reply: (request: PreprocessRequest) => PreprocessResponse
+  ) {
+    super();
+    setImmediate(() => this.emit('message', { ready: true }));
+  }
+
+  postMessage(request: PreprocessRequest) {
+    setImmediate(() => this.emit('message', this.reply(request)));
+  }
+}
+
+const page = { data: new Uint8Array([1, 2, 3]), mimeType: 'image/png' };
+
+describe('createPreprocessPool', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should preprocess pages on a worker and reuse it', async () => {
+    const createWorker = jest.fn(
+      () =>
+        new FakeWorker(() => ({
+          image: cleanedUp,
+        })) as unknown as PreprocessWorker
+    );
+    const pool = createPreprocessPool({ size: 1, createWorker });
+
+    await expect(pool.preprocess(page, ['deskew'])).resolves.toEqual(cleanedUp);
+    await expect(pool.preprocess(page, ['deskew'])).resolves.toEqual(cleanedUp);
+    expect(createWorker).toHaveBeenCalledTimes(1);
+    expect(preprocessImage).not.toHaveBeenCalled();
+    await pool.close();
+  });
+
+  it('should turn a failure in the worker back into a JobError', async () => {
+    const pool = createPreprocessPool({
+      size: 1,
+      createWorker: () =>
+        new FakeWorker(() => ({
+          error: {
+            message: 'Could not decode image/tiff image',
+            code: 'UNREADABLE_IMAGE',
+            retryable: false,
+          },
+        })) as unknown as PreprocessWorker,
+    });
+
+    const error = await pool.preprocess(page, ['deskew']).catch(e => e);
+
+    expect(error).toBeInstanceOf(JobError);
+    expect(error).toMatchObject({
+      message: 'Could not decode image/tiff image',
+      code: 'UNREADABLE_IMAGE',
+      retryable: false,
+    });
+    await pool.close();
+  });
+
+  it('should preprocess on the main thread when no worker can start', async () => {
+    jest.mocked(preprocessImage).mockResolvedValue(cleanedUp);
+    const createWorker = jest.fn(() => {
+      const worker = new EventEmitter() as unknown as PreprocessWorker &
+        EventEmitter;
+      worker.terminate = async () => 1;
+      // What Node reports for a worker script it can't load
+      setImmediate(() =>
+        worker.emit('error', new Error('Unknown file extension ".ts"'))
+      );
+      return worker;
+    });
+    const pool = createPreprocessPool({
+      size: 1,
+      createWorker,
+      mainThreadFallback: true,
+    });
+
+    await expect(pool.preprocess(page, ['deskew'])).resolves.toEqual(cleanedUp);
+    await expect(pool.preprocess(page, ['deskew'])).resolves.toEqual(cleanedUp);
+    // Only tried once, not for every page
+    expect(createWorker).toHaveBeenCalledTimes(1);
+    expect(preprocessImage).toHaveBeenCalledWith(page, ['deskew'], undefined);
+    await pool.close();
+  });
+
+  it('should fail pages when no worker can start and there is no fallback', async () => {
+    const pool = createPreprocessPool({
+      size: 1,
+      createWorker: () => {
+        const worker = new EventEmitter() as unknown as PreprocessWorker &
+          EventEmitter;
+        worker.terminate = async () => 1;
+        setImmediate(() =>
+          worker.emit('error', new Error('Cannot find module'))
+        );
+        return worker;
+      },
+      mainThreadFallback: false,
+    });
+
+    await expect(pool.preprocess(page, ['deskew'])).rejects.toMatchObject({
+      code: 'NO_WORKER',
+    });
+    await pool.close();
+  });
+});
+
+describe('createPreprocessPool with the compiled worker', () => {
+  beforeAll(() => {
+    // What `npm run build:workers` does
+    execFileSync(
+      process.execPath,
+      [
+        path.join(process.cwd(), 'node_modules', 'typescript', 'bin', 'tsc'),
+        '-p',
+        'tsconfig.workers.json',
+      ],
+      { timeout: 120_000 }
+    );
+  }, 150_000);
+
+  it('should start a real worker thread and hear back from it', async () => {
+    jest.mocked(preprocessImage).mockClear();
+    const pool = createPreprocessPool({ size: 1, mainThreadFallback: false });
+
+    // Not an image - the worker's own preprocessImage says so
+    const error = await pool
+      .preprocess({ data: new Uint8Array([1, 2]), mimeType: 'image/png' }, [
+        'grayscale',
+      ])
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(JobError);
+    expect(error.code).toBe('UNREADABLE_IMAGE');
+    // ...and not the mocked one on this thread
+    expect(preprocessImage).not.toHaveBeenCalled();
+    await pool.close();
+  }, 30_000);
+});
@@ -0,0 +1,164 @@
+/**
+ * @jest-environment node
+ */
+
+// Unit tests for the PDF rasterizer, with a fake pdf.js document and canvas
+
+import { JobError } from '../../jobErrors';
+import { fitDpi, rasterizePdf } from '../rasterize';
+
+// The fake canvas "encodes" to its size, and `events` records the order
+// pages are drawn, released and handed out. `renderGate` holds renders
+// until it resolves.
+let renderGate: Promise<void> = Promise.resolve();
+const events: string[] = [];
+const cancel = jest.fn();
+const destroy = jest.fn(async () => {});
+
+jest.mock('pdfjs-dist/legacy/build/pdf.mjs', () => ({
+  VerbosityLevel: { ERRORS: 0 },
+  getDocument: () => ({
+    promise: Promise.resolve({
+      numPages: 3,
+      destroy,
+      canvasFactory: {
+        create: (width: number, height: number) => ({
+          canvas: {
+            width,
+            height,
+            encode: async () => Buffer.from(`png:${width}x${height}`),
+          },
+          context: {},
+        }),
+        destroy: () => events.push('canvas released'),
+      },
+      getPage: async (pageNumber: number) => ({
+        // US Letter: 612 x 792 points
+        getViewport: ({ scale }: { scale: number }) => ({
+          width: 612 * scale,
+          height: 792 * scale,
+        }),
+        render: () => {
+          events.push(`render ${pageNumber}`);
+          let rejectRender: (error: Error) => void = () => {};
+          const promise = new Promise<void>((resolve, reject) => {
+            rejectRender = reject;
+            renderGate.then(resolve);
+          });
+          return {
+            promise,
+            cancel: () => {
+              cancel();
+              rejectRender(new Error('Rendering cancelled'));
+            },
+          };
+        },
+        cleanup: () => {},
+      }),
+    }),
+  }),
+}));
+
+describe('rasterizePdf', () => {
+  beforeEach(() => {
+    renderGate = Promise.resolve();
+    events.length = 0;
+    cancel.mockClear();
+    destroy.mockClear();
+  });
+
+  it('should render the chosen pages at the chosen DPI, one at a time', async () => {
+    const pages = [];
+    for await (const page of rasterizePdf(new Uint8Array([1]), {
+      dpi: 150,
+      pages: [3, 1],
+    })) {
+      events.push(`got ${page.pageNumber}`);
+      pages.push(page);
+    }
+
+    expect(pages.map(page => page.pageNumber)).toEqual([3, 1]);
+    expect(pages[0]).toMatchObject({
+      pageCount: 3,
+      mimeType: 'image/png',
+      width: 1275,
+      height: 1650,
+      dpi: 150,
+    });
+    expect(Buffer.from(pages[0].data).toString()).toBe('png:1275x1650');
+    // Each page is released before the next one is drawn
+    expect(events).toEqual([
+      'render 3',
+      'canvas released',
+      'got 3',
+      'render 1',
+      'canvas released',
+      'got 1',
+    ]);
+    expect(destroy).toHaveBeenCalled();
+  });
+
+  it('should render every page at 300 DPI by default', async () => {
+    const sizes = [];
+    for await (const page of rasterizePdf(new Uint8Array([1]))) {
+      sizes.push([page.pageNumber, page.width]);
+    }
+
+    expect(sizes).toEqual([
+      [1, 2550],
+      [2, 2550],
+      [3, 2550],
+    ]);
+  });
+
+  it('should stop when the caller stops reading', async () => {
+    for await (const page of rasterizePdf(new Uint8Array([1]))) {
+      expect(page.pageNumber).toBe(1);
+      break;
+    }
+
+    expect(events.filter(event => event.startsWith('render'))).toEqual([
+      'render 1',
+    ]);
+    expect(destroy).toHaveBeenCalled();
+  });
+
+  it('should cancel the render in progress when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const cancelled = new JobError('Job was cancelled', { retryable: false });
+    renderGate = new Promise(() => {}); // Never finishes on its own
+
+    const pending = rasterizePdf(new Uint8Array([1]), {
+      signal: controller.signal,
+    }).next();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.abort(cancelled);
+
+    await expect(pending).rejects.toBe(cancelled);
+    expect(cancel).toHaveBeenCalled();
+    expect(events).toContain('canvas released');
+    expect(destroy).toHaveBeenCalled();
+  });
+
+  it('should refuse pages the document does not have', async () => {
+    const pages = rasterizePdf(new Uint8Array([1]), { pages: [2, 7] });
+
+    await expect(pages.next()).rejects.toMatchObject({
+      message: 'Page 7 not in document (3 pages)',
+      code: 'INVALID_OPTIONS',
+      retryable: false,
+    });
+  });
+});
+
+describe('fitDpi', () => {
+  it('should lower the DPI only for pages too large to render', () => {
+    expect(fitDpi({ width: 612, height: 792 }, 300)).toBe(300);
+    // A0 poster (2384 x 3370 points) would be 9933 x 14042 pixels at 300 DPI
+    const dpi = fitDpi({ width: 2384, height: 3370 }, 300);
+    expect(dpi).toBeLessThan(300);
+    expect(((2384 * dpi) / 72) * ((3370 * dpi) / 72)).toBeLessThanOrEqual(
+      40_000_000
+    );
+  });
+});
@@ -0,0 +1,146 @@
+// Unit tests for the OCR provider contract helpers and the registry
+
+import { JobError } from '../../jobErrors';
+import {
+  OcrCapabilities,
+  OcrProvider,
+  OcrProviderHealth,
+  checkSupport,
+  normalizeOcrPage,
+} from '../provider';
+import { OcrProviderRegistry } from '../registry';
+
+const capabilities: OcrCapabilities = {
+  languages: ['eng', 'spa'],
+  boundingBoxes: true,
+  tables: false,
+  maxPages: 1,
+  inputFormats: ['image/png', 'image/jpeg'],
+};
+
+// A provider whose health check does whatever the test needs
+const fakeProvider = (
+  name: OcrProvider['name'],
+  checkHealth: () => Promise<OcrProviderHealth>
+): OcrProvider => ({
+  name,
+  capabilities,
+  checkHealth,
+  recognize: async () => ({ provider: name, pages: [], durationMs: 0 }),
+});
+
+describe('OCR provider helpers', () => {
+  it('should normalize text, line endings and confidence', () => {
+    const page = normalizeOcrPage({
+      pageNumber: 2,
+      text: '  Invoice #12  \r\nTotal:   $40  \r\n\r\n',
+      confidence: 87,
+      words: [
+        {
+          text: 'Invoice',
+          confidence: 91,
+          box: { x: 0, y: 0, width: 10, height: 4 },
+        },
+      ],
+      tables: [],
+    });
+
+    expect(page.text).toBe('Invoice #12\nTotal:   $40');
+    expect(page.confidence).toBe(0.87);
+    expect(page.words?.[0].confidence).toBe(0.91);
+    expect(page.tables).toBeUndefined();
+  });
+
+  it('should compose accents so diacritics compare and export as one character', () => {
+    // 'é' as e + combining acute, the way some engines and PDFs spell it
+    const decomposed = 'Cafe\u0301 cre\u0300me'.normalize('NFD');
+    const page = normalizeOcrPage({
+      pageNumber: 1,
+      text: decomposed,
+      confidence: 1,
+      words: [
+        {
+          text: 'Cafe\u0301',
+          confidence: 1,
+          box: { x: 0, y: 0, width: 10, height: 4 },
+        },
+      ],
+    });
+
+    expect(page.text).toBe('Café crème');
+    expect(page.text).toHaveLength(10);
+    expect(page.words?.[0].text).toBe('Café');
+  });
+
+  it('should explain why a provider cannot handle a request', () => {
+    const png = { mimeType: 'image/png' };
+
+    expect(checkSupport(capabilities, png, { languages: ['eng'] })).toBe(
+      undefined
+    );
+    expect(checkSupport(capabilities, { mimeType: 'application/pdf' })).toBe(
+      "Unsupported input format 'application/pdf'"
+    );
+    expect(checkSupport(capabilities, png, {}, 3)).toBe(
+      'Too many pages (3, max 1)'
+    );
+    expect(checkSupport(capabilities, png, { languages: ['deu'] })).toBe(
+      'Unsupported languages: deu'
+    );
+    expect(checkSupport(capabilities, png, { tables: true })).toBe(
+      'Tables are not supported'
+    );
+  });
+});
+
+describe('OcrProviderRegistry', () => {
+  it('should resolve registered providers by name', () => {
+    const registry = new OcrProviderRegistry();
+    const tesseract = fakeProvider('tesseract', async () => ({
+      healthy: true,
+    }));
+    registry.register(tesseract);
+
+    expect(registry.resolve('tesseract')).toBe(tesseract);
+    expect(registry.list()).toEqual([tesseract]);
+  });
+
+  it('should refuse to resolve a provider that is not registered', () => {
+    const registry = new OcrProviderRegistry();
+
+    expect(() => registry.resolve('mistral')).toThrow(JobError);
+    expect(() => registry.resolve('mistral')).toThrow(
+      "OCR provider 'mistral' is not registered"
+    );
+  });
+
+  it('should report health without failing on a broken provider', async () => {
+    jest.useFakeTimers();
+    const registry = new OcrProviderRegistry();
+    registry.register(
+      fakeProvider('tesseract', async () => {
+        throw new Error('traineddata missing');
+      })
+    );
+    registry.register(fakeProvider('mistral', () => new Promise(() => {})));
+
+    const statusPromise = registry.status(1000);
+    await jest.advanceTimersByTimeAsync(1000);
+    const status = await statusPromise;
+    jest.useRealTimers();
+
+    expect(status).toEqual([
+      expect.objectContaining({
+        name: 'tesseract',
+        healthy: false,
+        message: 'traineddata missing',
+      }),
+      expect.objectContaining({
+        name: 'mistral',
+        healthy: false,
+        message: 'Health check timed out after 1000ms',
+      }),
+    ]);
+    expect(status[0].capabilities.maxPages).toBe(1);
+  });
+});
@@ -0,0 +1,242 @@
+// Unit tests for the Tesseract provider and its worker pool, with fake
+// engines standing in for tesseract.js worker threads
+
+import { mkdtempSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Page, RecognizeResult } from 'tesseract.js';
+import { JobError } from '../../jobErrors';
+import { TesseractEngine, TesseractProvider } from '../tesseract';
+import { WorkerPool } from '../workerPool';
+
+const png = { data: new Uint8Array([137, 80, 78, 71]), mimeType: 'image/png' };
+
+// What Tesseract returns for a page reading "Total $40"
+const recognizedPage = {
+  text: 'Total $40\n',
+  confidence: 88,
+  blocks: [
+    {
+      paragraphs: [
+        {
+          lines: [
+            {
+              words: [
+                {
+                  text: 'Total',
+                  confidence: 92,
+                  bbox: { x0: 10, y0: 20, x1: 60, y1: 40 },
+                },
+                {
+                  text: '$40',
+                  confidence: 84,
+                  bbox: { x0: 70, y0: 20, x1: 100, y1: 40 },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+} as unknown as Page;
+
+// A fake worker; `recognize` can be swapped per test
+const fakeEngine = (
+  recognize: () => Promise<RecognizeResult> = async () =>
+    ({ data: recognizedPage }) as RecognizeResult
+) => ({
+  recognize: jest.fn(recognize),
+  reinitialize: jest.fn(async () => ({ jobId: 'reinitialize', data: null })),
+  terminate: jest.fn(async () => ({ jobId: 'terminate', data: null })),
+});
+
+describe('TesseractProvider', () => {
+  it('should return text, mean confidence and word boxes for a page', async () => {
+    const engine = fakeEngine();
+    const provider = new TesseractProvider({
+      createWorker: async () => engine as unknown as TesseractEngine,
+    });
+
+    const result = await provider.recognize({ ...png, pageNumber: 3 });
+
+    expect(result.provider).toBe('tesseract');
+    expect(result.pages).toEqual([
+      {
+        pageNumber: 3,
+        text: 'Total $40',
+        confidence: 0.88,
+        words: [
+          {
+            text: 'Total',
+            confidence: 0.92,
+            box: { x: 10, y: 20, width: 50, height: 20 },
+          },
+          {
+            text: '$40',
+            confidence: 0.84,
+            box: { x: 70, y: 20, width: 30, height: 20 },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should reuse workers across pages instead of starting new ones', async () => {
+    const createWorker = jest.fn(
+      async () => fakeEngine() as unknown as TesseractEngine
+    );
+    const provider = new TesseractProvider({ createWorker, poolSize: 2 });
+
+    await provider.recognize(png);
+    await provider.recognize(png);
+    await provider.recognize(png);
+
+    expect(createWorker).toHaveBeenCalledTimes(1);
+    expect(createWorker).toHaveBeenCalledWith(
+      ['eng'],
+      expect.stringContaining('4.0.0_best_int')
+    );
+  });
+
+  it('should terminate the worker when a page is cancelled mid-recognition', async () => {
+    let started: () => void = () => {};
+    const recognizing = new Promise<void>(resolve => (started = resolve));
+    const stuck = fakeEngine(() => {
+      started();
+      return new Promise(() => {}); // Never finishes on its own
+    });
+    const fresh = fakeEngine();
+    const createWorker = jest
+      .fn()
+      .mockResolvedValueOnce(stuck)
+      .mockResolvedValueOnce(fresh);
+    const provider = new TesseractProvider({ createWorker, poolSize: 1 });
+
+    const controller = new AbortController();
+    const cancelled = new JobError('Job was cancelled', {
+      retryable: false,
+      code: 'CANCELLED',
+    });
+    const pending = provider.recognize(png, {}, controller.signal);
+    await recognizing;
+    controller.abort(cancelled);
+
+    await expect(pending).rejects.toBe(cancelled);
+    expect(stuck.terminate).toHaveBeenCalled();
+
+    // The next page gets a new worker
+    const result = await provider.recognize(png);
+    expect(result.pages[0].text).toBe('Total $40');
+    expect(createWorker).toHaveBeenCalledTimes(2);
+  });
+
+  it('should load the languages a page asks for and keep them loaded', async () => {
+    // A model folder with English, Spanish and Simplified Chinese
+    const langPath = mkdtempSync(path.join(os.tmpdir(), 'tessdata-'));
+    for (const code of ['eng', 'spa', 'chi_sim']) {
+      writeFileSync(path.join(langPath, `${code}.traineddata.gz`), '');
+    }
+    const engine = fakeEngine();
+    const createWorker = jest.fn(
+      async () => engine as unknown as TesseractEngine
+    );
+    const provider = new TesseractProvider({
+      langPath,
+      createWorker,
+      poolSize: 1,
+    });
+
+    expect(provider.capabilities.languages).toEqual(
+      expect.arrayContaining(['eng', 'spa', 'zho'])
+    );
+
+    await provider.recognize(png);
+    expect(engine.reinitialize).not.toHaveBeenCalled();
+
+    await provider.recognize(png, { languages: ['spa'] });
+    await provider.recognize(png, { languages: ['spa'] });
+    expect(engine.reinitialize).toHaveBeenCalledTimes(1);
+    expect(engine.reinitialize).toHaveBeenLastCalledWith('spa');
+
+    await provider.recognize(png, { languages: ['zho', 'eng'] });
+    expect(engine.reinitialize).toHaveBeenLastCalledWith('chi_sim+eng');
+    expect(createWorker).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject input it cannot read without starting a worker', async () => {
+    const createWorker = jest.fn();
+    const provider = new TesseractProvider({ createWorker });
+
+    await expect(
+      provider.recognize({ ...png, mimeType: 'application/pdf' })
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_INPUT', retryable: false });
+    await expect(
+      provider.recognize(png, { languages: ['deu'] })
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_INPUT' });
+    expect(createWorker).not.toHaveBeenCalled();
+  });
+
+  it('should mark engine crashes retryable', async () => {
+    const provider = new TesseractProvider({
+      createWorker: async () =>
+        fakeEngine(async () => {
+          throw new Error('RuntimeError: memory access out of bounds');
+        }) as unknown as TesseractEngine,
+    });
+
+    await expect(provider.recognize(png)).rejects.toMatchObject({
+      code: 'ENGINE_ERROR',
+      retryable: true,
+      provider: 'tesseract',
+    });
+  });
+
+  it('should be healthy only when the traineddata files are present', async () => {
+    const bundled = new TesseractProvider();
+    const missing = new TesseractProvider({ languages: ['eng', 'xyz'] });
+
+    await expect(bundled.checkHealth()).resolves.toMatchObject({
+      healthy: true,
+    });
+    await expect(missing.checkHealth()).resolves.toMatchObject({
+      healthy: false,
+      message: expect.stringContaining('Missing traineddata for xyz'),
+    });
+  });
+});
+
+describe('WorkerPool', () => {
+  it('should make callers wait when every worker is busy', async () => {
+    let created = 0;
+    const pool = new WorkerPool({
+      size: 1,
+      create: async () => ++created,
+      destroy: async () => {},
+    });
+
+    const first = await pool.acquire();
+    const second = pool.acquire();
+    expect(pool.stats).toMatchObject({ busy: 1, waiting: 1 });
+
+    pool.release(first);
+    await expect(second).resolves.toBe(first);
+    expect(created).toBe(1);
+  });
+
+  it('should drop a waiting caller whose job is cancelled', async () => {
+    const pool = new WorkerPool({
+      size: 1,
+      create: async () => 'worker',
+      destroy: async () => {},
+    });
+    await pool.acquire();
+
+    const controller = new AbortController();
+    const waiting = pool.acquire(controller.signal);
+    controller.abort(new Error('cancelled'));
+
+    await expect(waiting).rejects.toThrow('cancelled');
+    expect(pool.stats.waiting).toBe(0);
+  });
+});
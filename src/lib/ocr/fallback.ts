@@ -0,0 +1,313 @@
+/**
+ * OCR Fallback Chain - choosing between providers page by page
+ *
+ * Providers are tried in order (OCR_PROVIDER first, then
+ * OCR_FALLBACK_PROVIDERS). A page moves on to the next provider when the
+ * current one:
+ * - can't take it at all (format, languages, tables...)
+ * - throws, or takes longer than the per-page timeout
+ * - returns it with confidence below the threshold
+ *
+ * Only the pages that fell short are re-run, and when no provider clears
+ * the threshold the best-scoring answer wins. Every PageResult says which
+ * provider produced it and lists the ones passed over, with the reason.
+ */
+
+import { JobError } from '../jobErrors';
+import type { PageFallback, PageResult } from '../jobResults';
+import {
+  checkSupport,
+  OcrInput,
+  OcrOptions,
+  OcrProvider,
+  toPageResult,
+} from './provider';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface OcrFallbackOptions {
+  providers: OcrProvider[]; // In order of preference
+  minConfidence: number; // 0-1; below this the next provider is tried
+  timeoutMs?: number; // Per page, per provider (none if unset)
+}
+
+// =============================================================================
+// CHAIN
+// =============================================================================
+
+export class OcrFallbackChain {
+  readonly providers: OcrProvider[];
+  private readonly minConfidence: number;
+  private readonly timeoutMs?: number;
+
+  constructor(options: OcrFallbackOptions) {
+    if (options.providers.length === 0) {
+      throw new Error('OCR fallback chain needs at least one provider');
+    }
+    this.providers = options.providers;
+    this.minConfidence = options.minConfidence;
+    this.timeoutMs = options.timeoutMs;
+  }
+
+  /**
+   * Read every page (one page image per input), in order
+   */
+  async recognizePages(
+    pages: OcrInput[],
+    options: OcrOptions = {},
+    signal?: AbortSignal
+  ): Promise<PageResult[]> {
+    const results: PageResult[] = [];
+    for (const page of pages) {
+      results.push(await this.recognizePage(page, options, signal));
+    }
+    return results;
+  }
+
+  /**
+   * Read one page, falling back down the chain until a provider is
+   * confident enough. Throws only if no provider returned anything.
+   */
+  async recognizePage(
+    input: OcrInput,
+    options: OcrOptions = {},
+    signal?: AbortSignal
+  ): Promise<PageResult> {
+    const pageNumber = input.pageNumber ?? 1;
+    const fallbacks: PageFallback[] = [];
+    const errors: unknown[] = [];
+    let best: PageResult | undefined;
+
+    for (const provider of this.providers) {
+      const unsupported = checkSupport(provider.capabilities, input, options);
+      if (unsupported) {
+        fallbacks.push({
+          provider: provider.name,
+          reason: 'unsupported',
+          message: unsupported,
+        });
+        continue;
+      }
+
+      const startedAt = Date.now();
+      try {
+        const result = await this.recognizeWithTimeout(
+          provider,
+          { ...input, pageNumber },
+          options,
+          signal
+        );
+        const page = result.pages[0] ?? {
+          pageNumber,
+          text: '',
+          confidence: 0,
+        };
+        const pageResult = toPageResult(
+          page,
+          provider.name,
+          Date.now() - startedAt
+        );
+
+        if (page.confidence >= this.minConfidence) {
+          return withFallbacks(pageResult, fallbacks);
+        }
+
+        fallbacks.push({
+          provider: provider.name,
+          reason: 'low-confidence',
+          message: `Confidence ${page.confidence.toFixed(2)} is below ${this.minConfidence.toFixed(2)}`,
+          confidence: page.confidence,
+        });
+        // Ties go to the provider tried first
+        if (!best || pageResult.confidence > best.confidence) {
+          best = pageResult;
+        }
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason; // The job was cancelled
+
+        errors.push(error);
+        fallbacks.push({
+          provider: provider.name,
+          reason: isTimeout(error) ? 'timeout' : 'error',
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      console.log(
+        `⚠️ Page ${pageNumber}: ${provider.name} fell short (${fallbacks[fallbacks.length - 1].reason})`
+      );
+    }
+
+    const kept = best;
+    if (kept) {
+      // The kept answer's own entry isn't a fallback
+      return withFallbacks(
+        kept,
+        fallbacks.filter(fallback => fallback.provider !== kept.provider)
+      );
+    }
+    throw chainError(`page ${pageNumber}`, errors, fallbacks);
+  }
+
+  /**
+   * Read a whole multi-page document (e.g. a PDF) in one call per provider.
+   * Without page images there is nothing to re-run page by page, so a
+   * provider's answer is kept or passed over as a whole, judged by its mean
+   * page confidence. Every page records the same fallbacks.
+   */
+  async recognizeDocument(
+    input: OcrInput,
+    options: OcrOptions = {},
+    signal?: AbortSignal
+  ): Promise<PageResult[]> {
+    const fallbacks: PageFallback[] = [];
+    const errors: unknown[] = [];
+    let best: { pages: PageResult[]; confidence: number } | undefined;
+
+    for (const provider of this.providers) {
+      // Page count isn't known yet - a provider must take the whole file
+      const unsupported = checkSupport(provider.capabilities, input, options);
+      if (unsupported || provider.capabilities.maxPages < 2) {
+        fallbacks.push({
+          provider: provider.name,
+          reason: 'unsupported',
+          message: unsupported ?? 'Reads one page image at a time',
+        });
+        continue;
+      }
+
+      const startedAt = Date.now();
+      try {
+        const result = await this.recognizeWithTimeout(
+          provider,
+          input,
+          options,
+          signal
+        );
+        // Provider time is spread evenly over the pages it returned
+        const perPageMs =
+          (Date.now() - startedAt) / Math.max(1, result.pages.length);
+        const pages = result.pages.map(page =>
+          toPageResult(page, provider.name, perPageMs)
+        );
+        const confidence = meanConfidence(pages);
+
+        if (pages.length > 0 && confidence >= this.minConfidence) {
+          return pages.map(page => withFallbacks(page, fallbacks));
+        }
+
+        fallbacks.push({
+          provider: provider.name,
+          reason: 'low-confidence',
+          message: `Mean confidence ${confidence.toFixed(2)} is below ${this.minConfidence.toFixed(2)}`,
+          confidence,
+        });
+        if (pages.length > 0 && (!best || confidence > best.confidence)) {
+          best = { pages, confidence };
+        }
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+
+        errors.push(error);
+        fallbacks.push({
+          provider: provider.name,
+          reason: isTimeout(error) ? 'timeout' : 'error',
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const kept = best;
+    if (kept) {
+      const keptProvider = kept.pages[0].provider;
+      const passedOver = fallbacks.filter(
+        fallback => fallback.provider !== keptProvider
+      );
+      return kept.pages.map(page => withFallbacks(page, passedOver));
+    }
+    throw chainError('the document', errors, fallbacks);
+  }
+
+  // Run one provider, aborting it if it takes longer than timeoutMs
+  private async recognizeWithTimeout(
+    provider: OcrProvider,
+    input: OcrInput,
+    options: OcrOptions,
+    signal?: AbortSignal
+  ) {
+    if (!this.timeoutMs) {
+      return provider.recognize(input, options, signal);
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(
+      () =>
+        controller.abort(
+          new JobError(
+            `${provider.name} took longer than ${this.timeoutMs}ms on page ${input.pageNumber}`,
+            { retryable: true, code: 'TIMEOUT', provider: provider.name }
+          )
+        ),
+      this.timeoutMs
+    );
+
+    try {
+      return await provider.recognize(input, options, controller.signal);
+    } catch (error) {
+      // Report the timeout even if the provider threw something else
+      // while being aborted
+      throw controller.signal.aborted && !signal?.aborted
+        ? controller.signal.reason
+        : error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function withFallbacks(
+  page: PageResult,
+  fallbacks: PageFallback[]
+): PageResult {
+  return fallbacks.length > 0 ? { ...page, fallbacks } : page;
+}
+
+function meanConfidence(pages: PageResult[]): number {
+  if (pages.length === 0) return 0;
+  return pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length;
+}
+
+function isTimeout(error: unknown): boolean {
+  return error instanceof JobError && error.code === 'TIMEOUT';
+}
+
+// Every provider failed. Retry the job if any failure was transient
+// (e.g. Mistral rate-limited while Tesseract couldn't take the format).
+function chainError(
+  what: string,
+  errors: unknown[],
+  fallbacks: PageFallback[]
+): JobError {
+  const summary = fallbacks
+    .map(fallback => `${fallback.provider}: ${fallback.message}`)
+    .join('; ');
+  const transient = errors.find(
+    (error): error is JobError => error instanceof JobError && error.retryable
+  );
+
+  return new JobError(`No OCR provider could read ${what} (${summary})`, {
+    retryable: Boolean(transient),
+    code: transient?.code ?? 'ALL_PROVIDERS_FAILED',
+    provider: transient?.provider,
+    retryAfterMs: transient?.retryAfterMs,
+    cause: errors[errors.length - 1],
+  });
+}
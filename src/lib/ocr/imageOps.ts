@@ -0,0 +1,612 @@
+/**
+ * Image Operations - the pixel work behind OCR preprocessing
+ *
+ * Plain TypeScript on 8-bit grayscale buffers (0 = black, 255 = white), so
+ * there is no native image library to install and every step can be unit
+ * tested on a few hand-made pixels. All operations are O(pixels) or close,
+ * and the analysis steps (orientation, skew) run on a downscaled copy. Still,
+ * an A4 page at 300 DPI is close to 9 million pixels: the full pipeline
+ * takes 2-3 seconds of CPU per page, which is why it runs on a worker
+ * thread (see preprocessPool.ts).
+ *
+ * See preprocess.ts for the order the steps run in.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // One byte per pixel, row by row
+}
+
+/**
+ * Clockwise turn that makes a page upright
+ */
+export type PageRotation = 0 | 90 | 180 | 270;
+
+export interface CropBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Pixels darker than this count as ink
+const INK_THRESHOLD = 128;
+
+// =============================================================================
+// CONVERSION
+// =============================================================================
+
+/**
+ * Grayscale from RGBA pixels (as canvas getImageData returns them), with
+ * transparent areas treated as white paper
+ */
+export function grayFromRgba(
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number
+): GrayImage {
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; i < data.length; i++, p += 4) {
+    // Rec. 601 luma, the weights most OCR engines use
+    const luma = 0.299 * rgba[p] + 0.587 * rgba[p + 1] + 0.114 * rgba[p + 2];
+    const alpha = rgba[p + 3] / 255;
+    data[i] = luma * alpha + 255 * (1 - alpha);
+  }
+  return { width, height, data };
+}
+
+/**
+ * RGBA pixels for a grayscale image (for encoding it back to PNG)
+ */
+export function grayToRgba(image: GrayImage): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(image.data.length * 4);
+  for (let i = 0, p = 0; i < image.data.length; i++, p += 4) {
+    rgba[p] = rgba[p + 1] = rgba[p + 2] = image.data[i];
+    rgba[p + 3] = 255;
+  }
+  return rgba;
+}
+
+// =============================================================================
+// TONE
+// =============================================================================
+
+/**
+ * Stretch the darkest and lightest `clip` share of pixels to black and
+ * white - fixes dim photos and grey, washed-out scans
+ */
+export function normalizeContrast(image: GrayImage, clip = 0.01): GrayImage {
+  const histogram = new Uint32Array(256);
+  for (const value of image.data) histogram[value]++;
+
+  const clipCount = image.data.length * clip;
+  let low = 0;
+  for (let seen = 0; low < 255; low++) {
+    seen += histogram[low];
+    if (seen > clipCount) break;
+  }
+  let high = 255;
+  for (let seen = 0; high > 0; high--) {
+    seen += histogram[high];
+    if (seen > clipCount) break;
+  }
+  // A blank page (or one flat colour) has nothing to stretch
+  if (high - low < 8) {
+    return { ...image, data: image.data.slice() };
+  }
+
+  const lookup = new Uint8ClampedArray(256);
+  for (let value = 0; value < 256; value++) {
+    lookup[value] = ((value - low) * 255) / (high - low);
+  }
+  return { ...image, data: image.data.map(value => lookup[value]) };
+}
+
+/**
+ * 3x3 median filter - removes salt-and-pepper noise and JPEG speckle
+ * without blurring letter edges the way an average would
+ */
+export function medianDenoise(image: GrayImage): GrayImage {
+  const { width, height, data } = image;
+  const out = new Uint8ClampedArray(data.length);
+  const window = new Uint8Array(9);
+
+  for (let y = 0; y < height; y++) {
+    const above = Math.max(0, y - 1) * width;
+    const row = y * width;
+    const below = Math.min(height - 1, y + 1) * width;
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - 1);
+      const right = Math.min(width - 1, x + 1);
+      window[0] = data[above + left];
+      window[1] = data[above + x];
+      window[2] = data[above + right];
+      window[3] = data[row + left];
+      window[4] = data[row + x];
+      window[5] = data[row + right];
+      window[6] = data[below + left];
+      window[7] = data[below + x];
+      window[8] = data[below + right];
+      out[row + x] = median9(window);
+    }
+  }
+  return { width, height, data: out };
+}
+
+/**
+ * Adaptive (Bradley) binarization: a pixel is ink when it is `sensitivity`
+ * darker than the average of the window around it. Unlike one global
+ * threshold, this copes with shadows and uneven lighting on phone photos.
+ */
+export function binarizeAdaptive(
+  image: GrayImage,
+  options: { windowSize?: number; sensitivity?: number } = {}
+): GrayImage {
+  const { width, height, data } = image;
+  const windowSize =
+    options.windowSize ??
+    Math.max(15, Math.round(Math.min(width, height) / 16));
+  const sensitivity = options.sensitivity ?? 0.15;
+  const mean = boxMean(image, Math.floor(windowSize / 2));
+
+  const out = new Uint8ClampedArray(data.length);
+  for (let i = 0; i < data.length; i++) {
+    out[i] = data[i] < mean[i] * (1 - sensitivity) ? 0 : 255;
+  }
+  return { width, height, data: out };
+}
+
+// =============================================================================
+// GEOMETRY
+// =============================================================================
+
+/**
+ * Turn an image clockwise by a multiple of 90 degrees (lossless)
+ */
+export function rotateRightAngle(
+  image: GrayImage,
+  rotation: PageRotation
+): GrayImage {
+  const { width, height, data } = image;
+  if (rotation === 0) {
+    return { ...image, data: data.slice() };
+  }
+
+  const turned = rotation !== 180;
+  const outWidth = turned ? height : width;
+  const outHeight = turned ? width : height;
+  const out = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let outX: number;
+      let outY: number;
+      if (rotation === 90) {
+        outX = height - 1 - y;
+        outY = x;
+      } else if (rotation === 180) {
+        outX = width - 1 - x;
+        outY = height - 1 - y;
+      } else {
+        outX = y;
+        outY = width - 1 - x;
+      }
+      out[outY * outWidth + outX] = data[y * width + x];
+    }
+  }
+  return { width: outWidth, height: outHeight, data: out };
+}
+
+/**
+ * Rotate clockwise by any angle (degrees), with bilinear sampling. The image
+ * grows to fit the rotated page, and the new corners are filled with `fill`
+ * (the paper's own shade, so they don't show up as edges later).
+ */
+export function rotate(
+  image: GrayImage,
+  degrees: number,
+  fill = paperLevel(image)
+): GrayImage {
+  const { width, height, data } = image;
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const outWidth = Math.round(Math.abs(width * cos) + Math.abs(height * sin));
+  const outHeight = Math.round(Math.abs(width * sin) + Math.abs(height * cos));
+  const out = new Uint8ClampedArray(outWidth * outHeight).fill(fill);
+
+  // Walk the output and sample the source through the inverse rotation
+  const centerX = (width - 1) / 2;
+  const centerY = (height - 1) / 2;
+  const outCenterX = (outWidth - 1) / 2;
+  const outCenterY = (outHeight - 1) / 2;
+  for (let y = 0; y < outHeight; y++) {
+    const dy = y - outCenterY;
+    for (let x = 0; x < outWidth; x++) {
+      const dx = x - outCenterX;
+      const sourceX = dx * cos + dy * sin + centerX;
+      const sourceY = -dx * sin + dy * cos + centerY;
+      if (
+        sourceX < 0 ||
+        sourceY < 0 ||
+        sourceX > width - 1 ||
+        sourceY > height - 1
+      ) {
+        continue;
+      }
+
+      const x0 = Math.floor(sourceX);
+      const y0 = Math.floor(sourceY);
+      const x1 = Math.min(x0 + 1, width - 1);
+      const y1 = Math.min(y0 + 1, height - 1);
+      const fx = sourceX - x0;
+      const fy = sourceY - y0;
+      const top = data[y0 * width + x0] * (1 - fx) + data[y0 * width + x1] * fx;
+      const bottom =
+        data[y1 * width + x0] * (1 - fx) + data[y1 * width + x1] * fx;
+      out[y * outWidth + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return { width: outWidth, height: outHeight, data: out };
+}
+
+/**
+ * The shade of the paper: the most common pixel value, since most of a
+ * page is background
+ */
+export function paperLevel(image: GrayImage): number {
+  const histogram = new Uint32Array(256);
+  for (const value of image.data) histogram[value]++;
+  let level = 255;
+  for (let value = 0; value < 256; value++) {
+    if (histogram[value] > histogram[level]) level = value;
+  }
+  return level;
+}
+
+/**
+ * Smaller copy (nearest neighbour) whose longest side is at most `maxSize`,
+ * and the factor it was shrunk by
+ */
+export function downscale(
+  image: GrayImage,
+  maxSize: number
+): { image: GrayImage; factor: number } {
+  const factor = Math.max(image.width, image.height) / maxSize;
+  if (factor <= 1) {
+    return { image, factor: 1 };
+  }
+
+  const width = Math.max(1, Math.round(image.width / factor));
+  const height = Math.max(1, Math.round(image.height / factor));
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const sourceRow = Math.min(image.height - 1, Math.floor(y * factor));
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(image.width - 1, Math.floor(x * factor));
+      data[y * width + x] = image.data[sourceRow * image.width + sourceX];
+    }
+  }
+  return { image: { width, height, data }, factor };
+}
+
+/**
+ * Cut away dark scanner borders and blank margins, keeping a small margin
+ * around the text (OCR engines read text that touches the edge badly).
+ * Returns the image unchanged when there is no ink at all.
+ */
+export function cropBorders(image: GrayImage): {
+  image: GrayImage;
+  box: CropBox;
+} {
+  const { width, height } = image;
+  const rowInk = inkProfile(image, 'rows');
+  const columnInk = inkProfile(image, 'columns');
+
+  // Step 1: Skip solid dark bands along each edge (scanner lid, book spine)
+  const dark = (count: number, length: number) => count > length * 0.5;
+  const maxBorderRows = Math.floor(height * 0.1);
+  const maxBorderColumns = Math.floor(width * 0.1);
+  let top = 0;
+  while (top < maxBorderRows && dark(rowInk[top], width)) top++;
+  let bottom = height - 1;
+  while (height - 1 - bottom < maxBorderRows && dark(rowInk[bottom], width))
+    bottom--;
+  let left = 0;
+  while (left < maxBorderColumns && dark(columnInk[left], height)) left++;
+  let right = width - 1;
+  while (width - 1 - right < maxBorderColumns && dark(columnInk[right], height))
+    right--;
+
+  // Step 2: Shrink to the rows and columns with real ink inside those
+  // borders (counted without them) - a few stray specks don't count
+  const inner = {
+    x: left,
+    y: top,
+    width: Math.max(0, right - left + 1),
+    height: Math.max(0, bottom - top + 1),
+  };
+  const inside = crop(image, inner);
+  const innerRowInk = inkProfile(inside, 'rows');
+  const innerColumnInk = inkProfile(inside, 'columns');
+  const hasInk = (count: number, length: number) =>
+    count > Math.max(1, length * 0.002);
+  let inkTop = 0;
+  while (inkTop < inner.height && !hasInk(innerRowInk[inkTop], inner.width))
+    inkTop++;
+  let inkBottom = inner.height - 1;
+  while (inkBottom >= inkTop && !hasInk(innerRowInk[inkBottom], inner.width))
+    inkBottom--;
+  let inkLeft = 0;
+  while (
+    inkLeft < inner.width &&
+    !hasInk(innerColumnInk[inkLeft], inner.height)
+  )
+    inkLeft++;
+  let inkRight = inner.width - 1;
+  while (inkRight >= inkLeft && !hasInk(innerColumnInk[inkRight], inner.height))
+    inkRight--;
+  if (inkTop > inkBottom || inkLeft > inkRight) {
+    return {
+      image: { ...image, data: image.data.slice() },
+      box: { x: 0, y: 0, width, height },
+    };
+  }
+
+  // Step 3: Leave a margin, without going back into a dark border
+  const margin = Math.round(Math.max(width, height) * 0.01);
+  const box = {
+    x: left + Math.max(0, inkLeft - margin),
+    y: top + Math.max(0, inkTop - margin),
+    width: 0,
+    height: 0,
+  };
+  box.width = left + Math.min(inner.width - 1, inkRight + margin) - box.x + 1;
+  box.height = top + Math.min(inner.height - 1, inkBottom + margin) - box.y + 1;
+
+  return { image: crop(image, box), box };
+}
+
+/**
+ * Copy out part of an image
+ */
+export function crop(image: GrayImage, box: CropBox): GrayImage {
+  const data = new Uint8ClampedArray(box.width * box.height);
+  for (let y = 0; y < box.height; y++) {
+    const start = (box.y + y) * image.width + box.x;
+    data.set(image.data.subarray(start, start + box.width), y * box.width);
+  }
+  return { width: box.width, height: box.height, data };
+}
+
+// =============================================================================
+// ANALYSIS
+// =============================================================================
+
+/**
+ * How far text lines are tilted, in degrees clockwise (within ±maxAngle).
+ * Expects a binarized image. Projection-profile method: the angle at which
+ * ink piles up into the sharpest rows is the angle of the lines. Returns 0
+ * when there is too little ink to tell.
+ */
+export function detectSkew(binary: GrayImage, maxAngle = 15): number {
+  const points = samplePoints(binary, 20000);
+  if (points.length < 200) {
+    return 0;
+  }
+  return bestProjection(points, maxAngle).angle;
+}
+
+/**
+ * The clockwise turn that makes the page upright, for horizontal
+ * left-to-right scripts. Expects a binarized image.
+ *
+ * Sideways pages are spotted by their ink profile: lines of text leave
+ * sharp gaps between rows (at whatever skew), but not between columns.
+ * Upside-down pages are spotted per text line: Latin-style scripts have far
+ * more ink above the x-height (capitals, b d f h k l t) than below it
+ * (g j p q y).
+ */
+export function detectOrientation(binary: GrayImage): PageRotation {
+  const points = samplePoints(binary, 20000);
+  if (points.length < 200) {
+    return 0;
+  }
+
+  const rows = bestProjection(points, 15);
+  const columns = bestProjection(
+    points.map(([x, y]) => [y, x] as [number, number]),
+    15
+  );
+  const sideways = columns.score > rows.score * 1.1;
+
+  // Turn the lines horizontal and straighten them before judging up/down
+  let upright = sideways ? rotateRightAngle(binary, 90) : binary;
+  const skew = sideways ? detectSkew(upright) : rows.angle;
+  if (Math.abs(skew) >= 0.2) {
+    upright = rotate(upright, -skew);
+  }
+  const flipped = ascenderBalance(upright) < 0;
+
+  if (sideways) {
+    return flipped ? 270 : 90;
+  }
+  return flipped ? 180 : 0;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// Median of 9 values (a partial insertion sort - the window is tiny)
+function median9(values: Uint8Array): number {
+  for (let i = 1; i < 9; i++) {
+    const value = values[i];
+    let j = i - 1;
+    while (j >= 0 && values[j] > value) {
+      values[j + 1] = values[j];
+      j--;
+    }
+    values[j + 1] = value;
+  }
+  return values[4];
+}
+
+// Mean of the (2 * radius + 1)^2 window around each pixel, via two running
+// sum passes - same result as an integral image with a quarter the memory
+function boxMean(image: GrayImage, radius: number): Float32Array {
+  const { width, height, data } = image;
+  const horizontal = new Float32Array(data.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    let count = 0;
+    for (let x = 0; x < Math.min(radius, width); x++) {
+      sum += data[row + x];
+      count++;
+    }
+    for (let x = 0; x < width; x++) {
+      const enter = x + radius;
+      const leave = x - radius - 1;
+      if (enter < width) {
+        sum += data[row + enter];
+        count++;
+      }
+      if (leave >= 0) {
+        sum -= data[row + leave];
+        count--;
+      }
+      horizontal[row + x] = sum / count;
+    }
+  }
+
+  const mean = new Float32Array(data.length);
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    let count = 0;
+    for (let y = 0; y < Math.min(radius, height); y++) {
+      sum += horizontal[y * width + x];
+      count++;
+    }
+    for (let y = 0; y < height; y++) {
+      const enter = y + radius;
+      const leave = y - radius - 1;
+      if (enter < height) {
+        sum += horizontal[enter * width + x];
+        count++;
+      }
+      if (leave >= 0) {
+        sum -= horizontal[leave * width + x];
+        count--;
+      }
+      mean[y * width + x] = sum / count;
+    }
+  }
+  return mean;
+}
+
+// Ink pixels per row or per column
+function inkProfile(image: GrayImage, axis: 'rows' | 'columns'): Uint32Array {
+  const { width, height, data } = image;
+  const profile = new Uint32Array(axis === 'rows' ? height : width);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[y * width + x] < INK_THRESHOLD) {
+        profile[axis === 'rows' ? y : x]++;
+      }
+    }
+  }
+  return profile;
+}
+
+// The tilt (whole degrees, then tenths) whose row profile is sharpest
+function bestProjection(
+  points: [number, number][],
+  maxAngle: number
+): { angle: number; score: number } {
+  let best = { angle: 0, score: -1 };
+  const search = (from: number, to: number, step: number) => {
+    for (let angle = from; angle <= to + 1e-9; angle += step) {
+      const score = projectionScore(points, angle);
+      if (score > best.score) {
+        best = { angle, score };
+      }
+    }
+  };
+  search(-maxAngle, maxAngle, 1);
+  search(best.angle - 1, best.angle + 1, 0.1);
+  return { angle: Math.round(best.angle * 10) / 10, score: best.score };
+}
+
+// Up to `limit` ink pixel positions, evenly sampled
+function samplePoints(binary: GrayImage, limit: number): [number, number][] {
+  let ink = 0;
+  for (const value of binary.data) {
+    if (value < INK_THRESHOLD) ink++;
+  }
+  const step = Math.max(1, Math.ceil(ink / limit));
+
+  const points: [number, number][] = [];
+  let seen = 0;
+  for (let y = 0; y < binary.height; y++) {
+    for (let x = 0; x < binary.width; x++) {
+      if (binary.data[y * binary.width + x] < INK_THRESHOLD) {
+        if (seen++ % step === 0) points.push([x, y]);
+      }
+    }
+  }
+  return points;
+}
+
+// Sum of squared row counts after undoing a clockwise tilt of `angle`
+function projectionScore(points: [number, number][], angle: number): number {
+  const radians = (angle * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const rows = new Map<number, number>();
+  for (const [x, y] of points) {
+    const row = Math.round(-x * sin + y * cos);
+    rows.set(row, (rows.get(row) ?? 0) + 1);
+  }
+  let score = 0;
+  for (const count of rows.values()) score += count * count;
+  return score;
+}
+
+// Ink above the x-height band minus ink below it, over every text line
+function ascenderBalance(binary: GrayImage): number {
+  const profile = inkProfile(binary, 'rows');
+  let balance = 0;
+
+  for (let start = 0; start < profile.length; ) {
+    if (profile[start] === 0) {
+      start++;
+      continue;
+    }
+    let end = start;
+    while (end + 1 < profile.length && profile[end + 1] > 0) end++;
+
+    // The x-height band is where the line's ink is densest
+    if (end - start >= 4) {
+      let peak = 0;
+      for (let row = start; row <= end; row++) {
+        peak = Math.max(peak, profile[row]);
+      }
+      let bandTop = start;
+      while (profile[bandTop] < peak * 0.5) bandTop++;
+      let bandBottom = end;
+      while (profile[bandBottom] < peak * 0.5) bandBottom--;
+
+      for (let row = start; row < bandTop; row++) balance += profile[row];
+      for (let row = bandBottom + 1; row <= end; row++) {
+        balance -= profile[row];
+      }
+    }
+    start = end + 1;
+  }
+  return balance;
+}
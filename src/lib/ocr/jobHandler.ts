@@ -0,0 +1,428 @@
+/**
+ * OCR Job Handler - what the job runner does with an OCR job
+ *
+ * 1. Download the uploaded file from the storage bucket
+ * 2. Read it through the fallback chain, starting with the provider the job
+ *    asked for (see fallback.ts)
+ * 3. Hand back the page results as the job's result
+ *
+ * Images are read as a single page. PDFs are checked for a text layer first
+ * (see pdfText.ts): born-digital pages keep their own text, and only the
+ * scanned pages are rendered to images (see rasterize.ts) and read page by
+ * page. Both come back as one result. A PDF with several scanned pages is
+ * split into page jobs (context.fanOut) that read their pages in parallel;
+ * the document's result is then put together from theirs. A PDF that pdf.js
+ * can't open goes whole to a provider that takes documents.
+ *
+ * Every page image is cleaned up (see preprocess.ts) on a worker thread
+ * (see preprocessPool.ts) before a provider sees it, and what was done is
+ * kept on the page result. Word boxes are mapped back onto the page image
+ * as it came in, so they line up with the boxes of text layer pages. With
+ * OCR_PREPROCESS_DEBUG_IMAGES on, the image before and after is saved to
+ * storage under debug/<jobId>/.
+ *
+ * Each page is tagged with the language its text is in (see language.ts).
+ * When the job didn't name its languages and a Tesseract page turns out to
+ * be in another language Tesseract has a model for, the page is read again
+ * with that model, and the better reading is kept.
+ */
+
+import type { JobRunContext, JobHandler } from '../jobRunner';
+import type { Job } from '../jobManager';
+import type {
+  PageLanguage,
+  PagePreprocessing,
+  PageResult,
+} from '../jobResults';
+import { buildJobResult } from '../jobResults';
+import { downloadStorageFile, uploadStorageFile } from '../supabase';
+import { serverEnv } from '../env';
+import type { OcrProviderName } from '../env';
+import type { OcrFallbackChain } from './fallback';
+import {
+  detectLanguage,
+  MIN_LANGUAGE_CONFIDENCE,
+  UNDETERMINED_LANGUAGE,
+} from './language';
+import type { PdfTextLayer, PdfTextLayerOptions } from './pdfText';
+import { PDF_TEXT_PROVIDER, extractPdfTextLayer } from './pdfText';
+import type { PreprocessedImage, PreprocessStep } from './preprocess';
+import { toOriginalBox } from './preprocess';
+import { preprocessInWorker } from './preprocessPool';
+import type { OcrInput, OcrOptions, OcrProvider } from './provider';
+import { toPageResult } from './provider';
+import { getOcrFallbackChain } from './providers';
+import type { RasterizedPage, RasterizeOptions } from './rasterize';
+import { rasterizePdf } from './rasterize';
+
+export interface OcrJobHandlerDeps {
+  download?: (
+    filePath: string,
+    options: { signal?: AbortSignal }
+  ) => Promise<Uint8Array>;
+  getChain?: (primary?: OcrProviderName) => OcrFallbackChain;
+  extractTextLayer?: (
+    data: Uint8Array,
+    options: PdfTextLayerOptions
+  ) => Promise<PdfTextLayer>;
+  rasterize?: (
+    data: Uint8Array,
+    options: RasterizeOptions
+  ) => AsyncIterable<RasterizedPage>;
+  preprocess?: (
+    input: { data: Uint8Array; mimeType: string },
+    steps: readonly PreprocessStep[],
+    signal?: AbortSignal
+  ) => Promise<PreprocessedImage>;
+  saveDebugImage?: (
+    filePath: string,
+    data: Uint8Array,
+    contentType: string
+  ) => Promise<void>;
+}
+
+/**
+ * Build the handler (dependencies are injectable for tests)
+ */
+export function createOcrJobHandler(deps: OcrJobHandlerDeps = {}): JobHandler {
+  const download = deps.download ?? downloadStorageFile;
+  const getChain = deps.getChain ?? getOcrFallbackChain;
+  const extractTextLayer = deps.extractTextLayer ?? extractPdfTextLayer;
+  const rasterize = deps.rasterize ?? rasterizePdf;
+  const preprocess = deps.preprocess ?? preprocessInWorker;
+  const saveDebugImage = deps.saveDebugImage ?? uploadStorageFile;
+
+  return async (job: Job, context: JobRunContext) => {
+    const { provider, ...options } = job.ocr ?? {};
+    const chain = getChain(provider);
+    context.setProvider(chain.providers[0].name);
+
+    // Step 1: Fetch the file
+    context.updateStage('download', { status: 'running' });
+    const data = await download(job.filePath, { signal: context.signal });
+    context.updateStage('download', { status: 'done' });
+
+    // Step 2: Recognize it
+    const mimeType = job.mimeType ?? 'application/octet-stream';
+    context.updateStage('recognize', { status: 'running' });
+    let pages: PageResult[];
+    if (mimeType === 'application/pdf') {
+      const read = await readPdf(job, data, options, chain, context);
+      if (!read) {
+        // Split into page jobs - the document finishes once they have
+        return;
+      }
+      pages = read;
+    } else {
+      context.updateStage('preprocess', { status: 'running', total: 1 });
+      pages = [
+        await readImage(
+          job,
+          { data, mimeType, pageNumber: job.pageNumber ?? 1 },
+          options,
+          chain,
+          context
+        ),
+      ];
+      context.updateStage('preprocess', { status: 'done', current: 1 });
+    }
+    context.updateStage('recognize', {
+      status: 'done',
+      current: pages.length,
+      total: pages.length,
+    });
+
+    // Step 3: Tag the pages not tagged while reading them (text layers,
+    // whole documents) with their language
+    pages = pages.map(page =>
+      page.language
+        ? page
+        : tagLanguage(
+            page,
+            page.provider === PDF_TEXT_PROVIDER ? undefined : options.languages
+          )
+    );
+
+    console.log(
+      `📄 Job ${job.id}: read ${pages.length} page(s) with ${Array.from(new Set(pages.map(page => page.provider))).join(', ')}`
+    );
+    return buildJobResult(pages);
+  };
+
+  // Text layer first, OCR only for the pages that don't have one. A page
+  // job only reads its own page. Undefined when the document was split
+  // into page jobs instead.
+  async function readPdf(
+    job: Job,
+    data: Uint8Array,
+    options: OcrOptions,
+    chain: OcrFallbackChain,
+    context: JobRunContext
+  ): Promise<PageResult[] | undefined> {
+    const { pdfTextMinChars, renderDpi } = serverEnv.ocr;
+    const startedAt = Date.now();
+    let layer: PdfTextLayer | undefined;
+    try {
+      layer = await extractTextLayer(data, {
+        minChars: pdfTextMinChars,
+        boundingBoxes: options.boundingBoxes,
+        // Boxes in pixels of the rendered pages, like the OCR'd ones
+        scale: renderDpi / 72,
+        pages: job.pageNumber ? [job.pageNumber] : undefined,
+        signal: context.signal,
+      });
+    } catch (error) {
+      if (context.signal.aborted) throw context.signal.reason;
+      // pdf.js can't open every PDF a provider can (e.g. some damaged
+      // files) - let OCR have the whole document
+      console.warn('⚠️ Could not read the PDF text layer:', error);
+      const documentPages = await chain.recognizeDocument(
+        { data, mimeType: 'application/pdf' },
+        options,
+        context.signal
+      );
+      return documentPages.filter(
+        page => !job.pageNumber || page.pageNumber === job.pageNumber
+      );
+    }
+
+    const perPageMs = (Date.now() - startedAt) / Math.max(1, layer.pageCount);
+    const pages = layer.pages.map(page =>
+      toPageResult(page, PDF_TEXT_PROVIDER, perPageMs)
+    );
+    if (layer.scannedPages.length === 0) {
+      context.setProvider(PDF_TEXT_PROVIDER);
+      return pages;
+    }
+    console.log(
+      `📄 ${pages.length} of ${layer.pageCount} page(s) have a text layer, OCR for pages ${layer.scannedPages.join(', ')}`
+    );
+
+    // Several scanned pages are read in parallel, one page job per page.
+    // Each page job comes back through here for its own page, so pages
+    // with a text layer keep it. A document that can't be split (fanOut
+    // gives no page jobs) is read right here instead.
+    if (!job.pageNumber && layer.scannedPages.length > 1) {
+      const pageJobs = context.fanOut(layer.pageCount);
+      if (pageJobs.length > 0) {
+        context.updateStage('rasterize', { status: 'skipped' });
+        context.updateStage('preprocess', { status: 'skipped' });
+        return undefined;
+      }
+    }
+    const pageTotal = pages.length + layer.scannedPages.length;
+
+    // Render and read the scanned pages one at a time, so only one page
+    // image is in memory
+    const rendered = rasterize(data, {
+      dpi: renderDpi,
+      pages: layer.scannedPages,
+      signal: context.signal,
+    });
+    let renderedCount = 0;
+    for (const stage of ['rasterize', 'preprocess'] as const) {
+      context.updateStage(stage, {
+        status: 'running',
+        current: 0,
+        total: layer.scannedPages.length,
+      });
+    }
+    for await (const image of rendered) {
+      context.updateStage('rasterize', { current: ++renderedCount });
+      pages.push(
+        await readImage(
+          job,
+          {
+            data: image.data,
+            mimeType: image.mimeType,
+            pageNumber: image.pageNumber,
+          },
+          options,
+          chain,
+          context
+        )
+      );
+      context.updateStage('preprocess', { current: renderedCount });
+      context.updateStage('recognize', {
+        current: pages.length,
+        total: pageTotal,
+      });
+    }
+    context.updateStage('rasterize', { status: 'done' });
+    context.updateStage('preprocess', { status: 'done' });
+
+    return pages.sort((a, b) => a.pageNumber - b.pageNumber);
+  }
+
+  // Clean up one page image, then read it through the chain
+  async function readImage(
+    job: Job,
+    input: OcrInput,
+    options: OcrOptions,
+    chain: OcrFallbackChain,
+    context: JobRunContext
+  ): Promise<PageResult> {
+    const prepared = await prepareImage(job, input, context.signal);
+    const image = prepared ? { ...input, ...prepared.image } : input;
+    let page = tagLanguage(
+      await chain.recognizePage(image, options, context.signal),
+      options.languages
+    );
+
+    // No languages given: if Tesseract read text in a language it has a
+    // model for but didn't use, give the page a second pass with that model.
+    // This goes to Tesseract itself - the chain would start over at the
+    // primary provider, which may not be Tesseract at all.
+    const reread = options.languages ? undefined : rereadTarget(page, chain);
+    if (reread) {
+      const { language, provider } = reread;
+      try {
+        const startedAt = Date.now();
+        const result = await provider.recognize(
+          image,
+          { ...options, languages: [language] },
+          context.signal
+        );
+        const second = tagLanguage(
+          toPageResult(
+            result.pages[0] ?? {
+              pageNumber: page.pageNumber,
+              text: '',
+              confidence: 0,
+            },
+            provider.name,
+            Date.now() - startedAt
+          ),
+          [language]
+        );
+        console.log(
+          `📄 Page ${page.pageNumber} looks like '${language}', read it again: confidence ${page.confidence.toFixed(2)} -> ${second.confidence.toFixed(2)}`
+        );
+        if (second.confidence >= page.confidence) {
+          // Keep the record of providers the chain passed over on the way
+          page = page.fallbacks
+            ? { ...second, fallbacks: page.fallbacks }
+            : second;
+        }
+      } catch (error) {
+        if (context.signal.aborted) throw context.signal.reason;
+        console.warn(
+          `⚠️ Could not read page ${page.pageNumber} again as '${language}':`,
+          error
+        );
+      }
+    }
+
+    if (!prepared) {
+      return page;
+    }
+    // Word boxes in the pixels of the page as it came in, not of the
+    // cleaned-up image the provider read
+    const { record } = prepared;
+    return {
+      ...page,
+      ...(page.words && {
+        words: page.words.map(word => ({
+          ...word,
+          box: toOriginalBox(word.box, record),
+        })),
+      }),
+      preprocessing: record,
+    };
+  }
+
+  // Run the configured preprocessing steps. A page we can't preprocess
+  // (e.g. a TIFF, which canvas can't decode but Tesseract can) goes to OCR
+  // as it is.
+  async function prepareImage(
+    job: Job,
+    input: OcrInput,
+    signal: AbortSignal
+  ): Promise<{ image: OcrInput; record: PagePreprocessing } | undefined> {
+    const { preprocessSteps, preprocessDebugImages } = serverEnv.ocr;
+    if (preprocessSteps.length === 0) {
+      return undefined;
+    }
+
+    let result: PreprocessedImage;
+    try {
+      result = await preprocess(input, preprocessSteps, signal);
+    } catch (error) {
+      if (signal.aborted) throw signal.reason;
+      console.warn(
+        `⚠️ Could not preprocess page ${input.pageNumber ?? 1}, reading it as it is:`,
+        error
+      );
+      return undefined;
+    }
+
+    const record = { ...result.record };
+    if (preprocessDebugImages) {
+      const prefix = `debug/${job.id}/page-${input.pageNumber ?? 1}`;
+      const extension = input.mimeType.split('/')[1] ?? 'bin';
+      try {
+        await saveDebugImage(
+          `${prefix}-before.${extension}`,
+          input.data,
+          input.mimeType
+        );
+        await saveDebugImage(`${prefix}-after.png`, result.data, 'image/png');
+        record.beforeImage = `${prefix}-before.${extension}`;
+        record.afterImage = `${prefix}-after.png`;
+      } catch (error) {
+        // Debug output must never fail the job
+        console.warn('⚠️ Could not save preprocessing debug images:', error);
+      }
+    }
+
+    return {
+      image: { data: result.data, mimeType: result.mimeType },
+      record,
+    };
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// Detect the page's language from its text, noting what OCR was told
+function tagLanguage(page: PageResult, ocrLanguages?: string[]): PageResult {
+  const guess = detectLanguage(page.text);
+  const language: PageLanguage = {
+    code: guess.language,
+    confidence: guess.confidence,
+  };
+  if (guess.script) language.script = guess.script;
+  if (ocrLanguages) language.ocrLanguages = ocrLanguages;
+  return { ...page, language };
+}
+
+// The language a Tesseract page should be read again in, and the Tesseract
+// provider to read it with: a language the page was clearly written in,
+// that Tesseract has a model for but doesn't load by default
+// (TESSERACT_LANGUAGES)
+function rereadTarget(
+  page: PageResult,
+  chain: OcrFallbackChain
+): { language: string; provider: OcrProvider } | undefined {
+  const guess = page.language;
+  if (
+    page.provider !== 'tesseract' ||
+    !guess ||
+    guess.code === UNDETERMINED_LANGUAGE ||
+    guess.confidence < MIN_LANGUAGE_CONFIDENCE ||
+    serverEnv.ocr.tesseract.languages.includes(guess.code)
+  ) {
+    return undefined;
+  }
+  const tesseract = chain.providers.find(
+    provider => provider.name === 'tesseract'
+  );
+  return tesseract?.capabilities.languages.includes(guess.code)
+    ? { language: guess.code, provider: tesseract }
+    : undefined;
+}
+
+// The handler the app's job runner uses
+export const ocrJobHandler = createOcrJobHandler();
@@ -0,0 +1,273 @@
+/**
+ * Language Detection - which script and language a page's text is in
+ *
+ * Runs on the text a provider (or a PDF's text layer) returned, so it costs
+ * nothing next to OCR itself:
+ *
+ * 1. Script - count letters per Unicode script. Most scripts pin down the
+ *    language on their own (Hangul is Korean, Greek is Greek...).
+ * 2. Language - Cyrillic and Arabic are told apart by letters only some of
+ *    their languages use. Latin languages are scored on their most common
+ *    short words ("the", "de", "und"...) plus the accented letters that
+ *    are theirs alone (ñ, ß, ł...). Short words survive OCR with the wrong
+ *    model well, so even text read with the English model is recognizable
+ *    as Spanish.
+ *
+ * Codes are ISO 639-3, like everywhere else in the OCR options. Text that's
+ * too short or too mixed to call comes back as 'und' (undetermined).
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type Script =
+  | 'Latin'
+  | 'Cyrillic'
+  | 'Greek'
+  | 'Arabic'
+  | 'Hebrew'
+  | 'Devanagari'
+  | 'Thai'
+  | 'Han'
+  | 'Japanese' // Han mixed with kana
+  | 'Hangul';
+
+export interface LanguageGuess {
+  language: string; // ISO 639-3, or 'und' when it can't be told
+  script?: Script; // Undefined when there are no letters at all
+  confidence: number; // 0-1
+}
+
+// ISO 639-3 for "undetermined"
+export const UNDETERMINED_LANGUAGE = 'und';
+
+// Guesses below this are too close a call to act on (e.g. to pick a model)
+export const MIN_LANGUAGE_CONFIDENCE = 0.2;
+
+// Fewer letters than this aren't worth a guess (page numbers, stray marks)
+const MIN_LETTERS = 20;
+
+// A Latin language needs this many common-word hits to be named at all
+const MIN_WORD_HITS = 3;
+
+// =============================================================================
+// LANGUAGE DATA
+// =============================================================================
+
+const SCRIPT_PATTERNS: [Script, RegExp][] = [
+  ['Latin', /\p{Script=Latin}/u],
+  ['Cyrillic', /\p{Script=Cyrillic}/u],
+  ['Greek', /\p{Script=Greek}/u],
+  ['Arabic', /\p{Script=Arabic}/u],
+  ['Hebrew', /\p{Script=Hebrew}/u],
+  ['Devanagari', /\p{Script=Devanagari}/u],
+  ['Thai', /\p{Script=Thai}/u],
+  ['Han', /\p{Script=Han}/u],
+  ['Japanese', /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ['Hangul', /\p{Script=Hangul}/u],
+];
+
+// Scripts that name their language outright
+const SCRIPT_LANGUAGES: Partial<Record<Script, string>> = {
+  Greek: 'ell',
+  Hebrew: 'heb',
+  Devanagari: 'hin',
+  Thai: 'tha',
+  Han: 'zho',
+  Japanese: 'jpn',
+  Hangul: 'kor',
+};
+
+// Letters only one language of a shared script uses
+const SCRIPT_MARKERS: Partial<Record<Script, Record<string, string>>> = {
+  Cyrillic: { rus: 'ыэъё', ukr: 'іїєґ' },
+  Arabic: { ara: 'ةى', fas: 'پچژگ', urd: 'ٹڈڑےں' },
+};
+
+// The most common short words of each Latin-script language, and the
+// letters it alone uses (shared ones like ç are listed for each language)
+const LATIN_LANGUAGES: Record<string, { words: string; letters: string }> = {
+  eng: {
+    words:
+      'the and of to in is that for it with as was on are be this by from at have not or which you your we our will',
+    letters: '',
+  },
+  spa: {
+    words:
+      'el la los las de del que y en un una por con para es se no al lo como más pero sus su le ya está son',
+    letters: 'ñ¿¡',
+  },
+  fra: {
+    words:
+      'le la les de des du et un une est que qui dans pour pas sur au aux avec ce cette il elle nous vous sont par en',
+    letters: 'œçèêùûëï',
+  },
+  deu: {
+    words:
+      'der die das und ist nicht mit den dem von zu ein eine einer auf für sich des im auch es werden wird sind bei oder aus',
+    letters: 'ßäöü',
+  },
+  ita: {
+    words:
+      'il lo la gli le di del della dei delle dal dalla che e è un una per con non sono nel nella al alla si da come anche più questo',
+    letters: 'ìò',
+  },
+  por: {
+    words:
+      'o a os as de do da dos das que e em um uma para com não no na por se mais ao é são pelo pela',
+    letters: 'ãõç',
+  },
+  nld: {
+    words:
+      'de het een en van is dat niet op te met voor zijn er aan ook als bij door wordt naar maar om ze',
+    letters: '',
+  },
+  pol: {
+    words:
+      'i w z na się nie do to że jest o a od po jak dla jego ale przez co są tak oraz może tym',
+    letters: 'ąęłńśźż',
+  },
+  tur: {
+    words:
+      've bir bu da de için ile çok olarak daha gibi ne o olan en kadar ama sonra her şey var değil',
+    letters: 'ğış',
+  },
+};
+
+const LATIN_WORDS = Object.fromEntries(
+  Object.entries(LATIN_LANGUAGES).map(([language, { words }]) => [
+    language,
+    new Set(words.split(' ')),
+  ])
+);
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+/**
+ * The script most of the text's letters are in, and the share of letters
+ * in it (0-1)
+ */
+export function detectScript(
+  text: string
+): { script: Script; share: number; letters: number } | undefined {
+  const counts = new Map<Script, number>();
+  let letters = 0;
+  for (const char of text) {
+    if (!/\p{L}/u.test(char)) continue;
+    letters++;
+    const match = SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(char));
+    if (match) {
+      counts.set(match[0], (counts.get(match[0]) ?? 0) + 1);
+    }
+  }
+  if (letters === 0) {
+    return undefined;
+  }
+
+  // Japanese mixes kanji (Han) with kana; any real amount of kana makes it
+  // Japanese rather than Chinese
+  const kana = counts.get('Japanese') ?? 0;
+  const han = counts.get('Han') ?? 0;
+  if (kana > 0 && kana >= (kana + han) * 0.1) {
+    counts.set('Japanese', kana + han);
+    counts.delete('Han');
+  }
+
+  let best: Script | undefined;
+  for (const [script, count] of counts) {
+    if (!best || count > counts.get(best)!) best = script;
+  }
+  if (!best) {
+    return undefined;
+  }
+  return { script: best, share: counts.get(best)! / letters, letters };
+}
+
+/**
+ * Guess the language of a page's text
+ */
+export function detectLanguage(text: string): LanguageGuess {
+  const normalized = text.normalize('NFC').toLowerCase();
+  const script = detectScript(normalized);
+  if (!script || script.letters < MIN_LETTERS) {
+    return {
+      language: UNDETERMINED_LANGUAGE,
+      script: script?.script,
+      confidence: 0,
+    };
+  }
+
+  // Step 1: Scripts that only one language uses
+  const scriptLanguage = SCRIPT_LANGUAGES[script.script];
+  if (scriptLanguage) {
+    return {
+      language: scriptLanguage,
+      script: script.script,
+      confidence: script.share,
+    };
+  }
+
+  // Step 2: Shared scripts, by the letters and words each language favours
+  const scores =
+    script.script === 'Latin'
+      ? scoreLatin(normalized)
+      : scoreMarkers(normalized, SCRIPT_MARKERS[script.script] ?? {});
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  const [best, second] = ranked;
+  const minScore = script.script === 'Latin' ? MIN_WORD_HITS : 1;
+  if (!best || best[1] < minScore) {
+    return {
+      language: UNDETERMINED_LANGUAGE,
+      script: script.script,
+      confidence: 0,
+    };
+  }
+
+  // How clearly the winner beat the runner-up, weighed by how much of the
+  // text is in the script at all
+  const margin = (best[1] - (second?.[1] ?? 0)) / best[1];
+  return {
+    language: best[0],
+    script: script.script,
+    confidence: Math.round(margin * script.share * 100) / 100,
+  };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// Common-word hits, plus half a point for each letter only that language uses
+function scoreLatin(text: string): Record<string, number> {
+  const words = text.match(/\p{L}+/gu) ?? [];
+  const scores: Record<string, number> = {};
+  for (const [language, { letters }] of Object.entries(LATIN_LANGUAGES)) {
+    let score = 0;
+    for (const word of words) {
+      if (LATIN_WORDS[language].has(word)) score++;
+    }
+    for (const char of text) {
+      if (letters.includes(char)) score += 0.5;
+    }
+    scores[language] = score;
+  }
+  return scores;
+}
+
+// One point for each letter only that language uses
+function scoreMarkers(
+  text: string,
+  markers: Record<string, string>
+): Record<string, number> {
+  const scores: Record<string, number> = {};
+  for (const [language, letters] of Object.entries(markers)) {
+    scores[language] = 0;
+    for (const char of text) {
+      if (letters.includes(char)) scores[language]++;
+    }
+  }
+  return scores;
+}
@@ -0,0 +1,438 @@
+/**
+ * Mistral OCR Provider
+ *
+ * Sends a document or page image to the Mistral OCR API (POST {apiUrl}/ocr)
+ * and maps the per-page markdown it returns into the shared OcrPage shape.
+ *
+ * The HTTP client is deliberately defensive:
+ * - every request has a timeout
+ * - 429 and 5xx answers are retried with jittered exponential backoff
+ * - a Retry-After header is honoured; if it asks for longer than we're
+ *   willing to wait here, the JobError carries it so the job manager
+ *   schedules the next attempt instead
+ *
+ * `fetch` can be injected, and MISTRAL_API_URL can point at the local mock
+ * server in scripts/mistral-mock-server.mjs to work without the real API.
+ */
+
+import { classifyJobError, computeRetryDelay, JobError } from '../jobErrors';
+import {
+  checkSupport,
+  normalizeOcrPage,
+  OcrCapabilities,
+  OcrInput,
+  OcrOptions,
+  OcrPage,
+  OcrProvider,
+  OcrProviderHealth,
+  OcrResult,
+  OcrTable,
+} from './provider';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface MistralProviderOptions {
+  apiKey?: string;
+  apiUrl: string; // e.g. 'https://api.mistral.ai/v1'
+  model?: string; // Default 'mistral-ocr-latest'
+  timeoutMs?: number; // Per request (default 60s)
+  maxRetries?: number; // Retries after the first request (default 3)
+  retryBaseDelayMs?: number; // Doubles after each retry (default 500ms)
+  maxRetryDelayMs?: number; // Longest wait between retries (default 30s)
+  fetch?: typeof fetch; // Injected in tests
+  random?: () => number; // Jitter source, 0-1 (injected in tests)
+}
+
+/**
+ * The parts of Mistral's OCR response we use
+ */
+interface MistralOcrResponse {
+  pages: {
+    index: number; // 0-based
+    markdown: string;
+    dimensions?: { dpi: number; height: number; width: number } | null;
+  }[];
+  model?: string;
+}
+
+// Mistral doesn't score its output, so a page it returned text for is
+// treated as fully confident and an empty page as not at all
+const TEXT_CONFIDENCE = 1;
+
+// Languages Mistral OCR is documented to read well (ISO 639-3). The API
+// takes no language hint - it reads all of them as they come - so a job's
+// `languages` only decide whether it can be sent here.
+const LANGUAGES = [
+  'eng',
+  'spa',
+  'fra',
+  'deu',
+  'ita',
+  'por',
+  'nld',
+  'pol',
+  'rus',
+  'ukr',
+  'tur',
+  'ara',
+  'hin',
+  'zho',
+  'jpn',
+  'kor',
+  'vie',
+];
+
+const IMAGE_FORMATS = ['image/png', 'image/jpeg', 'image/webp'];
+
+// =============================================================================
+// PROVIDER
+// =============================================================================
+
+export class MistralProvider implements OcrProvider {
+  readonly name = 'mistral' as const;
+  readonly capabilities: OcrCapabilities = {
+    languages: LANGUAGES,
+    boundingBoxes: false, // Only image regions, no word boxes
+    tables: true, // Parsed from the markdown tables it returns
+    maxPages: 1000, // Mistral's per-document limit
+    inputFormats: ['application/pdf', ...IMAGE_FORMATS],
+  };
+
+  private readonly options: Required<
+    Omit<MistralProviderOptions, 'apiKey' | 'fetch'>
+  > &
+    Pick<MistralProviderOptions, 'apiKey'>;
+  private readonly fetch: typeof fetch;
+
+  constructor(options: MistralProviderOptions) {
+    this.options = {
+      apiKey: options.apiKey,
+      apiUrl: options.apiUrl.replace(/\/+$/, ''),
+      model: options.model ?? 'mistral-ocr-latest',
+      timeoutMs: options.timeoutMs ?? 60000,
+      maxRetries: options.maxRetries ?? 3,
+      retryBaseDelayMs: options.retryBaseDelayMs ?? 500,
+      maxRetryDelayMs: options.maxRetryDelayMs ?? 30000,
+      random: options.random ?? Math.random,
+    };
+    // Bound so it isn't called with the provider as `this`
+    this.fetch = options.fetch ?? ((...args) => fetch(...args));
+  }
+
+  async recognize(
+    input: OcrInput,
+    options: OcrOptions = {},
+    signal?: AbortSignal
+  ): Promise<OcrResult> {
+    const unsupported = checkSupport(this.capabilities, input, options);
+    if (unsupported) {
+      throw new JobError(unsupported, {
+        retryable: false,
+        code: 'UNSUPPORTED_INPUT',
+        provider: this.name,
+      });
+    }
+    if (!this.options.apiKey) {
+      throw new JobError('MISTRAL_API_KEY is not set', {
+        retryable: false,
+        code: 'PROVIDER_NOT_CONFIGURED',
+        provider: this.name,
+      });
+    }
+
+    const startedAt = Date.now();
+    const response = await this.requestWithRetries(
+      buildRequestBody(this.options.model, input),
+      signal
+    );
+
+    const firstPage = input.pageNumber ?? 1;
+    const pages = response.pages
+      .slice()
+      .sort((a, b) => a.index - b.index)
+      .map(page => toOcrPage(page, firstPage + page.index, options));
+
+    return {
+      provider: this.name,
+      pages,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  // No request is made - /api/status checks every provider and a real OCR
+  // call would cost money. A bad key shows up as AUTH_FAILED on the job.
+  async checkHealth(): Promise<OcrProviderHealth> {
+    if (!this.options.apiKey) {
+      return { healthy: false, message: 'MISTRAL_API_KEY is not set' };
+    }
+    return { healthy: true, message: this.options.apiUrl };
+  }
+
+  // ===========================================================================
+  // HTTP
+  // ===========================================================================
+
+  private async requestWithRetries(
+    body: unknown,
+    signal?: AbortSignal
+  ): Promise<MistralOcrResponse> {
+    const { maxRetries, retryBaseDelayMs, maxRetryDelayMs } = this.options;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.request(body, signal);
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+
+        const jobError = toJobError(error);
+        const tooLong = (jobError.retryAfterMs ?? 0) > maxRetryDelayMs;
+        if (!jobError.retryable || attempt > maxRetries || tooLong) {
+          throw jobError;
+        }
+
+        // Backoff with jitter so instances that were throttled together
+        // don't all come back at the same moment
+        const backoff = computeRetryDelay(
+          attempt,
+          retryBaseDelayMs,
+          maxRetryDelayMs
+        );
+        const delay = Math.max(
+          backoff / 2 + (this.options.random() * backoff) / 2,
+          jobError.retryAfterMs ?? 0
+        );
+        console.log(
+          `🔁 Mistral OCR ${jobError.code}, retrying in ${Math.round(delay)}ms (${attempt}/${maxRetries})`
+        );
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  private async request(
+    body: unknown,
+    signal?: AbortSignal
+  ): Promise<MistralOcrResponse> {
+    if (signal?.aborted) throw signal.reason;
+
+    // One controller for both the job's signal and our own timeout
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timeout = new JobError(
+      `Mistral OCR did not answer within ${this.options.timeoutMs}ms`,
+      { retryable: true, code: 'TIMEOUT', provider: this.name }
+    );
+    const timer = setTimeout(
+      () => controller.abort(timeout),
+      this.options.timeoutMs
+    );
+
+    try {
+      const response = await this.fetch(`${this.options.apiUrl}/ocr`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.options.apiKey}`,
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw await httpError(response);
+      }
+
+      const data = (await response.json()) as MistralOcrResponse;
+      if (!Array.isArray(data?.pages)) {
+        throw new JobError('Mistral OCR response has no pages', {
+          retryable: true,
+          code: 'INVALID_RESPONSE',
+          provider: this.name,
+        });
+      }
+      return data;
+    } catch (error) {
+      // fetch rejects with its own AbortError - report why we aborted
+      throw controller.signal.aborted ? controller.signal.reason : error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// Images go as image_url, everything else as document_url (both data URLs)
+function buildRequestBody(model: string, input: OcrInput) {
+  const dataUrl = `data:${input.mimeType};base64,${Buffer.from(input.data).toString('base64')}`;
+  const document = input.mimeType.startsWith('image/')
+    ? { type: 'image_url', image_url: dataUrl }
+    : { type: 'document_url', document_url: dataUrl };
+
+  return {
+    model,
+    document,
+    // Mistral numbers pages from 0, and keeps those numbers in its answer
+    ...(input.pageNumbers && {
+      pages: input.pageNumbers.map(page => page - 1),
+    }),
+    include_image_base64: false,
+  };
+}
+
+function toOcrPage(
+  page: MistralOcrResponse['pages'][number],
+  pageNumber: number,
+  options: OcrOptions
+): OcrPage {
+  const text = markdownToText(page.markdown ?? '');
+  return normalizeOcrPage({
+    pageNumber,
+    text,
+    confidence: text.trim() ? TEXT_CONFIDENCE : 0,
+    tables: options.tables ? extractTables(page.markdown ?? '') : undefined,
+  });
+}
+
+/**
+ * Plain text from Mistral's markdown: image references dropped, heading
+ * and emphasis markers removed, table rows turned into tab-separated cells
+ */
+export function markdownToText(markdown: string): string {
+  return markdown
+    .split('\n')
+    .filter(line => !isTableDivider(line))
+    .map(line =>
+      isTableRow(line)
+        ? splitTableRow(line).join('\t')
+        : line
+            .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+            .replace(/^#{1,6}\s+/, '')
+            .replace(/(\*\*|__)(.+?)\1/g, '$2')
+            .replace(/(^|[^\w*])([*_])(\S(?:.*?\S)?)\2(?![\w*])/g, '$1$3')
+    )
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+// Consecutive markdown table rows become one OcrTable
+function extractTables(markdown: string): OcrTable[] {
+  const tables: OcrTable[] = [];
+  let rows: string[][] = [];
+
+  for (const line of [...markdown.split('\n'), '']) {
+    if (isTableRow(line)) {
+      if (!isTableDivider(line)) rows.push(splitTableRow(line));
+    } else if (rows.length > 0) {
+      tables.push({ rows });
+      rows = [];
+    }
+  }
+  return tables;
+}
+
+function isTableRow(line: string): boolean {
+  return /^\s*\|.*\|\s*$/.test(line);
+}
+
+function isTableDivider(line: string): boolean {
+  return /^\s*\|(\s*:?-{3,}:?\s*\|)+\s*$/.test(line);
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, '')
+    .split('|')
+    .map(cell => cell.trim());
+}
+
+// Turn a non-2xx answer into a JobError that says whether to retry
+async function httpError(response: Response): Promise<JobError> {
+  const details = (await response.json().catch(() => undefined)) as
+    | { message?: string; detail?: unknown }
+    | undefined;
+  const reason =
+    details?.message ??
+    (typeof details?.detail === 'string' ? details.detail : undefined) ??
+    response.statusText;
+  const message = `Mistral OCR request failed (${response.status}): ${reason}`;
+  const provider = 'mistral';
+
+  if (response.status === 401 || response.status === 403) {
+    return new JobError(message, {
+      retryable: false,
+      code: 'AUTH_FAILED',
+      provider,
+    });
+  }
+  if (response.status === 429) {
+    return new JobError(message, {
+      retryable: true,
+      code: 'RATE_LIMITED',
+      provider,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    });
+  }
+  if (response.status === 408 || response.status >= 500) {
+    return new JobError(message, {
+      retryable: true,
+      code: 'UPSTREAM_ERROR',
+      provider,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    });
+  }
+  return new JobError(message, {
+    retryable: false,
+    code: 'REQUEST_REJECTED',
+    provider,
+  });
+}
+
+/**
+ * Retry-After as milliseconds - either delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Network failures from fetch get the same classification as elsewhere
+function toJobError(error: unknown): JobError {
+  if (error instanceof JobError) return error;
+
+  const classified = classifyJobError(error);
+  return new JobError(`Mistral OCR request failed: ${classified.message}`, {
+    retryable: classified.retryable,
+    code: classified.code,
+    provider: 'mistral',
+    cause: error,
+  });
+}
+
+// Wait between retries, giving up as soon as the job is cancelled
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,162 @@
+/**
+ * PDF Text Layer - read born-digital pages without OCR
+ *
+ * A PDF exported from Word or an invoicing system already carries its text,
+ * with exact positions. pdf.js (the same library that renders thumbnails in
+ * FileUpload.tsx) extracts it in milliseconds and without recognition
+ * errors, so only pages without a usable text layer - scanned pages - need
+ * to go to an OCR provider.
+ *
+ * A page's text layer counts as usable when it has at least `minChars`
+ * letters or digits and isn't mostly unmappable glyphs (fonts without a
+ * Unicode mapping come out as U+FFFD or private-use characters).
+ */
+
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { BoundingBox, OcrPage, OcrWord } from './provider';
+import { normalizeOcrPage } from './provider';
+
+// What page results read from the text layer list as their provider
+export const PDF_TEXT_PROVIDER = 'pdf-text';
+
+// Default letters/digits a page needs before its text layer is trusted
+export const DEFAULT_MIN_TEXT_CHARS = 20;
+
+// Share of unmappable glyphs above which a text layer is treated as garbage
+const MAX_UNMAPPED_RATIO = 0.1;
+
+export interface PdfTextLayerOptions {
+  minChars?: number; // Letters/digits a page needs (default 20)
+  boundingBoxes?: boolean; // Word boxes - on by default, false to skip
+  scale?: number; // Box units per PDF point (default 1; dpi / 72 for pixels)
+  pages?: number[]; // 1-based pages to read (default all)
+  signal?: AbortSignal;
+}
+
+export interface PdfTextLayer {
+  pageCount: number;
+  pages: OcrPage[]; // Pages with a usable text layer, in page order
+  scannedPages: number[]; // 1-based pages that still need OCR (of those read)
+}
+
+/**
+ * Read the text layer of every page in a PDF (or only the pages asked for)
+ */
+export async function extractPdfTextLayer(
+  data: Uint8Array,
+  options: PdfTextLayerOptions = {}
+): Promise<PdfTextLayer> {
+  const { signal } = options;
+  const minChars = options.minChars ?? DEFAULT_MIN_TEXT_CHARS;
+  const scale = options.scale ?? 1;
+  signal?.throwIfAborted();
+
+  // Loaded on first use - pdf.js is large and most jobs are images.
+  // The legacy build is the one that runs in Node.
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  // pdf.js takes ownership of the buffer it is given, and the same bytes may
+  // still go to an OCR provider, so it gets a copy
+  const document = await pdfjs.getDocument({
+    data: data.slice(),
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+    isEvalSupported: false,
+    disableFontFace: true,
+  }).promise;
+
+  try {
+    const pages: OcrPage[] = [];
+    const scannedPages: number[] = [];
+    const pageNumbers = (
+      options.pages ??
+      Array.from({ length: document.numPages }, (_, i) => i + 1)
+    )
+      .filter(pageNumber => pageNumber >= 1 && pageNumber <= document.numPages)
+      .sort((a, b) => a - b);
+
+    for (const pageNumber of pageNumbers) {
+      signal?.throwIfAborted();
+
+      const page = await document.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const content = await page.getTextContent();
+      const items = content.items.filter(
+        (item): item is TextItem => 'str' in item
+      );
+      page.cleanup();
+
+      const text = items
+        .map(item => item.str + (item.hasEOL ? '\n' : ''))
+        .join('');
+      if (!hasUsableTextLayer(text, minChars)) {
+        scannedPages.push(pageNumber);
+        continue;
+      }
+
+      pages.push(
+        normalizeOcrPage({
+          pageNumber,
+          text,
+          confidence: 1, // The document's own text, not a guess
+          words:
+            options.boundingBoxes === false
+              ? undefined
+              : items.flatMap(item =>
+                  itemWords(item, viewport.transform, scale, pdfjs.Util)
+                ),
+        })
+      );
+    }
+
+    return { pageCount: document.numPages, pages, scannedPages };
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Is there enough real text on a page to skip OCR?
+ */
+export function hasUsableTextLayer(
+  text: string,
+  minChars = DEFAULT_MIN_TEXT_CHARS
+): boolean {
+  const visible = text.replace(/\s/g, '');
+  const readable = visible.match(/[\p{L}\p{N}]/gu)?.length ?? 0;
+  const unmapped = visible.match(/[\uFFFD\p{Co}]/gu)?.length ?? 0;
+
+  return (
+    readable >= minChars && unmapped <= visible.length * MAX_UNMAPPED_RATIO
+  );
+}
+
+// Split a text run into words. pdf.js only gives the run's width, so each
+// word gets a share of it by character count - close enough for
+// highlighting, exact for monospaced text.
+function itemWords(
+  item: TextItem,
+  viewportTransform: number[],
+  scale: number,
+  util: { transform(m1: number[], m2: number[]): number[] }
+): OcrWord[] {
+  if (item.str.length === 0) {
+    return [];
+  }
+
+  // Text space -> top-left page coordinates. tx[4], tx[5] is the start of
+  // the baseline and the font size is the length of the vertical axis.
+  const tx = util.transform(viewportTransform, item.transform);
+  const fontHeight = Math.hypot(tx[2], tx[3]);
+  const runWidth = item.width * scale;
+  const charWidth = runWidth / item.str.length;
+
+  return Array.from(item.str.matchAll(/\S+/g), match => {
+    const box: BoundingBox = {
+      x: tx[4] + match.index * charWidth,
+      y: tx[5] - fontHeight,
+      width: match[0].length * charWidth,
+      height: fontHeight,
+    };
+    return { text: match[0], confidence: 1, box };
+  });
+}
@@ -0,0 +1,287 @@
+/**
+ * OCR Preprocessing - clean up a page image before any provider reads it
+ *
+ * Phone photos and cheap scans are rotated, skewed, dim and noisy, and OCR
+ * accuracy drops long before the text becomes hard for a person to read.
+ * Steps run in this order (each can be turned off with OCR_PREPROCESS_STEPS):
+ *
+ * 1. grayscale   - drop colour (implied by every other step)
+ * 2. denoise     - 3x3 median filter against speckle
+ * 3. contrast    - stretch dim or washed-out pages to full black/white
+ * 4. orientation - turn sideways or upside-down pages upright
+ * 5. deskew      - straighten text lines tilted by up to 15 degrees
+ * 6. binarize    - adaptive black/white threshold, robust to shadows
+ * 7. crop        - cut dark scanner borders and blank margins
+ *
+ * The pixel work is in imageOps.ts; @napi-rs/canvas (already used by pdf.js
+ * to render pages) only decodes the input and encodes the PNG output.
+ *
+ * Providers read the preprocessed image, so the word boxes they return are
+ * in its pixels. toOriginalBox() maps them back onto the image that went
+ * in (for a PDF, the rendered page), so every box of a result uses the same
+ * coordinates whether or not its page was preprocessed.
+ */
+
+import type { PagePreprocessing } from '../jobResults';
+import { JobError } from '../jobErrors';
+import type { BoundingBox } from './provider';
+import type { GrayImage, PageRotation } from './imageOps';
+import {
+  binarizeAdaptive,
+  cropBorders,
+  detectOrientation,
+  detectSkew,
+  downscale,
+  grayFromRgba,
+  grayToRgba,
+  medianDenoise,
+  normalizeContrast,
+  rotate,
+  rotateRightAngle,
+} from './imageOps';
+
+export const PREPROCESS_STEPS = [
+  'grayscale',
+  'denoise',
+  'contrast',
+  'orientation',
+  'deskew',
+  'binarize',
+  'crop',
+] as const;
+
+export type PreprocessStep = (typeof PREPROCESS_STEPS)[number];
+
+// Orientation and skew are measured on a copy this size - plenty for text
+// lines, and a fraction of the work of a full 300 DPI page
+const ANALYSIS_SIZE = 1600;
+
+// Tilts smaller than this aren't worth resampling the page for
+const MIN_DESKEW_DEGREES = 0.2;
+
+export interface PreprocessedImage {
+  data: Uint8Array; // PNG bytes
+  mimeType: 'image/png';
+  width: number;
+  height: number;
+  record: PagePreprocessing; // What was done, for the job's page result
+}
+
+/**
+ * Run the given steps on an image (any format @napi-rs/canvas can decode:
+ * PNG, JPEG, WebP, BMP, GIF)
+ */
+export async function preprocessImage(
+  input: { data: Uint8Array; mimeType: string },
+  steps: readonly PreprocessStep[],
+  signal?: AbortSignal
+): Promise<PreprocessedImage> {
+  const startedAt = Date.now();
+  const enabled = new Set(steps);
+  const record: PagePreprocessing = {
+    steps: ['grayscale'],
+    rotation: 0,
+    skewAngle: 0,
+    durationMs: 0,
+  };
+  signal?.throwIfAborted();
+
+  // Step 1: Decode to grayscale
+  const canvas = await import('@napi-rs/canvas');
+  let image = await decodeGray(canvas, input);
+  record.originalSize = { width: image.width, height: image.height };
+
+  // Step 2: Fix tone and noise first, so the analysis below sees clean ink
+  if (enabled.has('denoise')) {
+    image = medianDenoise(image);
+    record.steps.push('denoise');
+  }
+  if (enabled.has('contrast')) {
+    image = normalizeContrast(image);
+    record.steps.push('contrast');
+  }
+
+  // Step 3: Geometry, measured on a small black/white copy
+  if (enabled.has('orientation')) {
+    signal?.throwIfAborted();
+    const rotation: PageRotation = detectOrientation(analysisCopy(image));
+    if (rotation !== 0) {
+      image = rotateRightAngle(image, rotation);
+    }
+    record.rotation = rotation;
+    record.steps.push('orientation');
+  }
+  if (enabled.has('deskew')) {
+    signal?.throwIfAborted();
+    const skewAngle = detectSkew(analysisCopy(image));
+    if (Math.abs(skewAngle) >= MIN_DESKEW_DEGREES) {
+      image = rotate(image, -skewAngle);
+    }
+    record.skewAngle = skewAngle;
+    record.steps.push('deskew');
+  }
+
+  // Step 4: Black and white, then trim
+  if (enabled.has('binarize')) {
+    signal?.throwIfAborted();
+    image = binarizeAdaptive(image);
+    record.steps.push('binarize');
+  }
+  if (enabled.has('crop')) {
+    const cropped = cropBorders(image);
+    image = cropped.image;
+    record.crop = cropped.box;
+    record.steps.push('crop');
+  }
+
+  // Step 5: Back to PNG for the provider
+  signal?.throwIfAborted();
+  const output = canvas.createCanvas(image.width, image.height);
+  output
+    .getContext('2d')
+    .putImageData(
+      new canvas.ImageData(grayToRgba(image), image.width, image.height),
+      0,
+      0
+    );
+  const png = await output.encode('png');
+
+  record.durationMs = Date.now() - startedAt;
+  return {
+    data: new Uint8Array(png.buffer, png.byteOffset, png.byteLength),
+    mimeType: 'image/png',
+    width: image.width,
+    height: image.height,
+    record,
+  };
+}
+
+/**
+ * Map a box on the preprocessed image back onto the original image, undoing
+ * the crop, the deskew and the turn upright, in that order. A box the
+ * deskew tilted comes back as the smallest upright box around it.
+ */
+export function toOriginalBox(
+  box: BoundingBox,
+  record: PagePreprocessing
+): BoundingBox {
+  const original = record.originalSize;
+  if (!original) {
+    return box;
+  }
+  // The page after the turn upright, which deskew then rotated
+  const upright =
+    record.rotation === 90 || record.rotation === 270
+      ? { width: original.height, height: original.width }
+      : original;
+  const offsetX = record.crop?.x ?? 0;
+  const offsetY = record.crop?.y ?? 0;
+
+  const corners = [
+    [box.x, box.y],
+    [box.x + box.width, box.y],
+    [box.x, box.y + box.height],
+    [box.x + box.width, box.y + box.height],
+  ].map(([x, y]) => {
+    const straight = undoDeskew(
+      { x: x + offsetX, y: y + offsetY },
+      upright,
+      record.skewAngle
+    );
+    return undoRotation(straight, original, record.rotation);
+  });
+
+  const clampX = (x: number) => Math.min(original.width, Math.max(0, x));
+  const clampY = (y: number) => Math.min(original.height, Math.max(0, y));
+  const left = Math.round(clampX(Math.min(...corners.map(p => p.x))));
+  const top = Math.round(clampY(Math.min(...corners.map(p => p.y))));
+  const right = Math.round(clampX(Math.max(...corners.map(p => p.x))));
+  const bottom = Math.round(clampY(Math.max(...corners.map(p => p.y))));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Where a point of the deskewed image was before rotate() turned the page
+// by -skewAngle (same geometry as rotate(): the image grew to fit, around
+// its center)
+function undoDeskew(
+  point: Point,
+  size: { width: number; height: number },
+  skewAngle: number
+): Point {
+  if (Math.abs(skewAngle) < MIN_DESKEW_DEGREES) {
+    return point; // The page wasn't resampled
+  }
+  const radians = (-skewAngle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const rotatedWidth = Math.round(
+    Math.abs(size.width * cos) + Math.abs(size.height * sin)
+  );
+  const rotatedHeight = Math.round(
+    Math.abs(size.width * sin) + Math.abs(size.height * cos)
+  );
+  const dx = point.x - rotatedWidth / 2;
+  const dy = point.y - rotatedHeight / 2;
+  return {
+    x: dx * cos + dy * sin + size.width / 2,
+    y: -dx * sin + dy * cos + size.height / 2,
+  };
+}
+
+// Where a point of the upright image was before rotateRightAngle() turned
+// the original by `rotation` degrees clockwise
+function undoRotation(
+  point: Point,
+  original: { width: number; height: number },
+  rotation: number
+): Point {
+  switch (rotation) {
+    case 90:
+      return { x: point.y, y: original.height - point.x };
+    case 180:
+      return { x: original.width - point.x, y: original.height - point.y };
+    case 270:
+      return { x: original.width - point.y, y: point.x };
+    default:
+      return point;
+  }
+}
+
+type CanvasModule = typeof import('@napi-rs/canvas');
+
+async function decodeGray(
+  canvas: CanvasModule,
+  input: { data: Uint8Array; mimeType: string }
+): Promise<GrayImage> {
+  let decoded: Awaited<ReturnType<CanvasModule['loadImage']>>;
+  try {
+    decoded = await canvas.loadImage(Buffer.from(input.data));
+  } catch (error) {
+    throw new JobError(`Could not decode ${input.mimeType} image`, {
+      retryable: false,
+      code: 'UNREADABLE_IMAGE',
+      cause: error,
+    });
+  }
+
+  const { width, height } = decoded;
+  const surface = canvas.createCanvas(width, height);
+  const context = surface.getContext('2d');
+  context.drawImage(decoded, 0, 0);
+  const { data } = context.getImageData(0, 0, width, height);
+  return grayFromRgba(data, width, height);
+}
+
+// Small binarized copy for orientation and skew detection
+function analysisCopy(image: GrayImage): GrayImage {
+  return binarizeAdaptive(downscale(image, ANALYSIS_SIZE).image);
+}
@@ -0,0 +1,224 @@
+/**
+ * Preprocessing Pool - preprocessImage() off the main thread
+ *
+ * Cleaning up a 300 DPI page is 2-3 seconds of pure CPU (see imageOps.ts).
+ * On the main thread that would stall every API request and SSE stream the
+ * server handles in the meantime, so pages are sent to a pool of worker
+ * threads (OCR_PREPROCESS_WORKERS) running preprocessWorker.ts instead.
+ *
+ * Workers are reused between pages. Cancelling a job terminates the worker
+ * cleaning up its page, like the Tesseract pool does (see workerPool.ts).
+ *
+ * Node can't run the worker's TypeScript, and the Next.js bundler doesn't
+ * emit worker entries, so `npm run build:workers` (part of `dev` and
+ * `build`) compiles it to build/workers/ with tsconfig.workers.json. If the
+ * compiled worker is missing, preprocessing fails in production; elsewhere
+ * pages are preprocessed on the main thread, with an error in the log.
+ */
+
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { serverEnv } from '../env';
+import type { ClassifiedJobError } from '../jobErrors';
+import { JobError } from '../jobErrors';
+import type { PreprocessedImage, PreprocessStep } from './preprocess';
+import { preprocessImage } from './preprocess';
+import { WorkerPool } from './workerPool';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+// What the main thread sends a worker for one page
+export interface PreprocessRequest {
+  input: { data: Uint8Array; mimeType: string };
+  steps: readonly PreprocessStep[];
+}
+
+// What the worker sends back: once `ready` when it has loaded, then one
+// answer per page
+export type PreprocessResponse =
+  | { ready: true }
+  | { image: PreprocessedImage }
+  | { error: ClassifiedJobError };
+
+/**
+ * The part of a worker thread the pool uses (lets tests pass a fake)
+ */
+export type PreprocessWorker = Pick<
+  Worker,
+  'postMessage' | 'once' | 'off' | 'terminate'
+>;
+
+export interface PreprocessPoolOptions {
+  size: number; // Worker threads
+  createWorker?: () => PreprocessWorker; // Defaults to the compiled preprocessWorker
+  mainThreadFallback?: boolean; // Without workers (default: outside production)
+}
+
+// Where `npm run build:workers` puts the compiled worker
+export const PREPROCESS_WORKER_PATH = path.join(
+  process.cwd(),
+  'build',
+  'workers',
+  'lib',
+  'ocr',
+  'preprocessWorker.js'
+);
+
+// =============================================================================
+// POOL
+// =============================================================================
+
+/**
+ * A pool of preprocessing workers. preprocess() takes the same arguments as
+ * preprocessImage() and gives the same result.
+ */
+export function createPreprocessPool(options: PreprocessPoolOptions) {
+  const createWorker = options.createWorker ?? startPreprocessWorker;
+  const mainThreadFallback =
+    options.mainThreadFallback ?? process.env.NODE_ENV !== 'production';
+  let unavailable = false; // A worker failed to start - don't keep trying
+  const pool = new WorkerPool<PreprocessWorker>({
+    size: options.size,
+    create: () => waitUntilReady(createWorker()),
+    destroy: async worker => {
+      await worker.terminate();
+    },
+  });
+
+  return {
+    async preprocess(
+      input: { data: Uint8Array; mimeType: string },
+      steps: readonly PreprocessStep[],
+      signal?: AbortSignal
+    ): Promise<PreprocessedImage> {
+      if (!unavailable) {
+        try {
+          return await pool.run(
+            worker => send(worker, { input, steps }),
+            signal
+          );
+        } catch (error) {
+          if (
+            !(error instanceof JobError && error.code === 'NO_WORKER') ||
+            !mainThreadFallback
+          ) {
+            throw error;
+          }
+          unavailable = true;
+          console.error(
+            '❌ Preprocessing workers could not start (run `npm run build:workers`), preprocessing on the main thread:',
+            error.cause
+          );
+        }
+      }
+      return preprocessImage(input, steps, signal);
+    },
+    close: () => pool.close(),
+  };
+}
+
+type PreprocessPool = ReturnType<typeof createPreprocessPool>;
+
+// Kept on globalThis like the OCR providers, so hot reloads in development
+// don't start a second set of workers
+const globalForPreprocess = globalThis as typeof globalThis & {
+  preprocessPool?: PreprocessPool;
+};
+
+/**
+ * preprocessImage() on the process-wide pool
+ */
+export function preprocessInWorker(
+  input: { data: Uint8Array; mimeType: string },
+  steps: readonly PreprocessStep[],
+  signal?: AbortSignal
+): Promise<PreprocessedImage> {
+  if (!globalForPreprocess.preprocessPool) {
+    globalForPreprocess.preprocessPool = createPreprocessPool({
+      size: serverEnv.ocr.preprocessWorkers,
+    });
+  }
+  return globalForPreprocess.preprocessPool.preprocess(input, steps, signal);
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function startPreprocessWorker(): PreprocessWorker {
+  return new Worker(PREPROCESS_WORKER_PATH);
+}
+
+// A new worker is only handed out once it has loaded its script
+function waitUntilReady(worker: PreprocessWorker): Promise<PreprocessWorker> {
+  return new Promise((resolve, reject) => {
+    const fail = (cause: unknown) => {
+      stopListening();
+      void worker.terminate();
+      reject(
+        new JobError(
+          `Preprocessing worker could not start from ${PREPROCESS_WORKER_PATH}`,
+          {
+            retryable: false,
+            code: 'NO_WORKER',
+            cause,
+          }
+        )
+      );
+    };
+    const onMessage = () => {
+      stopListening();
+      resolve(worker);
+    };
+    const onExit = (code: number) =>
+      fail(new Error(`Worker exited with code ${code}`));
+    const stopListening = () => {
+      worker.off('message', onMessage);
+      worker.off('error', fail);
+      worker.off('exit', onExit);
+    };
+
+    worker.once('message', onMessage);
+    worker.once('error', fail);
+    worker.once('exit', onExit);
+  });
+}
+
+// Hand one page to a worker and wait for its answer. A worker that crashes
+// or exits rejects the page; the pool then replaces it.
+function send(
+  worker: PreprocessWorker,
+  request: PreprocessRequest
+): Promise<PreprocessedImage> {
+  return new Promise((resolve, reject) => {
+    const onMessage = (response: PreprocessResponse) => {
+      stopListening();
+      if ('error' in response) {
+        const { message, ...details } = response.error;
+        reject(new JobError(message, details));
+      } else if ('image' in response) {
+        resolve(response.image);
+      }
+    };
+    const onError = (error: Error) => {
+      stopListening();
+      reject(error);
+    };
+    const onExit = (code: number) => {
+      stopListening();
+      reject(new Error(`Preprocessing worker exited with code ${code}`));
+    };
+    const stopListening = () => {
+      worker.off('message', onMessage);
+      worker.off('error', onError);
+      worker.off('exit', onExit);
+    };
+
+    worker.once('message', onMessage);
+    worker.once('error', onError);
+    worker.once('exit', onExit);
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * Preprocessing Worker - runs preprocessImage() on a worker thread
+ *
+ * Started by preprocessPool.ts, one page at a time: a PreprocessRequest
+ * comes in, a PreprocessResponse goes back. A JobError doesn't survive the
+ * trip between threads, so failures are sent classified (see jobErrors.ts)
+ * and turned back into one on the other side.
+ */
+
+import { parentPort } from 'worker_threads';
+import { classifyJobError } from '../jobErrors';
+import type { PreprocessRequest, PreprocessResponse } from './preprocessPool';
+import { preprocessImage } from './preprocess';
+
+parentPort?.on('message', async (request: PreprocessRequest) => {
+  let response: PreprocessResponse;
+  try {
+    response = { image: await preprocessImage(request.input, request.steps) };
+  } catch (error) {
+    response = { error: classifyJobError(error) };
+  }
+  parentPort?.postMessage(response);
+});
+
+// Tell the pool the script loaded and pages can come
+parentPort?.postMessage({ ready: true } satisfies PreprocessResponse);
@@ -0,0 +1,215 @@
+/**
+ * OCR Providers - the contract every OCR engine implements
+ *
+ * The job handler doesn't care whether a page is read by Tesseract running
+ * on this server or by the Mistral API. Each engine is wrapped in an
+ * OcrProvider adapter that takes the same input, accepts the same options,
+ * stops when the job's AbortSignal fires and hands back the same normalized
+ * per-page result.
+ *
+ * Providers also declare what they can do (languages, bounding boxes,
+ * tables, page limits, input formats) so callers can pick one that fits the
+ * document instead of finding out halfway through a job.
+ *
+ * Failures are thrown as JobError with `provider` set, so the job manager
+ * knows whether to retry (see jobErrors.ts).
+ */
+
+import type { OcrProviderName } from '../env';
+import type { PageResult } from '../jobResults';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * What to read: one page image, or a whole document for providers that
+ * accept one (see capabilities.inputFormats)
+ */
+export interface OcrInput {
+  data: Uint8Array; // Raw file bytes
+  mimeType: string; // e.g. 'image/png', 'application/pdf'
+  pageNumber?: number; // 1-based page this image came from (default 1)
+  pageNumbers?: number[]; // Only read these 1-based pages of a document (default all)
+}
+
+export interface OcrOptions {
+  languages?: string[]; // ISO 639-3 codes, e.g. ['eng', 'spa'] (provider default if unset)
+  boundingBoxes?: boolean; // Word boxes - returned by default where supported, false to skip
+  tables?: boolean; // Ask for table structure when the provider supports it
+}
+
+/**
+ * Pixel rectangle on the page image, from the top-left corner
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OcrWord {
+  text: string;
+  confidence: number; // 0-1
+  box: BoundingBox;
+}
+
+/**
+ * A table found on the page, as rows of cell text
+ */
+export interface OcrTable {
+  rows: string[][];
+  box?: BoundingBox;
+}
+
+/**
+ * Normalized OCR output for one page - the same shape from every provider
+ */
+export interface OcrPage {
+  pageNumber: number; // 1-based
+  text: string; // Unix line endings, no trailing whitespace
+  confidence: number; // 0-1 (mean word confidence, or the provider's estimate)
+  words?: OcrWord[]; // Only when the provider supports boxes and they weren't turned off
+  tables?: OcrTable[]; // Only when tables were asked for and supported
+}
+
+export interface OcrResult {
+  provider: OcrProviderName;
+  pages: OcrPage[]; // In page order
+  durationMs: number; // Time spent recognizing
+}
+
+/**
+ * What a provider can do
+ */
+export interface OcrCapabilities {
+  languages: string[]; // ISO 639-3 codes it can read
+  boundingBoxes: boolean; // Word-level boxes
+  tables: boolean; // Table structure
+  maxPages: number; // Most pages one recognize() call accepts
+  inputFormats: string[]; // MIME types it accepts directly
+}
+
+export interface OcrProviderHealth {
+  healthy: boolean;
+  message?: string; // Why it isn't healthy (or extra detail when it is)
+}
+
+/**
+ * An OCR engine adapter
+ */
+export interface OcrProvider {
+  readonly name: OcrProviderName;
+  readonly capabilities: OcrCapabilities;
+
+  // Read the input. Must stop and throw once the signal is aborted.
+  recognize(
+    input: OcrInput,
+    options?: OcrOptions,
+    signal?: AbortSignal
+  ): Promise<OcrResult>;
+
+  // Can this provider take work right now? (e.g. API key set, data files present)
+  checkHealth(): Promise<OcrProviderHealth>;
+
+  close?(): Promise<void>; // Release workers/connections
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Can this provider handle the input and options at all?
+ * Returns the reason it can't, or undefined if it can.
+ */
+export function checkSupport(
+  capabilities: OcrCapabilities,
+  input: Pick<OcrInput, 'mimeType'>,
+  options: OcrOptions = {},
+  pageCount = 1
+): string | undefined {
+  if (!capabilities.inputFormats.includes(input.mimeType)) {
+    return `Unsupported input format '${input.mimeType}'`;
+  }
+  if (pageCount > capabilities.maxPages) {
+    return `Too many pages (${pageCount}, max ${capabilities.maxPages})`;
+  }
+  const missing = (options.languages ?? []).filter(
+    language => !capabilities.languages.includes(language)
+  );
+  if (missing.length > 0) {
+    return `Unsupported languages: ${missing.join(', ')}`;
+  }
+  if (options.boundingBoxes && !capabilities.boundingBoxes) {
+    return 'Bounding boxes are not supported';
+  }
+  if (options.tables && !capabilities.tables) {
+    return 'Tables are not supported';
+  }
+  return undefined;
+}
+
+/**
+ * Bring raw provider output into the shared shape: NFC text, Unix line
+ * endings, trailing whitespace trimmed, confidence as 0-1 (providers that report
+ * 0-100 are scaled down) and words/tables only when there are some.
+ */
+export function normalizeOcrPage(page: OcrPage): OcrPage {
+  // NFC: an accented letter is one character, whether the provider (or
+  // PDF) spelled it that way or as a letter plus a combining accent
+  const text = page.text
+    .normalize('NFC')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim();
+
+  const normalized: OcrPage = {
+    pageNumber: page.pageNumber,
+    text,
+    confidence: normalizeConfidence(page.confidence),
+  };
+  if (page.words && page.words.length > 0) {
+    normalized.words = page.words.map(word => ({
+      ...word,
+      text: word.text.normalize('NFC'),
+      confidence: normalizeConfidence(word.confidence),
+    }));
+  }
+  if (page.tables && page.tables.length > 0) {
+    normalized.tables = page.tables;
+  }
+  return normalized;
+}
+
+/**
+ * Confidence as 0-1, whether it came in as 0-1 or 0-100
+ */
+export function normalizeConfidence(value: number): number {
+  if (!Number.isFinite(value) || value <= 0) {
+    return 0;
+  }
+  const scaled = value > 1 ? value / 100 : value;
+  return Math.min(1, scaled);
+}
+
+/**
+ * Turn a recognized page into the PageResult stored on the job
+ */
+export function toPageResult(
+  page: OcrPage,
+  provider: PageResult['provider'],
+  durationMs: number
+): PageResult {
+  return {
+    pageNumber: page.pageNumber,
+    text: page.text,
+    confidence: page.confidence,
+    provider,
+    durationMs,
+    ...(page.words && { words: page.words }),
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Shared OCR Providers
+ *
+ * Builds the process-wide OcrProviderRegistry from serverEnv and resolves
+ * the provider selected by OCR_PROVIDER. Job handlers and API routes should
+ * go through here rather than constructing adapters themselves.
+ */
+
+import { serverEnv } from '../env';
+import type { OcrProviderName } from '../env';
+import { OcrFallbackChain } from './fallback';
+import { MistralProvider } from './mistral';
+import type { OcrProvider } from './provider';
+import { OcrProviderRegistry } from './registry';
+import { TesseractProvider } from './tesseract';
+
+// Kept on globalThis like the JobManager, so hot reloads in development
+// don't build a second set of providers (and their workers)
+const globalForOcr = globalThis as typeof globalThis & {
+  ocrRegistry?: OcrProviderRegistry;
+};
+
+/**
+ * Register every provider this server can run
+ */
+export function createOcrRegistry(): OcrProviderRegistry {
+  const registry = new OcrProviderRegistry();
+  registry.register(
+    new TesseractProvider({
+      langPath: serverEnv.ocr.tesseract.langPath,
+      languages: serverEnv.ocr.tesseract.languages,
+      poolSize: serverEnv.ocr.tesseract.workers,
+    })
+  );
+  registry.register(
+    new MistralProvider({
+      apiKey: serverEnv.ocr.mistral.apiKey,
+      apiUrl: serverEnv.ocr.mistral.apiUrl,
+      model: serverEnv.ocr.mistral.model,
+      timeoutMs: serverEnv.ocr.mistral.timeoutMs,
+      maxRetries: serverEnv.ocr.mistral.maxRetries,
+    })
+  );
+  return registry;
+}
+
+/**
+ * The process-wide registry
+ */
+export function getOcrRegistry(): OcrProviderRegistry {
+  if (!globalForOcr.ocrRegistry) {
+    globalForOcr.ocrRegistry = createOcrRegistry();
+  }
+  return globalForOcr.ocrRegistry;
+}
+
+/**
+ * The provider selected by OCR_PROVIDER (throws if it isn't registered)
+ */
+export function getConfiguredOcrProvider(): OcrProvider {
+  return getOcrRegistry().resolve(serverEnv.ocr.provider);
+}
+
+/**
+ * OCR_PROVIDER (or the provider a job asked for) followed by
+ * OCR_FALLBACK_PROVIDERS, as a fallback chain
+ */
+export function getOcrFallbackChain(
+  primary: OcrProviderName = serverEnv.ocr.provider
+): OcrFallbackChain {
+  const { fallbackProviders, minConfidence, providerTimeoutMs } = serverEnv.ocr;
+  const names = Array.from(new Set([primary, ...fallbackProviders]));
+
+  return new OcrFallbackChain({
+    providers: names.map(name => getOcrRegistry().resolve(name)),
+    minConfidence,
+    timeoutMs: providerTimeoutMs,
+  });
+}
@@ -0,0 +1,186 @@
+/**
+ * PDF Rasterizer - render PDF pages to PNG on the server
+ *
+ * OCR engines read images, not PDFs. This renders pages with pdf.js (drawing
+ * onto @napi-rs/canvas, which pdf.js picks up by itself in Node) at a chosen
+ * DPI: 300 suits OCR, 150 is plenty for a preview.
+ *
+ * Pages are yielded one at a time by an async generator, and each page's
+ * canvas is released before the next one is drawn, so a 200-page document
+ * never has more than one rendered page in memory. Stop iterating (or abort
+ * the signal) and rendering stops too.
+ */
+
+import path from 'path';
+import type { PDFDocumentProxy } from 'pdfjs-dist/types/src/display/api';
+import { JobError } from '../jobErrors';
+
+// Good default for OCR; text below ~200 DPI loses accuracy fast
+export const DEFAULT_RENDER_DPI = 300;
+
+// PDF user space is 72 points per inch
+const POINTS_PER_INCH = 72;
+
+// Largest page image we'll allocate (about 160 MB of RGBA). Bigger pages,
+// e.g. posters or architectural drawings, are rendered at a lower DPI.
+const MAX_PAGE_PIXELS = 40_000_000;
+
+export interface RasterizeOptions {
+  dpi?: number; // Default 300
+  pages?: number[]; // 1-based pages to render, in this order (default all)
+  signal?: AbortSignal;
+}
+
+export interface RasterizedPage {
+  pageNumber: number; // 1-based
+  pageCount: number; // Pages in the whole document
+  data: Uint8Array; // PNG bytes
+  mimeType: 'image/png';
+  width: number; // Pixels
+  height: number;
+  dpi: number; // What it was actually rendered at (lower than asked for huge pages)
+}
+
+/**
+ * Render PDF pages to PNG images, one page at a time
+ */
+export async function* rasterizePdf(
+  data: Uint8Array,
+  options: RasterizeOptions = {}
+): AsyncGenerator<RasterizedPage> {
+  const { signal } = options;
+  const dpi = options.dpi ?? DEFAULT_RENDER_DPI;
+  if (!(dpi > 0)) {
+    throw new JobError(`Invalid render DPI: ${dpi}`, {
+      retryable: false,
+      code: 'INVALID_OPTIONS',
+    });
+  }
+  signal?.throwIfAborted();
+
+  // Loaded on first use, like in pdfText.ts
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const pdfjsDir = path.join(process.cwd(), 'node_modules/pdfjs-dist');
+
+  // A copy, because pdf.js takes ownership of the buffer it is given
+  const document = await pdfjs.getDocument({
+    data: data.slice(),
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+    isEvalSupported: false,
+    // Fonts a PDF uses without embedding them (Helvetica, Times...) and
+    // CJK character maps are read from the package instead of a CDN
+    standardFontDataUrl: `${pdfjsDir}/standard_fonts/`,
+    cMapUrl: `${pdfjsDir}/cmaps/`,
+  }).promise;
+
+  try {
+    const pageCount = document.numPages;
+    const pageNumbers =
+      options.pages ?? Array.from({ length: pageCount }, (_, i) => i + 1);
+    const outOfRange = pageNumbers.filter(
+      page => !Number.isInteger(page) || page < 1 || page > pageCount
+    );
+    if (outOfRange.length > 0) {
+      throw new JobError(
+        `Page ${outOfRange.join(', ')} not in document (${pageCount} pages)`,
+        { retryable: false, code: 'INVALID_OPTIONS' }
+      );
+    }
+
+    for (const pageNumber of pageNumbers) {
+      signal?.throwIfAborted();
+      yield await renderPage(document, pageNumber, pageCount, dpi, signal);
+    }
+  } finally {
+    await document.destroy();
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// Draw one page and encode it as PNG, cancelling the draw on abort
+async function renderPage(
+  document: PDFDocumentProxy,
+  pageNumber: number,
+  pageCount: number,
+  dpi: number,
+  signal?: AbortSignal
+): Promise<RasterizedPage> {
+  const page = await document.getPage(pageNumber);
+  const canvasFactory = document.canvasFactory as CanvasFactory;
+  let canvasAndContext: CanvasAndContext | undefined;
+
+  try {
+    const effectiveDpi = fitDpi(page.getViewport({ scale: 1 }), dpi);
+    const viewport = page.getViewport({
+      scale: effectiveDpi / POINTS_PER_INCH,
+    });
+    // Rounded, as points * dpi / 72 comes out as e.g. 3300.0000000000005
+    const width = Math.round(viewport.width);
+    const height = Math.round(viewport.height);
+    canvasAndContext = canvasFactory.create(width, height);
+
+    const task = page.render({
+      canvas: canvasAndContext.canvas as unknown as HTMLCanvasElement,
+      canvasContext:
+        canvasAndContext.context as unknown as CanvasRenderingContext2D,
+      viewport,
+    });
+    const cancel = () => task.cancel();
+    signal?.addEventListener('abort', cancel, { once: true });
+    try {
+      await task.promise;
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+    }
+
+    const png = await canvasAndContext.canvas.encode('png');
+    return {
+      pageNumber,
+      pageCount,
+      data: new Uint8Array(png.buffer, png.byteOffset, png.byteLength),
+      mimeType: 'image/png',
+      width,
+      height,
+      dpi: effectiveDpi,
+    };
+  } finally {
+    if (canvasAndContext) {
+      canvasFactory.destroy(canvasAndContext);
+    }
+    page.cleanup();
+  }
+}
+
+/**
+ * The DPI to render a page at: the one asked for, or less if the page is so
+ * large that the image would pass MAX_PAGE_PIXELS
+ */
+export function fitDpi(
+  pageSizeInPoints: { width: number; height: number },
+  dpi: number
+): number {
+  const scale = dpi / POINTS_PER_INCH;
+  const pixels =
+    pageSizeInPoints.width * scale * (pageSizeInPoints.height * scale);
+  if (pixels <= MAX_PAGE_PIXELS) {
+    return dpi;
+  }
+  return Math.floor(dpi * Math.sqrt(MAX_PAGE_PIXELS / pixels));
+}
+
+// What pdf.js's Node canvas factory hands out (an @napi-rs/canvas canvas)
+interface CanvasAndContext {
+  canvas: { encode(format: 'png'): Promise<Buffer> };
+  context: unknown;
+}
+
+interface CanvasFactory {
+  create(width: number, height: number): CanvasAndContext;
+  destroy(canvasAndContext: CanvasAndContext): void;
+}
@@ -0,0 +1,113 @@
+/**
+ * OCR Provider Registry
+ *
+ * Keeps the OCR providers this server has, hands out the one a job asks
+ * for and reports which of them are healthy. The process-wide registry is
+ * built from serverEnv in providers.ts.
+ */
+
+import type { OcrProviderName } from '../env';
+import { JobError } from '../jobErrors';
+import type {
+  OcrCapabilities,
+  OcrProvider,
+  OcrProviderHealth,
+} from './provider';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A registered provider as /api/status reports it
+ */
+export interface OcrProviderStatus extends OcrProviderHealth {
+  name: OcrProviderName;
+  capabilities: OcrCapabilities;
+}
+
+// Health checks that hang count as unhealthy after this long
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+export class OcrProviderRegistry {
+  private providers: Map<OcrProviderName, OcrProvider> = new Map();
+
+  // Add a provider (replaces one registered under the same name)
+  register(provider: OcrProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  get(name: OcrProviderName): OcrProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  // Every registered provider, in registration order
+  list(): OcrProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  // The provider to use for a job. Throws a non-retryable JobError if it
+  // isn't registered - retrying won't make it appear.
+  resolve(name: OcrProviderName): OcrProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new JobError(`OCR provider '${name}' is not registered`, {
+        retryable: false,
+        code: 'PROVIDER_NOT_REGISTERED',
+        provider: name,
+      });
+    }
+    return provider;
+  }
+
+  // Check every provider's health in parallel. A check that throws or
+  // takes too long marks the provider unhealthy rather than failing.
+  async status(
+    timeoutMs: number = HEALTH_CHECK_TIMEOUT_MS
+  ): Promise<OcrProviderStatus[]> {
+    return Promise.all(
+      this.list().map(async provider => ({
+        name: provider.name,
+        capabilities: provider.capabilities,
+        ...(await checkWithTimeout(provider, timeoutMs)),
+      }))
+    );
+  }
+
+  // Shut every provider down (e.g. terminate worker threads)
+  async close(): Promise<void> {
+    await Promise.all(this.list().map(provider => provider.close?.()));
+  }
+}
+
+async function checkWithTimeout(
+  provider: OcrProvider,
+  timeoutMs: number
+): Promise<OcrProviderHealth> {
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<OcrProviderHealth>(resolve => {
+    timer = setTimeout(
+      () =>
+        resolve({
+          healthy: false,
+          message: `Health check timed out after ${timeoutMs}ms`,
+        }),
+      timeoutMs
+    );
+  });
+
+  try {
+    return await Promise.race([provider.checkHealth(), timedOut]);
+  } catch (error) {
+    return {
+      healthy: false,
+      message: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * Tesseract OCR Provider
+ *
+ * Runs Tesseract (tesseract.js) inside Node worker_threads on this server.
+ * Nothing is downloaded at runtime: the language data is read from local
+ * traineddata files - the English model bundled with @tesseract.js-data/eng
+ * by default, or TESSERACT_LANG_PATH for other languages.
+ *
+ * Workers start with TESSERACT_LANGUAGES loaded. A page asked for in other
+ * languages (any with a traineddata file in the folder) makes the worker
+ * that reads it load those instead, and keep them for the next page.
+ *
+ * Workers are slow to start (WebAssembly compile + loading the model), so
+ * they are kept in a WorkerPool and reused across pages and jobs. Cancelling
+ * a job terminates the worker reading its page; the pool starts a new one.
+ */
+
+import { existsSync, readdirSync } from 'fs';
+import path from 'path';
+import type { Page, Worker } from 'tesseract.js';
+import { JobError } from '../jobErrors';
+import {
+  checkSupport,
+  normalizeOcrPage,
+  OcrCapabilities,
+  OcrInput,
+  OcrOptions,
+  OcrProvider,
+  OcrProviderHealth,
+  OcrResult,
+  OcrWord,
+} from './provider';
+import { WorkerPool } from './workerPool';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * The part of a tesseract.js worker this provider uses (lets tests pass a fake)
+ */
+export type TesseractEngine = Pick<
+  Worker,
+  'recognize' | 'reinitialize' | 'terminate'
+>;
+
+export interface TesseractProviderOptions {
+  langPath?: string; // Folder with <lang>.traineddata.gz
+  languages?: string[]; // Loaded into every worker at start (default ['eng'])
+  poolSize?: number; // Workers kept alive (default 2)
+  createWorker?: (
+    languages: string[],
+    langPath: string
+  ) => Promise<TesseractEngine>;
+}
+
+// English model shipped with @tesseract.js-data/eng (integer "best" LSTM)
+const BUNDLED_LANG_PATH = path.join(
+  process.cwd(),
+  'node_modules/@tesseract.js-data/eng/4.0.0_best_int'
+);
+
+// Tesseract names a few models differently from ISO 639-3
+const TESSERACT_CODES: Record<string, string> = { zho: 'chi_sim' };
+
+// Image formats Tesseract can decode - PDFs are rasterized first
+const IMAGE_FORMATS = [
+  'image/png',
+  'image/jpeg',
+  'image/bmp',
+  'image/webp',
+  'image/x-portable-bitmap',
+];
+
+// =============================================================================
+// PROVIDER
+// =============================================================================
+
+export class TesseractProvider implements OcrProvider {
+  readonly name = 'tesseract' as const;
+  readonly capabilities: OcrCapabilities;
+  private readonly langPath: string;
+  private readonly languages: string[];
+  private readonly pool: WorkerPool<TesseractEngine>;
+  // What each worker has loaded right now (see languageKey)
+  private readonly loaded = new WeakMap<TesseractEngine, string>();
+
+  constructor(options: TesseractProviderOptions = {}) {
+    this.langPath = options.langPath ?? BUNDLED_LANG_PATH;
+    this.languages = options.languages ?? ['eng'];
+
+    const createWorker = options.createWorker ?? startTesseractWorker;
+    this.pool = new WorkerPool({
+      size: options.poolSize ?? 2,
+      create: async () => {
+        const worker = await createWorker(
+          this.languages.map(toTesseractCode),
+          this.langPath
+        );
+        this.loaded.set(worker, languageKey(this.languages));
+        return worker;
+      },
+      destroy: async worker => {
+        await worker.terminate();
+      },
+    });
+
+    this.capabilities = {
+      languages: installedLanguages(this.langPath, this.languages),
+      boundingBoxes: true,
+      tables: false,
+      maxPages: 1, // One page image per call
+      inputFormats: IMAGE_FORMATS,
+    };
+  }
+
+  async recognize(
+    input: OcrInput,
+    options: OcrOptions = {},
+    signal?: AbortSignal
+  ): Promise<OcrResult> {
+    const unsupported = checkSupport(this.capabilities, input, options);
+    if (unsupported) {
+      throw new JobError(unsupported, {
+        retryable: false,
+        code: 'UNSUPPORTED_INPUT',
+        provider: this.name,
+      });
+    }
+
+    const startedAt = Date.now();
+    const image = Buffer.from(input.data);
+    const languages = options.languages ?? this.languages;
+
+    let data: Page;
+    try {
+      ({ data } = await this.pool.run(async worker => {
+        // Swap the worker's models if it has other languages loaded
+        const key = languageKey(languages);
+        if (this.loaded.get(worker) !== key) {
+          this.loaded.delete(worker);
+          await worker.reinitialize(key);
+          this.loaded.set(worker, key);
+        }
+        return worker.recognize(image, {}, { text: true, blocks: true });
+      }, signal));
+    } catch (error) {
+      throw toJobError(error, signal);
+    }
+
+    const page = normalizeOcrPage({
+      pageNumber: input.pageNumber ?? 1,
+      text: data.text,
+      confidence: data.confidence / 100, // Tesseract reports 0-100
+      words: options.boundingBoxes === false ? undefined : extractWords(data),
+    });
+
+    return {
+      provider: this.name,
+      pages: [page],
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  // Workers can only start if every language's traineddata is on disk
+  async checkHealth(): Promise<OcrProviderHealth> {
+    const missing = this.languages.filter(
+      language => !existsSync(traineddataFile(this.langPath, language))
+    );
+    if (missing.length > 0) {
+      return {
+        healthy: false,
+        message: `Missing traineddata for ${missing.join(', ')} in ${this.langPath}`,
+      };
+    }
+    return {
+      healthy: true,
+      message: `Languages: ${this.languages.join(', ')}`,
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.pool.close();
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+// Start a real tesseract.js worker thread, loading models from disk only
+async function startTesseractWorker(
+  languages: string[],
+  langPath: string
+): Promise<TesseractEngine> {
+  const { createWorker, OEM } = await import('tesseract.js');
+  return createWorker(languages, OEM.LSTM_ONLY, {
+    langPath,
+    gzip: true,
+    cacheMethod: 'none', // Don't copy models into a cache folder
+  });
+}
+
+function traineddataFile(langPath: string, language: string): string {
+  return path.join(langPath, `${toTesseractCode(language)}.traineddata.gz`);
+}
+
+function toTesseractCode(language: string): string {
+  return TESSERACT_CODES[language] ?? language;
+}
+
+// How tesseract.js names a set of models: 'eng+chi_sim'
+function languageKey(languages: string[]): string {
+  return languages.map(toTesseractCode).join('+');
+}
+
+// The configured languages plus every other one with a traineddata file in
+// the folder (as ISO 639-3 codes)
+function installedLanguages(langPath: string, configured: string[]): string[] {
+  let files: string[];
+  try {
+    files = readdirSync(langPath);
+  } catch {
+    return configured;
+  }
+  const fromTesseractCode = Object.fromEntries(
+    Object.entries(TESSERACT_CODES).map(([iso, code]) => [code, iso])
+  );
+  const installed = files
+    .filter(file => file.endsWith('.traineddata.gz'))
+    .map(file => file.replace('.traineddata.gz', ''))
+    .map(code => fromTesseractCode[code] ?? code);
+  return Array.from(new Set([...configured, ...installed]));
+}
+
+// Flatten blocks > paragraphs > lines > words into words with pixel boxes
+function extractWords(page: Page): OcrWord[] {
+  const words: OcrWord[] = [];
+  for (const block of page.blocks ?? []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          if (!word.text.trim()) continue;
+          words.push({
+            text: word.text,
+            confidence: word.confidence / 100,
+            box: {
+              x: word.bbox.x0,
+              y: word.bbox.y0,
+              width: word.bbox.x1 - word.bbox.x0,
+              height: word.bbox.y1 - word.bbox.y0,
+            },
+          });
+        }
+      }
+    }
+  }
+  return words;
+}
+
+// Cancellations pass through untouched; engine failures become JobErrors.
+// A worker that crashed has been replaced, so those are worth a retry -
+// an image Tesseract can't decode is not.
+function toJobError(error: unknown, signal?: AbortSignal): unknown {
+  if (
+    error instanceof JobError ||
+    (signal?.aborted && error === signal.reason)
+  ) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const unreadable = /read image/i.test(message);
+  return new JobError(`Tesseract failed: ${message}`, {
+    retryable: !unreadable,
+    code: unreadable ? 'UNREADABLE_IMAGE' : 'ENGINE_ERROR',
+    provider: 'tesseract',
+    cause: error,
+  });
+}
@@ -0,0 +1,213 @@
+/**
+ * Worker Pool - reusable workers for OCR engines
+ *
+ * Starting an OCR engine is slow (Tesseract has to compile its WebAssembly
+ * core and load the language data), so workers are kept between jobs and
+ * handed out one task at a time. The pool grows lazily up to its size;
+ * callers beyond that wait their turn.
+ *
+ * Cancellation: a task can't be interrupted inside the engine, so when the
+ * job's AbortSignal fires the worker running it is terminated - that stops
+ * the page mid-recognition - and a fresh one is started for the next caller.
+ */
+
+import { JobError } from '../jobErrors';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface WorkerPoolOptions<T> {
+  size: number; // Most workers alive at once
+  create: () => Promise<T>; // Start a worker
+  destroy: (worker: T) => Promise<void>; // Terminate one
+}
+
+export interface WorkerPoolStats {
+  size: number;
+  idle: number;
+  busy: number;
+  waiting: number; // Callers queued for a worker
+}
+
+interface Waiter<T> {
+  resolve: (worker: T) => void;
+  reject: (error: unknown) => void;
+}
+
+// =============================================================================
+// POOL
+// =============================================================================
+
+export class WorkerPool<T> {
+  private readonly size: number;
+  private readonly create: () => Promise<T>;
+  private readonly destroy: (worker: T) => Promise<void>;
+  private idle: T[] = [];
+  private busy: Set<T> = new Set();
+  private starting = 0; // Workers being created right now
+  private waiters: Waiter<T>[] = [];
+  private closed = false;
+
+  constructor(options: WorkerPoolOptions<T>) {
+    this.size = Math.max(1, options.size);
+    this.create = options.create;
+    this.destroy = options.destroy;
+  }
+
+  get stats(): WorkerPoolStats {
+    return {
+      size: this.size,
+      idle: this.idle.length,
+      busy: this.busy.size,
+      waiting: this.waiters.length,
+    };
+  }
+
+  // Run a task on a worker. If the signal aborts first, the worker is
+  // terminated (stopping the task) and the abort reason is thrown.
+  async run<R>(task: (worker: T) => Promise<R>, signal?: AbortSignal) {
+    const worker = await this.acquire(signal);
+    if (signal?.aborted) {
+      // Cancelled while the worker was starting - it's untouched, keep it
+      this.release(worker);
+      throw abortReason(signal);
+    }
+
+    let onAbort: () => void = () => {};
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(abortReason(signal!));
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    const work = task(worker);
+    work.catch(() => {}); // Still rejects after a terminate - nobody is listening
+
+    try {
+      const result: R = await Promise.race([work, aborted]);
+      this.release(worker);
+      return result;
+    } catch (error) {
+      // Aborted mid-task, or the engine failed and may be in a bad state
+      await this.discard(worker);
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // Take a worker, starting one if there is room, or wait for one
+  acquire(signal?: AbortSignal): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(new Error('Worker pool is closed'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(abortReason(signal));
+    }
+
+    const worker = this.idle.pop();
+    if (worker !== undefined) {
+      this.busy.add(worker);
+      return Promise.resolve(worker);
+    }
+    if (this.hasRoom()) {
+      return this.start();
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters = this.waiters.filter(waiter => waiter !== entry);
+        reject(abortReason(signal!));
+      };
+      const entry: Waiter<T> = {
+        resolve: worker => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(worker);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(entry);
+    });
+  }
+
+  // Give a worker back for the next task
+  release(worker: T): void {
+    if (!this.busy.delete(worker)) return;
+
+    if (this.closed) {
+      void this.terminate(worker);
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      this.busy.add(worker);
+      waiter.resolve(worker);
+    } else {
+      this.idle.push(worker);
+    }
+  }
+
+  // Terminate a worker instead of reusing it; its slot goes to whoever
+  // is waiting next
+  async discard(worker: T): Promise<void> {
+    this.busy.delete(worker);
+    await this.terminate(worker);
+    this.serveNextWaiter();
+  }
+
+  // Terminate every worker; waiting callers are rejected
+  async close(): Promise<void> {
+    this.closed = true;
+    const error = new Error('Worker pool is closed');
+    this.waiters.splice(0).forEach(waiter => waiter.reject(error));
+    await Promise.all(
+      this.idle.splice(0).map(worker => this.terminate(worker))
+    );
+  }
+
+  private hasRoom(): boolean {
+    return this.busy.size + this.starting < this.size;
+  }
+
+  private async start(): Promise<T> {
+    this.starting++;
+    try {
+      const worker = await this.create();
+      this.busy.add(worker);
+      return worker;
+    } finally {
+      this.starting--;
+    }
+  }
+
+  private serveNextWaiter(): void {
+    if (this.closed || !this.hasRoom()) return;
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      this.start().then(waiter.resolve, waiter.reject);
+    }
+  }
+
+  private async terminate(worker: T): Promise<void> {
+    try {
+      await this.destroy(worker);
+    } catch (error) {
+      console.error('❌ Failed to terminate OCR worker:', error);
+    }
+  }
+}
+
+// The error a cancelled task rejects with - the job's own abort reason
+// (a JobError) when there is one
+function abortReason(signal: AbortSignal): unknown {
+  return (
+    signal.reason ??
+    new JobError('OCR was cancelled', { retryable: false, code: 'CANCELLED' })
+  );
+}
@@ -0,0 +1,205 @@
+/**
+ * Postgres Job Store
+ *
+ * Stores jobs in a Postgres table so they survive redeploys and can be
+ * shared between server instances. Driven by DATABASE_URL (serverEnv.database.url).
+ *
+ * Each job is kept as a JSONB document next to a few indexed columns, so the
+ * Job shape can grow without a migration for every new field.
+ *
+ * Leases live in their own columns (mirrored into the document) so claiming
+ * is a single conditional UPDATE - Postgres guarantees only one instance
+ * wins it.
+ */
+
+import type { Pool } from 'pg';
+import type { Job } from './jobManager';
+import {
+  JobSaveOptions,
+  JobStore,
+  deserializeJob,
+  serializeJob,
+} from './jobStore';
+
+const DEFAULT_TABLE = 'ocr_jobs';
+
+export interface PostgresJobStoreOptions {
+  connectionString: string;
+  tableName?: string;
+}
+
+export class PostgresJobStore implements JobStore {
+  readonly kind = 'postgres' as const;
+  private pool: Pool | null = null;
+  private ready: Promise<void> | null = null;
+  private readonly tableName: string;
+
+  constructor(private readonly options: PostgresJobStoreOptions) {
+    this.tableName = options.tableName ?? DEFAULT_TABLE;
+
+    // The table name is interpolated into SQL, so only allow plain identifiers
+    if (!/^[a-z_][a-z0-9_]*$/i.test(this.tableName)) {
+      throw new Error(`Invalid job table name: ${this.tableName}`);
+    }
+  }
+
+  async load(jobId: string): Promise<Job | undefined> {
+    const pool = await this.getPool();
+    const { rows } = await pool.query(
+      `SELECT data FROM ${this.tableName} WHERE id = $1`,
+      [jobId]
+    );
+    return rows[0] ? deserializeJob(rows[0].data) : undefined;
+  }
+
+  async loadAll(): Promise<Job[]> {
+    const pool = await this.getPool();
+    const { rows } = await pool.query(
+      `SELECT data FROM ${this.tableName} ORDER BY created_at ASC`
+    );
+    return rows.map(row => deserializeJob(row.data));
+  }
+
+  async save(job: Job, options?: JobSaveOptions): Promise<void> {
+    const pool = await this.getPool();
+    await pool.query(
+      `INSERT INTO ${this.tableName}
+         (id, status, data, created_at, updated_at, lease_owner, lease_expires_at)
+       VALUES ($1, $2, $3, $4, NOW(), $5, $6)
+       ON CONFLICT (id) DO UPDATE
+       SET status = EXCLUDED.status, data = EXCLUDED.data, updated_at = NOW(),
+           lease_owner = EXCLUDED.lease_owner,
+           lease_expires_at = EXCLUDED.lease_expires_at
+       WHERE $7::text IS NULL OR ${this.tableName}.lease_owner = $7`,
+      [
+        job.id,
+        job.status,
+        serializeJob(job),
+        job.createdAt,
+        job.leaseOwner ?? null,
+        job.leaseExpiresAt ?? null,
+        options?.fence ?? null,
+      ]
+    );
+  }
+
+  async delete(jobId: string): Promise<void> {
+    const pool = await this.getPool();
+    await pool.query(`DELETE FROM ${this.tableName} WHERE id = $1`, [jobId]);
+  }
+
+  async listClaimable(now: Date, limit: number): Promise<Job[]> {
+    const pool = await this.getPool();
+    const { rows } = await pool.query(
+      `SELECT data FROM ${this.tableName}
+       WHERE status IN ('queued', 'processing')
+         AND (lease_owner IS NULL OR lease_expires_at <= $1)
+       ORDER BY created_at ASC
+       LIMIT $2`,
+      [now, limit]
+    );
+    return rows.map(row => deserializeJob(row.data));
+  }
+
+  // Only one UPDATE can match the row while the lease is free
+  async claim(
+    jobId: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<Job | undefined> {
+    const now = new Date();
+    const { rows } = await this.setLease(
+      jobId,
+      workerId,
+      new Date(now.getTime() + leaseMs),
+      `status IN ('queued', 'processing')
+       AND (lease_owner IS NULL OR lease_expires_at <= $5)`,
+      [now]
+    );
+    return rows[0] ? deserializeJob(rows[0].data) : undefined;
+  }
+
+  async renew(
+    jobId: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<boolean> {
+    const { rows } = await this.setLease(
+      jobId,
+      workerId,
+      new Date(Date.now() + leaseMs),
+      `status IN ('queued', 'processing') AND lease_owner = $2`
+    );
+    return rows.length > 0;
+  }
+
+  async close(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+      this.ready = null;
+    }
+  }
+
+  // Point the lease at workerId until expiresAt if the condition holds
+  private async setLease(
+    jobId: string,
+    workerId: string,
+    expiresAt: Date,
+    condition: string,
+    extraParams: unknown[] = []
+  ) {
+    const pool = await this.getPool();
+    return pool.query(
+      `UPDATE ${this.tableName}
+       SET lease_owner = $2, lease_expires_at = $3, updated_at = NOW(),
+           data = data || jsonb_build_object('leaseOwner', $2::text, 'leaseExpiresAt', $4::text)
+       WHERE id = $1 AND ${condition}
+       RETURNING data`,
+      [jobId, workerId, expiresAt, expiresAt.toISOString(), ...extraParams]
+    );
+  }
+
+  // Connect lazily so importing this file never opens a connection
+  private async getPool(): Promise<Pool> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        const { Pool } = await import('pg');
+        const pool = new Pool({
+          connectionString: this.options.connectionString,
+        });
+
+        await pool.query(
+          `CREATE TABLE IF NOT EXISTS ${this.tableName} (
+             id TEXT PRIMARY KEY,
+             status TEXT NOT NULL,
+             data JSONB NOT NULL,
+             created_at TIMESTAMPTZ NOT NULL,
+             updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+           )`
+        );
+        await pool.query(
+          `CREATE INDEX IF NOT EXISTS ${this.tableName}_status_idx
+           ON ${this.tableName} (status)`
+        );
+
+        // Lease columns were added later - bring older tables up to date
+        await pool.query(
+          `ALTER TABLE ${this.tableName}
+           ADD COLUMN IF NOT EXISTS lease_owner TEXT,
+           ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ`
+        );
+
+        this.pool = pool;
+      })();
+
+      // Let the next call try again if the connection failed
+      this.ready.catch(() => {
+        this.ready = null;
+      });
+    }
+
+    await this.ready;
+    return this.pool!;
+  }
+}
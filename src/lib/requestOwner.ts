@@ -0,0 +1,82 @@
+/**
+ * Request Owner - who is making this API call?
+ *
+ * Jobs belong to whoever created them, and the job APIs only ever show a
+ * caller their own jobs. There are two kinds of owner:
+ * - user: signed in with Supabase Auth (Authorization: Bearer <access token>)
+ * - guest: anyone else, identified by a random session ID kept in a cookie
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { Job } from './jobManager';
+import type { JobOwner } from './jobQuery';
+import { isSameOwner } from './jobQuery';
+import { getSupabaseAdmin } from './supabase';
+
+export const GUEST_SESSION_COOKIE = 'anychange_session';
+const GUEST_SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60; // 30 days
+const SESSION_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+/**
+ * Work out who is calling. A bearer token must belong to a real user;
+ * otherwise the guest session cookie is used. Returns null when the caller
+ * has neither (a first-time guest).
+ */
+export async function getRequestOwner(
+  request: NextRequest
+): Promise<JobOwner | null> {
+  // Step 1: Signed-in users send their Supabase access token
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    const token = authorization.slice('Bearer '.length).trim();
+    const { data, error } = await getSupabaseAdmin().auth.getUser(token);
+    if (error || !data.user) {
+      return null;
+    }
+    return { kind: 'user', id: data.user.id };
+  }
+
+  // Step 2: Guests carry a session ID in a cookie
+  const sessionId = request.cookies.get(GUEST_SESSION_COOKIE)?.value;
+  if (sessionId && SESSION_ID_PATTERN.test(sessionId)) {
+    return { kind: 'guest', id: sessionId };
+  }
+
+  return null;
+}
+
+/**
+ * Start a new guest session (remember to set the cookie on the response)
+ */
+export function createGuestOwner(): JobOwner {
+  return { kind: 'guest', id: crypto.randomUUID() };
+}
+
+/**
+ * Remember a guest's session ID in a cookie
+ */
+export function setGuestSessionCookie(
+  response: NextResponse,
+  owner: JobOwner
+): void {
+  if (owner.kind !== 'guest') return;
+
+  response.cookies.set(GUEST_SESSION_COOKIE, owner.id, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: GUEST_SESSION_MAX_AGE_SECONDS,
+  });
+}
+
+/**
+ * Does this job belong to the caller? The job routes answer 404 when it
+ * doesn't, so somebody else's job ID gives nothing away.
+ */
+export async function isJobOwner(
+  request: NextRequest,
+  job: Job
+): Promise<boolean> {
+  return isSameOwner(job.owner, (await getRequestOwner(request)) ?? undefined);
+}
@@ -13,6 +13,7 @@
 
 import { createClient } from '@supabase/supabase-js';
 import { serverEnv } from './env';
+import { JobResultStorage, decodeJobResult } from './jobResults';
 
 // =============================================================================
 // CLIENT-SIDE SUPABASE CLIENT
@@ -122,3 +123,158 @@ export function getFileUrl(filePath: string): string {
 
   return data.publicUrl;
 }
+
+/**
+ * Error from a storage download, keeping the HTTP status so callers can
+ * tell a missing file (404) from a temporary outage (5xx)
+ */
+export class StorageDownloadError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'StorageDownloadError';
+  }
+}
+
+/**
+ * Size and type of a file in storage, or null if there is no such file
+ */
+export async function getStorageFileInfo(
+  filePath: string
+): Promise<{ size?: number; contentType?: string } | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .storage.from(getStorageBucket())
+    .info(filePath);
+
+  if (error) {
+    // Storage reports a missing object as HTTP 400 with statusCode '404'
+    const details = error as { status?: number; statusCode?: string };
+    if (details.status === 404 || details.statusCode === '404') {
+      return null;
+    }
+    throw new StorageDownloadError(
+      `Could not look up '${filePath}': ${error.message}`,
+      details.status
+    );
+  }
+
+  return { size: data.size, contentType: data.contentType };
+}
+
+/**
+ * Download a file from storage into memory.
+ * Goes through a short-lived signed URL so the request can be aborted with
+ * the job's AbortSignal (the Supabase client's download() can't be).
+ */
+export async function downloadStorageFile(
+  filePath: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<Uint8Array> {
+  const response = await fetchStorageFile(filePath, options);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Open a file in storage as a stream, without loading it into memory
+ * (used to pass large job results straight through to the browser)
+ */
+export async function streamStorageFile(
+  filePath: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<ReadableStream<Uint8Array>> {
+  const response = await fetchStorageFile(filePath, options);
+  if (!response.body) {
+    throw new StorageDownloadError(`Download of '${filePath}' had no body`);
+  }
+  return response.body;
+}
+
+/**
+ * Write a file to storage, replacing any file already at that path
+ */
+export async function uploadStorageFile(
+  filePath: string,
+  data: Uint8Array,
+  contentType: string
+): Promise<void> {
+  const { error } = await getSupabaseAdmin()
+    .storage.from(getStorageBucket())
+    .upload(filePath, data, { contentType, upsert: true });
+
+  if (error) {
+    throw new Error(`Failed to upload '${filePath}': ${error.message}`);
+  }
+}
+
+// Fetch a storage file through a signed URL, throwing on any failure
+async function fetchStorageFile(
+  filePath: string,
+  options: { signal?: AbortSignal }
+): Promise<Response> {
+  options.signal?.throwIfAborted();
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase.storage
+    .from(getStorageBucket())
+    .createSignedUrl(filePath, 60);
+
+  if (error || !data) {
+    const status = Number((error as { statusCode?: string })?.statusCode);
+    throw new StorageDownloadError(
+      `Could not access '${filePath}': ${error?.message ?? 'no signed URL returned'}`,
+      Number.isNaN(status) ? undefined : status
+    );
+  }
+
+  const response = await fetch(data.signedUrl, { signal: options.signal });
+  if (!response.ok) {
+    throw new StorageDownloadError(
+      `Download of '${filePath}' failed with status ${response.status}`,
+      response.status
+    );
+  }
+
+  return response;
+}
+
+// =============================================================================
+// JOB RESULT STORAGE
+// =============================================================================
+
+/**
+ * Keeps large OCR results as JSON files in the storage bucket,
+ * under results/<jobId>.json
+ */
+export function createSupabaseResultStorage(): JobResultStorage {
+  return {
+    async save(jobId, json) {
+      const path = `results/${jobId}.json`;
+      const body = new TextEncoder().encode(json);
+      const { error } = await getSupabaseAdmin()
+        .storage.from(getStorageBucket())
+        .upload(path, body, { contentType: 'application/json', upsert: true });
+
+      if (error) {
+        throw new Error(`Failed to store job result: ${error.message}`);
+      }
+      return { path, sizeBytes: body.length, storedAt: new Date() };
+    },
+
+    async load(ref) {
+      const bytes = await downloadStorageFile(ref.path);
+      return decodeJobResult(new TextDecoder().decode(bytes));
+    },
+
+    async delete(ref) {
+      const { error } = await getSupabaseAdmin()
+        .storage.from(getStorageBucket())
+        .remove([ref.path]);
+
+      if (error) {
+        throw new Error(`Failed to delete job result: ${error.message}`);
+      }
+    },
+  };
+}